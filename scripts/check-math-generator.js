@@ -0,0 +1,46 @@
+/**
+ * This script checks the math problem generator against its invariants
+ * (one right answer among the choices, whole numbers, operands within maxNumber,
+ * the right number of choices) over many random, seeded configs.
+ * Failures print the seed and config so they can be replayed in a test.
+ *
+ * Run with: node scripts/check-math-generator.js [--runs 10000] [--seed 1]
+ */
+
+import { createServer } from 'vite';
+
+function readOption(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) return fallback;
+  const value = Number(process.argv[index + 1]);
+  if (!Number.isInteger(value) || value < 0) {
+    console.error(`--${name} needs a whole number`);
+    process.exit(2);
+  }
+  return value;
+}
+
+// Vite compiles the TypeScript source on the fly, so the checks match the app's code
+const server = await createServer({
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true },
+});
+
+try {
+  const { checkGeneratorInvariants, formatInvariantFailure, INVARIANT_CONFIG } =
+    await server.ssrLoadModule('/src/game/systems/GeneratorInvariants.ts');
+  const runs = readOption('runs', INVARIANT_CONFIG.RUNS);
+  const seed = readOption('seed', 1);
+
+  const report = checkGeneratorInvariants({ runs, seed });
+  report.failures.forEach((failure) => console.error(`${formatInvariantFailure(failure)}\n`));
+  console.log(
+    `Checked ${report.problems} problems from ${report.configs} configs (seeds ${seed}-${seed + runs - 1}): ` +
+      `${report.failures.length === 0 ? 'all fine' : `${report.failures.length} failed`}`
+  );
+  process.exitCode = report.failures.length === 0 ? 0 : 1;
+} finally {
+  await server.close();
+}
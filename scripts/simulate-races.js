@@ -0,0 +1,90 @@
+/**
+ * This script runs thousands of headless races against a scripted Rosie and
+ * reports how often she finishes in each place, her average margins and each
+ * family member's win rate, for tuning SPEED_CONFIG, the family's base speeds
+ * and AI_CONFIG.
+ *
+ * Run with: node scripts/simulate-races.js [--races 1000] [--seed 1] [--taps 4]
+ *   [--accuracy 0.9] [--answer-time 3000] [--preset classic] [--speed-scale 0.7] [--catch-up 0.5]
+ * --taps takes a profile spread over the track, e.g. --taps 5,4,3 for a fast start
+ */
+
+import { createServer } from 'vite';
+
+function fail(message) {
+  console.error(message);
+  process.exit(2);
+}
+
+function readRaw(name) {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+  const value = process.argv[index + 1];
+  if (value === undefined) fail(`--${name} needs a value`);
+  return value;
+}
+
+function readNumber(name, { min = 0, max = Infinity, integer = false } = {}) {
+  const raw = readRaw(name);
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  if (
+    !Number.isFinite(value) ||
+    value < min ||
+    value > max ||
+    (integer && !Number.isInteger(value))
+  ) {
+    const range = max === Infinity ? `of at least ${min}` : `from ${min} to ${max}`;
+    fail(`--${name} needs a ${integer ? 'whole number' : 'number'} ${range}`);
+  }
+  return value;
+}
+
+function readTaps() {
+  const raw = readRaw('taps');
+  if (raw === undefined) return undefined;
+  const profile = raw.split(',').map(Number);
+  if (profile.some((rate) => !Number.isFinite(rate) || rate < 0)) {
+    fail('--taps needs taps per second, or a comma-separated profile like 5,4,3');
+  }
+  return profile;
+}
+
+// Vite compiles the TypeScript source on the fly, so the races match the app's code
+const server = await createServer({
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true },
+});
+
+try {
+  const { simulateRaces, formatRaceBatchReport } = await server.ssrLoadModule(
+    '/src/game/systems/RaceBatch.ts'
+  );
+  const { RACE_PRESETS } = await server.ssrLoadModule('/src/game/systems/RacePresets.ts');
+
+  const presetId = readRaw('preset');
+  if (presetId !== undefined && !RACE_PRESETS.some((preset) => preset.id === presetId)) {
+    fail(`--preset needs one of: ${RACE_PRESETS.map((preset) => preset.id).join(', ')}`);
+  }
+  const races = readNumber('races', { min: 1, integer: true });
+  const seed = readNumber('seed', { integer: true }) ?? 1;
+
+  const report = simulateRaces({
+    races,
+    seed,
+    presetId,
+    speedScale: readNumber('speed-scale', { min: 0.01 }),
+    catchUpStrength: readNumber('catch-up', { max: 1 }),
+    rosie: {
+      tapsPerSecond: readTaps(),
+      accuracy: readNumber('accuracy', { max: 1 }),
+      answerTimeMs: readNumber('answer-time'),
+    },
+  });
+  console.log(formatRaceBatchReport(report));
+  console.log(`(seeds ${seed}-${seed + report.races - 1})`);
+} finally {
+  await server.close();
+}
@@ -51,6 +51,7 @@ function AppContent() {
     isRacing,
     currentProblem,
     submitMathAnswer,
+    mathConfig,
     raceResults,
     gameState,
   } = useGame();
@@ -275,7 +276,16 @@ function AppContent() {
           )}
 
           {currentProblem && (
-            <MathModal problem={currentProblem} onAnswer={submitMathAnswer} compact />
+            <MathModal
+              problem={currentProblem}
+              onAnswer={submitMathAnswer}
+              answerMode={mathConfig.answerMode}
+              retryUntilCorrect={mathConfig.retryUntilCorrect}
+              hintAfterMisses={mathConfig.hintAfterMisses}
+              visualAid={mathConfig.visualAid}
+              visualAidTiming={mathConfig.visualAidTiming}
+              compact
+            />
           )}
           {raceResults && (
             <RaceResultsScreen results={raceResults} onRestart={handleRestart} compact />
@@ -434,7 +444,17 @@ function AppContent() {
         <Typography variant="body2">Footer</Typography>
       </Box>
 
-      {currentProblem && <MathModal problem={currentProblem} onAnswer={submitMathAnswer} />}
+      {currentProblem && (
+        <MathModal
+          problem={currentProblem}
+          onAnswer={submitMathAnswer}
+          answerMode={mathConfig.answerMode}
+          retryUntilCorrect={mathConfig.retryUntilCorrect}
+          hintAfterMisses={mathConfig.hintAfterMisses}
+          visualAid={mathConfig.visualAid}
+          visualAidTiming={mathConfig.visualAidTiming}
+        />
+      )}
       {raceResults && <RaceResultsScreen results={raceResults} onRestart={handleRestart} />}
     </Box>
   );
@@ -0,0 +1,119 @@
+import { useCallback } from 'react';
+import {
+  Box,
+  FormControlLabel,
+  Slider,
+  Switch,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { useGame } from '../hooks/useGame';
+import type { Operation } from '../game/systems/MathGenerator';
+import {
+  CHECKPOINT_RAMP_CONFIG,
+  DEFAULT_CHECKPOINT_RAMP,
+  type CheckpointSettings,
+} from '../game/systems/CheckpointRamp';
+
+const operationSymbols: Record<Operation, string> = {
+  add: '+',
+  subtract: '−',
+  multiply: '×',
+  divide: '÷',
+  square: '²',
+  compare: '>',
+  'skip-count': '+5',
+  bonds: '10',
+  'before-after': '±1',
+  time: '🕒',
+  money: '¢',
+};
+
+/**
+ * CheckpointRampSettings - Settings section for giving each checkpoint its own
+ * operations, max number and fast answer boost.
+ */
+export function CheckpointRampSettings() {
+  const { checkpointRamp, setCheckpointRamp } = useGame();
+
+  const updateCheckpoint = useCallback(
+    (index: number, changes: Partial<CheckpointSettings>) => {
+      if (!checkpointRamp) return;
+      setCheckpointRamp(
+        checkpointRamp.map((settings, i) => (i === index ? { ...settings, ...changes } : settings))
+      );
+    },
+    [checkpointRamp, setCheckpointRamp]
+  );
+
+  return (
+    <Box>
+      <FormControlLabel
+        control={
+          <Switch
+            checked={checkpointRamp !== null}
+            onChange={(_event, nextChecked) =>
+              setCheckpointRamp(nextChecked ? DEFAULT_CHECKPOINT_RAMP : null)
+            }
+          />
+        }
+        label="Different questions at each checkpoint"
+      />
+
+      {checkpointRamp?.map((settings, index) => (
+        <Box key={index} mt={1} data-testid={`checkpoint-settings-${index}`}>
+          <Typography variant="body2" fontWeight={700}>
+            Checkpoint {index + 1}
+          </Typography>
+          <ToggleButtonGroup
+            size="small"
+            value={settings.operations}
+            onChange={(_event, operations: Operation[]) => {
+              if (operations.length > 0) updateCheckpoint(index, { operations });
+            }}
+            aria-label={`Checkpoint ${index + 1} operations`}
+          >
+            {(Object.keys(operationSymbols) as Operation[]).map((operation) => (
+              <ToggleButton key={operation} value={operation} aria-label={operation}>
+                {operationSymbols[operation]}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            Max number: {settings.maxNumber}
+          </Typography>
+          <Slider
+            value={settings.maxNumber}
+            onChange={(_event, value) =>
+              updateCheckpoint(index, { maxNumber: Array.isArray(value) ? value[0] : value })
+            }
+            min={5}
+            max={30}
+            step={1}
+            valueLabelDisplay="auto"
+            aria-label={`Checkpoint ${index + 1} maximum number`}
+          />
+
+          <Typography variant="body2" color="text.secondary">
+            Fast answer boost: {settings.fastAnswerBoost}
+          </Typography>
+          <Slider
+            value={settings.fastAnswerBoost}
+            onChange={(_event, value) =>
+              updateCheckpoint(index, { fastAnswerBoost: Array.isArray(value) ? value[0] : value })
+            }
+            min={CHECKPOINT_RAMP_CONFIG.MIN_BOOST}
+            max={CHECKPOINT_RAMP_CONFIG.MAX_BOOST}
+            step={5}
+            valueLabelDisplay="auto"
+            aria-label={`Checkpoint ${index + 1} fast answer boost`}
+          />
+        </Box>
+      ))}
+    </Box>
+  );
+}
+
+export default CheckpointRampSettings;
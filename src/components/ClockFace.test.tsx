@@ -0,0 +1,42 @@
+import { render, screen } from '@testing-library/react';
+import { ThemeProvider } from '@mui/material/styles';
+import theme from '../theme';
+import ClockFace, { type ClockFaceProps } from './ClockFace';
+
+describe('ClockFace', () => {
+  const setupTest = (overrides?: Partial<ClockFaceProps>) => {
+    const props: ClockFaceProps = {
+      time: { hours: 3, minutes: 30 },
+      ...overrides,
+    };
+
+    render(
+      <ThemeProvider theme={theme}>
+        <ClockFace {...props} />
+      </ThemeProvider>
+    );
+
+    return { props };
+  };
+
+  it('draws all twelve numbers', () => {
+    setupTest();
+
+    for (let hour = 1; hour <= 12; hour++) {
+      expect(screen.getByText(hour.toString())).toBeInTheDocument();
+    }
+  });
+
+  it('points the hands at the time', () => {
+    setupTest();
+
+    expect(screen.getByTestId('clock-hour-hand')).toHaveAttribute('data-angle', '105');
+    expect(screen.getByTestId('clock-minute-hand')).toHaveAttribute('data-angle', '180');
+  });
+
+  it('describes the time for screen readers', () => {
+    setupTest({ time: { hours: 12, minutes: 0 } });
+
+    expect(screen.getByRole('img')).toHaveAttribute('aria-label', 'Clock showing 12:00');
+  });
+});
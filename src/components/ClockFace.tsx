@@ -0,0 +1,94 @@
+import Box from '@mui/material/Box';
+import {
+  formatClockTime,
+  getHandAngles,
+  toClockValue,
+  type ClockTime,
+} from '../game/systems/ClockProblems';
+
+export interface ClockFaceProps {
+  /** The time the hands point to */
+  time: ClockTime;
+  /** When true, draws a smaller clock for phone landscape */
+  compact?: boolean;
+}
+
+// Drawn in a 100 × 100 box centred on the middle of the clock
+const CENTER = 50;
+const HOUR_HAND_LENGTH = 24;
+const MINUTE_HAND_LENGTH = 36;
+
+/**
+ * Point at `length` from the centre, `angle` degrees clockwise from 12
+ */
+function pointAt(angle: number, length: number): { x: number; y: number } {
+  const radians = (angle * Math.PI) / 180;
+  return { x: CENTER + length * Math.sin(radians), y: CENTER - length * Math.cos(radians) };
+}
+
+/**
+ * ClockFace - An analog clock with numbers 1-12, a short hour hand and a long minute hand.
+ * The time itself is only in the screen-reader label, so the player has to read the hands.
+ */
+function ClockFace({ time, compact = false }: ClockFaceProps) {
+  const size = compact ? 64 : 160;
+  const angles = getHandAngles(time);
+  const hourEnd = pointAt(angles.hour, HOUR_HAND_LENGTH);
+  const minuteEnd = pointAt(angles.minute, MINUTE_HAND_LENGTH);
+
+  return (
+    <Box
+      component="svg"
+      data-testid="clock-face"
+      role="img"
+      aria-label={`Clock showing ${formatClockTime(toClockValue(time))}`}
+      viewBox="0 0 100 100"
+      sx={{ width: size, height: size, display: 'block' }}
+    >
+      <circle cx={CENTER} cy={CENTER} r={47} fill="#fff" stroke="#555" strokeWidth={3} />
+      {Array.from({ length: 12 }, (_, index) => {
+        const hour = index + 1;
+        const { x, y } = pointAt(hour * 30, 38);
+        return (
+          <text
+            key={hour}
+            x={x}
+            y={y}
+            textAnchor="middle"
+            dominantBaseline="central"
+            fontSize={10}
+            fontWeight={700}
+            fill="#333"
+          >
+            {hour}
+          </text>
+        );
+      })}
+      <line
+        data-testid="clock-hour-hand"
+        data-angle={angles.hour}
+        x1={CENTER}
+        y1={CENTER}
+        x2={hourEnd.x}
+        y2={hourEnd.y}
+        stroke="#1976d2"
+        strokeWidth={5}
+        strokeLinecap="round"
+      />
+      <line
+        data-testid="clock-minute-hand"
+        data-angle={angles.minute}
+        x1={CENTER}
+        y1={CENTER}
+        x2={minuteEnd.x}
+        y2={minuteEnd.y}
+        stroke="#e91e63"
+        strokeWidth={3}
+        strokeLinecap="round"
+      />
+      <circle cx={CENTER} cy={CENTER} r={3} fill="#333" />
+    </Box>
+  );
+}
+
+export default ClockFace;
@@ -0,0 +1,38 @@
+import { render, screen } from '@testing-library/react';
+import { ThemeProvider } from '@mui/material/styles';
+import theme from '../theme';
+import CoinsView, { type CoinsViewProps } from './CoinsView';
+
+describe('CoinsView', () => {
+  const setupTest = (overrides?: Partial<CoinsViewProps>) => {
+    const props: CoinsViewProps = {
+      coins: [
+        { name: 'quarter', value: 25 },
+        { name: 'penny', value: 1 },
+        { name: 'penny', value: 1 },
+      ],
+      ...overrides,
+    };
+
+    render(
+      <ThemeProvider theme={theme}>
+        <CoinsView {...props} />
+      </ThemeProvider>
+    );
+
+    return { props };
+  };
+
+  it('draws one coin per coin, labelled with its worth', () => {
+    setupTest();
+
+    expect(screen.getByTestId('coin-quarter')).toHaveTextContent('25¢');
+    expect(screen.getAllByTestId('coin-penny')).toHaveLength(2);
+  });
+
+  it('names the coins for screen readers', () => {
+    setupTest();
+
+    expect(screen.getByRole('img')).toHaveAttribute('aria-label', 'quarter, penny, penny');
+  });
+});
@@ -0,0 +1,69 @@
+import Box from '@mui/material/Box';
+import type { Coin, CoinName } from '../game/systems/CoinProblems';
+
+export interface CoinsViewProps {
+  /** The coins to draw, in order */
+  coins: Coin[];
+  /** When true, draws smaller coins for phone landscape */
+  compact?: boolean;
+}
+
+// Coins are drawn to scale with each other, in their metal colours
+const COIN_STYLES: Record<CoinName, { scale: number; color: string; edge: string }> = {
+  penny: { scale: 0.8, color: '#c77b3a', edge: '#8d4f1f' },
+  nickel: { scale: 0.9, color: '#c9c9c9', edge: '#8a8a8a' },
+  dime: { scale: 0.75, color: '#dcdcdc', edge: '#9a9a9a' },
+  quarter: { scale: 1, color: '#d6d6d6', edge: '#7d7d7d' },
+};
+
+/**
+ * CoinsView - Draws a row of coins, each labelled with its worth in cents.
+ */
+function CoinsView({ coins, compact = false }: CoinsViewProps) {
+  const size = compact ? 26 : 64;
+
+  return (
+    <Box
+      data-testid="coins-view"
+      role="img"
+      aria-label={coins.map((coin) => coin.name).join(', ')}
+      sx={{
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: compact ? 0.5 : 1.5,
+      }}
+    >
+      {coins.map((coin, index) => {
+        const { scale, color, edge } = COIN_STYLES[coin.name];
+        return (
+          <Box
+            key={index}
+            component="span"
+            data-testid={`coin-${coin.name}`}
+            aria-hidden="true"
+            sx={{
+              display: 'inline-flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              width: size * scale,
+              height: size * scale,
+              borderRadius: '50%',
+              backgroundColor: color,
+              border: `${compact ? 2 : 4}px solid ${edge}`,
+              boxShadow: 1,
+              fontSize: size * scale * 0.32,
+              fontWeight: 800,
+              color: '#333',
+            }}
+          >
+            {coin.value}¢
+          </Box>
+        );
+      })}
+    </Box>
+  );
+}
+
+export default CoinsView;
@@ -0,0 +1,80 @@
+import { render, screen } from '@testing-library/react';
+import { ThemeProvider } from '@mui/material/styles';
+import theme from '../theme';
+import CountingPictureView, { type CountingPictureViewProps } from './CountingPictureView';
+
+describe('CountingPictureView', () => {
+  const setupTest = (overrides?: Partial<CountingPictureViewProps>) => {
+    const props: CountingPictureViewProps = {
+      picture: {
+        item: { id: 'star', name: 'star', pluralName: 'stars', emoji: '⭐' },
+        groups: [
+          { count: 4, style: 'start' },
+          { count: 2, style: 'removed' },
+        ],
+        pictureChoices: false,
+      },
+      ...overrides,
+    };
+
+    render(
+      <ThemeProvider theme={theme}>
+        <CountingPictureView {...props} />
+      </ThemeProvider>
+    );
+
+    return { props };
+  };
+
+  it('draws one object per count in each group', () => {
+    setupTest();
+
+    expect(screen.getAllByTestId('counting-object-start')).toHaveLength(4);
+    expect(screen.getAllByTestId('counting-object-removed')).toHaveLength(2);
+  });
+
+  it('describes the picture for screen readers', () => {
+    setupTest();
+
+    expect(screen.getByRole('img')).toHaveAttribute('aria-label', '4 stars start, 2 stars removed');
+  });
+
+  it('draws family sprites as images', () => {
+    const { container } = render(
+      <ThemeProvider theme={theme}>
+        <CountingPictureView
+          picture={{
+            item: {
+              id: 'lalo',
+              name: 'Lalo',
+              pluralName: 'Lalos',
+              image: 'assets/lalo-sprite.png',
+            },
+            groups: [{ count: 3, style: 'start' }],
+            pictureChoices: false,
+          }}
+        />
+      </ThemeProvider>
+    );
+
+    const images = container.querySelectorAll('img');
+    expect(images).toHaveLength(3);
+    expect(images[0]).toHaveAttribute('src', 'assets/lalo-sprite.png');
+  });
+
+  it('skips empty groups', () => {
+    setupTest({
+      picture: {
+        item: { id: 'apple', name: 'apple', pluralName: 'apples', emoji: '🍎' },
+        groups: [
+          { count: 0, style: 'start' },
+          { count: 3, style: 'removed' },
+        ],
+        pictureChoices: false,
+      },
+    });
+
+    expect(screen.queryAllByTestId('counting-object-start')).toHaveLength(0);
+    expect(screen.getAllByTestId('counting-object-removed')).toHaveLength(3);
+  });
+});
@@ -0,0 +1,131 @@
+import Box from '@mui/material/Box';
+import type { CountingItem } from '../data/countingItems';
+import type { CountingGroupStyle, CountingPicture } from '../game/systems/MathGenerator';
+
+export interface CountingObjectsProps {
+  /** What to draw */
+  item: CountingItem;
+  /** How many to draw */
+  count: number;
+  /** How the objects are styled (appear, crossed out, or plain) */
+  groupStyle?: CountingGroupStyle;
+  /** Size of each object in px */
+  size: number;
+}
+
+/**
+ * CountingObjects - Draws a row of countable objects (emoji or family sprite).
+ * Added objects pop in; removed objects are faded and crossed out.
+ */
+export function CountingObjects({ item, count, groupStyle = 'start', size }: CountingObjectsProps) {
+  return (
+    <>
+      {Array.from({ length: count }, (_, index) => (
+        <Box
+          key={index}
+          component="span"
+          data-testid={`counting-object-${groupStyle}`}
+          aria-hidden="true"
+          sx={{
+            position: 'relative',
+            display: 'inline-flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            width: size,
+            height: size,
+            fontSize: size * 0.8,
+            lineHeight: 1,
+            opacity: groupStyle === 'removed' ? 0.45 : 1,
+            ...(groupStyle === 'added' && {
+              animation: `pop-in 0.3s ease-out ${index * 0.15}s both`,
+              '@keyframes pop-in': {
+                '0%': { transform: 'scale(0)' },
+                '80%': { transform: 'scale(1.2)' },
+                '100%': { transform: 'scale(1)' },
+              },
+            }),
+            ...(groupStyle === 'removed' && {
+              '&::after': {
+                content: '""',
+                position: 'absolute',
+                inset: '45% -5%',
+                backgroundColor: 'error.main',
+                borderRadius: 1,
+                transform: 'rotate(-35deg)',
+              },
+            }),
+          }}
+        >
+          {item.image ? (
+            <Box
+              component="img"
+              src={item.image}
+              alt=""
+              sx={{ width: '100%', height: '100%', objectFit: 'contain' }}
+            />
+          ) : (
+            item.emoji
+          )}
+        </Box>
+      ))}
+    </>
+  );
+}
+
+export interface CountingPictureViewProps {
+  /** The picture to draw */
+  picture: CountingPicture;
+  /** When true, draws smaller objects for phone landscape */
+  compact?: boolean;
+}
+
+/**
+ * CountingPictureView - Draws the groups of a picture problem.
+ * Each group gets its own row so added/removed objects stand apart.
+ */
+function CountingPictureView({ picture, compact = false }: CountingPictureViewProps) {
+  const size = compact ? 18 : 44;
+
+  return (
+    <Box
+      data-testid="counting-picture"
+      role="img"
+      aria-label={picture.groups
+        .map((group) => `${group.count} ${picture.item.pluralName} ${group.style}`)
+        .join(', ')}
+      sx={{
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: compact ? 0.5 : 2,
+      }}
+    >
+      {picture.groups
+        .filter((group) => group.count > 0)
+        .map((group, index) => (
+          <Box
+            key={index}
+            sx={{
+              display: 'flex',
+              flexWrap: 'wrap',
+              justifyContent: 'center',
+              gap: compact ? 0.25 : 0.75,
+              p: compact ? 0.25 : 1,
+              borderRadius: 2,
+              backgroundColor: group.style === 'added' ? 'rgba(76, 175, 80, 0.15)' : 'transparent',
+            }}
+          >
+            <CountingObjects
+              item={picture.item}
+              count={group.count}
+              groupStyle={group.style}
+              size={size}
+            />
+          </Box>
+        ))}
+    </Box>
+  );
+}
+
+export default CountingPictureView;
@@ -0,0 +1,57 @@
+import { render, screen } from '@testing-library/react';
+import { ThemeProvider } from '@mui/material/styles';
+import theme from '../theme';
+import MathHintView, { type MathHintViewProps } from './MathHintView';
+
+describe('MathHintView', () => {
+  const setupTest = (props: MathHintViewProps) =>
+    render(
+      <ThemeProvider theme={theme}>
+        <MathHintView {...props} />
+      </ThemeProvider>
+    );
+
+  it('shows the hint label by default', () => {
+    setupTest({ hint: { type: 'dots', groups: [{ count: 2, style: 'start' }] } });
+    expect(screen.getByTestId('math-hint')).toHaveTextContent('Hint');
+  });
+
+  it('can leave the label off', () => {
+    setupTest({
+      hint: { type: 'dots', groups: [{ count: 2, style: 'start' }] },
+      showLabel: false,
+    });
+    expect(screen.getByTestId('math-hint')).not.toHaveTextContent('Hint');
+  });
+
+  it('draws one hop per step on the number line', () => {
+    setupTest({ hint: { type: 'number-line', max: 10, start: 3, end: 7, showHops: true } });
+
+    expect(screen.getByTestId('number-line')).toBeInTheDocument();
+    expect(screen.getAllByTestId('number-line-hop')).toHaveLength(4);
+    expect(screen.getAllByTestId('number-line-mark')).toHaveLength(1);
+  });
+
+  it('marks both numbers when hops are hidden', () => {
+    setupTest({ hint: { type: 'number-line', max: 10, start: 3, end: 7, showHops: false } });
+
+    expect(screen.queryByTestId('number-line-hop')).not.toBeInTheDocument();
+    expect(screen.getAllByTestId('number-line-mark')).toHaveLength(2);
+  });
+
+  it('fills ten-frames with a counter per item', () => {
+    setupTest({
+      hint: {
+        type: 'ten-frame',
+        groups: [
+          { count: 8, style: 'start' },
+          { count: 5, style: 'added' },
+        ],
+      },
+    });
+
+    const counters = screen.getAllByTestId('ten-frame-counter');
+    expect(counters).toHaveLength(13);
+    expect(counters.filter((counter) => counter.dataset.style === 'added')).toHaveLength(5);
+  });
+});
@@ -0,0 +1,212 @@
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import type { CountingGroupStyle } from '../game/systems/MathGenerator';
+import { DOT_ITEM, type MathHint } from '../game/systems/MathHints';
+import CountingPictureView from './CountingPictureView';
+
+type NumberLineHint = Extract<MathHint, { type: 'number-line' }>;
+type TenFrameHint = Extract<MathHint, { type: 'ten-frame' }>;
+
+// Counter colours for each group style
+const COUNTER_COLORS: Record<CountingGroupStyle, string> = {
+  start: '#1976d2',
+  added: '#e91e63',
+  removed: '#9e9e9e',
+};
+
+export interface NumberLineProps {
+  hint: NumberLineHint;
+  /** When true, draws a shorter line for phone landscape */
+  compact?: boolean;
+}
+
+/**
+ * NumberLine - A 0..max line with the start and end marked.
+ * With showHops, one hop is drawn per step from start to end.
+ */
+export function NumberLine({ hint, compact = false }: NumberLineProps) {
+  const { max, start, end, showHops } = hint;
+  const step = compact ? 12 : 24;
+  const padding = step / 2;
+  const width = max * step + padding * 2;
+  const lineY = compact ? 20 : 36;
+  const height = lineY + (compact ? 12 : 20);
+  const x = (value: number) => padding + value * step;
+  const direction = end >= start ? 1 : -1;
+  const hops = showHops ? Math.abs(end - start) : 0;
+  const labelEvery = max > 10 ? (compact ? 5 : 2) : 1;
+
+  return (
+    <Box
+      component="svg"
+      data-testid="number-line"
+      role="img"
+      aria-label={`Number line from 0 to ${max}, starting at ${start}`}
+      viewBox={`0 0 ${width} ${height}`}
+      sx={{ width: '100%', maxWidth: width, display: 'block' }}
+    >
+      <line x1={x(0)} y1={lineY} x2={x(max)} y2={lineY} stroke="#555" strokeWidth={2} />
+      {Array.from({ length: max + 1 }, (_, value) => {
+        const marked = value === start || (!showHops && value === end);
+        return (
+          <g key={value}>
+            <line
+              x1={x(value)}
+              y1={lineY - 4}
+              x2={x(value)}
+              y2={lineY + 4}
+              stroke="#555"
+              strokeWidth={1}
+            />
+            {marked && (
+              <circle
+                data-testid="number-line-mark"
+                cx={x(value)}
+                cy={lineY}
+                r={compact ? 3 : 5}
+                fill="#e91e63"
+              />
+            )}
+            {(value % labelEvery === 0 || marked) && (
+              <text
+                x={x(value)}
+                y={lineY + (compact ? 11 : 18)}
+                textAnchor="middle"
+                fontSize={compact ? 7 : 11}
+                fill="#333"
+              >
+                {value}
+              </text>
+            )}
+          </g>
+        );
+      })}
+      {Array.from({ length: hops }, (_, index) => {
+        const from = x(start + index * direction);
+        const to = x(start + (index + 1) * direction);
+        const rise = compact ? 8 : 14;
+        return (
+          <path
+            key={index}
+            data-testid="number-line-hop"
+            d={`M ${from} ${lineY - 2} Q ${(from + to) / 2} ${lineY - 2 - rise} ${to} ${lineY - 2}`}
+            fill="none"
+            stroke="#1976d2"
+            strokeWidth={compact ? 1 : 2}
+          />
+        );
+      })}
+    </Box>
+  );
+}
+
+export interface TenFrameProps {
+  hint: TenFrameHint;
+  /** When true, draws smaller frames for phone landscape */
+  compact?: boolean;
+}
+
+/**
+ * TenFrame - Counters laid out in 2 × 5 frames, one frame per ten.
+ * Taken-away counters are greyed out and crossed through.
+ */
+export function TenFrame({ hint, compact = false }: TenFrameProps) {
+  const counters = hint.groups.flatMap((group) =>
+    Array.from({ length: group.count }, () => group.style)
+  );
+  const frames = Math.max(1, Math.ceil(counters.length / 10));
+  const cell = compact ? 12 : 24;
+  const gap = cell / 2;
+  const frameWidth = cell * 5;
+  const width = frames * frameWidth + (frames - 1) * gap;
+  const height = cell * 2;
+  const radius = cell * 0.38;
+
+  return (
+    <Box
+      component="svg"
+      data-testid="ten-frame"
+      role="img"
+      aria-label={`Ten-frame with ${counters.length} counters`}
+      viewBox={`-1 -1 ${width + 2} ${height + 2}`}
+      sx={{ width: '100%', maxWidth: width + 2, display: 'block' }}
+    >
+      {Array.from({ length: frames * 10 }, (_, index) => {
+        const frame = Math.floor(index / 10);
+        const x = frame * (frameWidth + gap) + (index % 5) * cell;
+        const y = Math.floor((index % 10) / 5) * cell;
+        const style = counters[index];
+        const cx = x + cell / 2;
+        const cy = y + cell / 2;
+        return (
+          <g key={index}>
+            <rect x={x} y={y} width={cell} height={cell} fill="#fff" stroke="#555" />
+            {style && (
+              <circle
+                data-testid="ten-frame-counter"
+                data-style={style}
+                cx={cx}
+                cy={cy}
+                r={radius}
+                fill={COUNTER_COLORS[style]}
+                opacity={style === 'removed' ? 0.5 : 1}
+              />
+            )}
+            {style === 'removed' && (
+              <line
+                x1={cx - radius}
+                y1={cy - radius}
+                x2={cx + radius}
+                y2={cy + radius}
+                stroke="#d32f2f"
+                strokeWidth={compact ? 1.5 : 3}
+              />
+            )}
+          </g>
+        );
+      })}
+    </Box>
+  );
+}
+
+export interface MathHintViewProps {
+  hint: MathHint;
+  /** When true, draws a smaller hint for phone landscape */
+  compact?: boolean;
+  /** Shows the "Hint" label (visual aids that are always on leave it off) */
+  showLabel?: boolean;
+}
+
+/**
+ * MathHintView - Draws a hint (dots, ten-frames or number line) under a "Hint" label
+ */
+function MathHintView({ hint, compact = false, showLabel = true }: MathHintViewProps) {
+  return (
+    <Box data-testid="math-hint" sx={{ width: '100%', display: 'flex', flexDirection: 'column' }}>
+      {showLabel && (
+        <Typography
+          sx={{
+            fontWeight: 700,
+            fontSize: compact ? '0.6rem' : '1rem',
+            color: 'text.secondary',
+            textAlign: 'center',
+          }}
+        >
+          💡 Hint
+        </Typography>
+      )}
+      <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+        {hint.type === 'dots' && (
+          <CountingPictureView
+            picture={{ item: DOT_ITEM, groups: hint.groups, pictureChoices: false }}
+            compact={compact}
+          />
+        )}
+        {hint.type === 'ten-frame' && <TenFrame hint={hint} compact={compact} />}
+        {hint.type === 'number-line' && <NumberLine hint={hint} compact={compact} />}
+      </Box>
+    </Box>
+  );
+}
+
+export default MathHintView;
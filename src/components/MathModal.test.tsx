@@ -3,14 +3,24 @@ import { render, screen, fireEvent, act } from '@testing-library/react';
 import { ThemeProvider } from '@mui/material/styles';
 import theme from '../theme';
 import MathModal, { type MathModalProps } from './MathModal';
-import { type MathProblem } from '../game/systems/MathGenerator';
+import { buildEquation, type MathChoice, type MathProblem } from '../game/systems/MathGenerator';
+import { AudioManager } from '../game/systems/AudioManager';
+import { SpeechManager, type SpeechEngine } from '../game/systems/SpeechManager';
+import { VoiceInput } from '../game/systems/VoiceInput';
+
+const toChoices = (values: number[]): MathChoice[] =>
+  values.map((value) => ({ value, misconception: null }));
 
 describe('MathModal', () => {
   const setupTest = (overrides?: Partial<MathModalProps>) => {
     const defaultProblem: MathProblem = {
+      kind: 'symbolic',
+      id: 'problem-1',
       question: '5 + 3 = ?',
       answer: 8,
-      choices: [8, 6, 9, 7],
+      choices: toChoices([8, 6, 9, 7]),
+      operation: 'add',
+      equation: buildEquation('add', [5, 3]),
     };
 
     const onAnswer = jest.fn();
@@ -57,8 +67,8 @@ describe('MathModal', () => {
 
     it('displays all answer choices on buttons', () => {
       const { problem } = setupTest();
-      problem.choices.forEach((choice: number) => {
-        expect(screen.getByText(choice.toString())).toBeInTheDocument();
+      problem.choices.forEach((choice) => {
+        expect(screen.getByText(choice.value.toString())).toBeInTheDocument();
       });
     });
 
@@ -69,6 +79,467 @@ describe('MathModal', () => {
     });
   });
 
+  describe('missing-operand problems', () => {
+    it('renders the blank in place of the missing operand', () => {
+      setupTest({
+        problem: {
+          kind: 'symbolic',
+          id: 'problem-2',
+          question: '3 + ? = 7',
+          answer: 4,
+          choices: toChoices([4, 2, 5, 6]),
+          operation: 'add',
+          equation: buildEquation('add', [3, 4], 1),
+        },
+      });
+
+      expect(screen.getByTestId('math-question')).toHaveTextContent('3 + ? = 7');
+      expect(screen.getByTestId('math-blank')).toHaveTextContent('?');
+    });
+
+    it('renders the blank before the square symbol', () => {
+      setupTest({
+        problem: {
+          kind: 'symbolic',
+          id: 'problem-3',
+          question: '?² = 9',
+          answer: 3,
+          choices: toChoices([3, 2, 4, 5]),
+          operation: 'square',
+          equation: buildEquation('square', [3], 0),
+        },
+      });
+
+      expect(screen.getByTestId('math-question')).toHaveTextContent('?² = 9');
+    });
+  });
+
+  describe('other problem families', () => {
+    it('shows a sequence with the blank in place', () => {
+      setupTest({
+        problem: {
+          kind: 'sequence',
+          id: 'problem-sequence',
+          question: '5, 10, 15, ?',
+          answer: 20,
+          choices: toChoices([20, 16, 25, 19]),
+          operation: 'skip-count',
+          sequence: { terms: [5, 10, 15, 20], unknown: 3, step: 5 },
+        },
+      });
+
+      expect(screen.getByTestId('math-question')).toHaveTextContent('5, 10, 15, ?');
+      expect(screen.getByTestId('math-blank')).toHaveTextContent('?');
+    });
+
+    it('asks a comparison in words with the two numbers as choices', () => {
+      setupTest({
+        problem: {
+          kind: 'comparison',
+          id: 'problem-compare',
+          question: 'Which is bigger: 7 or 4?',
+          answer: 7,
+          choices: toChoices([7, 4]),
+          operation: 'compare',
+          numbers: [7, 4],
+        },
+      });
+
+      expect(screen.getByTestId('math-question')).toHaveTextContent('Which is bigger: 7 or 4?');
+      expect(screen.getAllByRole('button')).toHaveLength(2);
+    });
+
+    it('draws a clock and labels the choices as times', () => {
+      setupTest({
+        problem: {
+          kind: 'clock',
+          id: 'problem-clock',
+          question: 'What time is it?',
+          answer: 330,
+          choices: toChoices([330, 430, 300, 1000]),
+          operation: 'time',
+          time: { hours: 3, minutes: 30 },
+        },
+      });
+
+      expect(screen.getByTestId('clock-face')).toBeInTheDocument();
+      expect(screen.getByTestId('answer-button-0')).toHaveTextContent('3:30');
+      expect(screen.getByTestId('answer-button-3')).toHaveTextContent('10:00');
+    });
+
+    it('draws coins and says the answer in cents after a wrong typed answer', () => {
+      setupTest({
+        answerMode: 'number-pad',
+        problem: {
+          kind: 'coins',
+          id: 'problem-coins',
+          question: 'How much money?',
+          answer: 11,
+          choices: toChoices([11, 2, 12, 10]),
+          operation: 'money',
+          coins: [
+            { name: 'dime', value: 10 },
+            { name: 'penny', value: 1 },
+          ],
+        },
+      });
+
+      expect(screen.getByTestId('coins-view')).toBeInTheDocument();
+      fireEvent.click(screen.getByTestId('number-pad-2'));
+      fireEvent.click(screen.getByTestId('number-pad-submit'));
+
+      expect(screen.getByTestId('feedback-text')).toHaveTextContent('It was 11¢');
+    });
+  });
+
+  describe('problem packs', () => {
+    const packProblem = (image?: string): MathProblem => ({
+      kind: 'pack',
+      id: 'problem-pack',
+      question: 'How many legs does Lalo have?',
+      answer: 4,
+      choices: toChoices([2, 4, 6, 8]),
+      operation: null,
+      packName: 'Family questions',
+      image,
+    });
+
+    it("shows the pack's question and its picture", () => {
+      setupTest({ problem: packProblem('assets/lalo-sprite.png') });
+
+      expect(screen.getByTestId('math-question')).toHaveTextContent(
+        'How many legs does Lalo have?'
+      );
+      expect(screen.getByTestId('pack-image')).toHaveAttribute('src', 'assets/lalo-sprite.png');
+    });
+
+    it('leaves the picture out when the question has none', () => {
+      setupTest({ problem: packProblem() });
+
+      expect(screen.queryByTestId('pack-image')).not.toBeInTheDocument();
+      expect(screen.getAllByRole('button')).toHaveLength(4);
+    });
+  });
+
+  describe('choice counts', () => {
+    it.each([2, 3, 6])('renders %i answer buttons', (count) => {
+      const values = [8, 6, 9, 7, 10, 5].slice(0, count);
+      setupTest({
+        problem: {
+          kind: 'symbolic',
+          id: 'problem-count',
+          question: '5 + 3 = ?',
+          answer: 8,
+          choices: toChoices(values),
+          operation: 'add',
+          equation: buildEquation('add', [5, 3]),
+        },
+      });
+
+      expect(screen.getAllByRole('button')).toHaveLength(count);
+    });
+  });
+
+  describe('number pad', () => {
+    const typeAnswer = (...keys: string[]) =>
+      keys.forEach((key) => fireEvent.click(screen.getByTestId(`number-pad-${key}`)));
+
+    it('shows a number pad instead of choice buttons', () => {
+      setupTest({ answerMode: 'number-pad' });
+
+      expect(screen.queryByTestId('answer-button-0')).not.toBeInTheDocument();
+      expect(screen.getByTestId('number-pad-display')).toBeInTheDocument();
+    });
+
+    it('submits the typed value', () => {
+      const { onAnswer } = setupTest({ answerMode: 'number-pad' });
+
+      typeAnswer('8', 'submit');
+      act(() => {
+        jest.advanceTimersByTime(500);
+      });
+
+      expect(onAnswer).toHaveBeenCalledWith(
+        true,
+        expect.any(Number),
+        {
+          value: 8,
+          misconception: null,
+        },
+        1
+      );
+    });
+
+    it('reports a typed distractor with its misconception', () => {
+      const { onAnswer } = setupTest({
+        answerMode: 'number-pad',
+        problem: {
+          kind: 'symbolic',
+          id: 'problem-pad',
+          question: '5 - 3 = ?',
+          answer: 2,
+          choices: [
+            { value: 2, misconception: null },
+            { value: 8, misconception: 'wrong-operation' },
+          ],
+          operation: 'subtract',
+          equation: buildEquation('subtract', [5, 3]),
+        },
+      });
+
+      typeAnswer('8', 'submit');
+      act(() => {
+        jest.advanceTimersByTime(2000);
+      });
+
+      expect(onAnswer).toHaveBeenCalledWith(
+        false,
+        expect.any(Number),
+        {
+          value: 8,
+          misconception: 'wrong-operation',
+        },
+        1
+      );
+    });
+
+    it('tells the player the right answer after a wrong typed answer', () => {
+      setupTest({ answerMode: 'number-pad' });
+
+      typeAnswer('1', '2', 'submit');
+
+      expect(screen.getByTestId('feedback-text')).toHaveTextContent('It was 8');
+    });
+  });
+
+  describe('retry until correct', () => {
+    it('greys out a wrong choice and lets her try again', () => {
+      const { onAnswer } = setupTest({ retryUntilCorrect: true });
+
+      fireEvent.click(screen.getByText('6'));
+
+      expect(screen.getByText('6')).toBeDisabled();
+      expect(screen.getByText('8')).not.toBeDisabled();
+      expect(screen.getByTestId('feedback-text')).toHaveTextContent('Try again!');
+
+      act(() => {
+        jest.advanceTimersByTime(2000);
+      });
+      expect(onAnswer).not.toHaveBeenCalled();
+    });
+
+    it('reports how many tries the correct answer took', () => {
+      const { onAnswer } = setupTest({ retryUntilCorrect: true });
+
+      fireEvent.click(screen.getByText('6'));
+      fireEvent.click(screen.getByText('9'));
+      fireEvent.click(screen.getByText('8'));
+
+      act(() => {
+        jest.advanceTimersByTime(500);
+      });
+
+      expect(onAnswer).toHaveBeenCalledTimes(1);
+      expect(onAnswer).toHaveBeenCalledWith(
+        true,
+        expect.any(Number),
+        expect.objectContaining({ value: 8 }),
+        3
+      );
+    });
+
+    it('shows a hint after the configured number of misses', () => {
+      setupTest({ retryUntilCorrect: true, hintAfterMisses: 2 });
+
+      fireEvent.click(screen.getByText('6'));
+      expect(screen.queryByTestId('math-hint')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('9'));
+      expect(screen.getByTestId('math-hint')).toBeInTheDocument();
+    });
+
+    it('clears the number pad after a miss', () => {
+      setupTest({ retryUntilCorrect: true, answerMode: 'number-pad' });
+
+      fireEvent.click(screen.getByTestId('number-pad-6'));
+      fireEvent.click(screen.getByTestId('number-pad-submit'));
+
+      expect(screen.getByTestId('number-pad-display')).toHaveTextContent('');
+      expect(screen.getByTestId('number-pad-8')).not.toBeDisabled();
+    });
+
+    it('clears the number pad when an answer already tried is typed again', () => {
+      const { onAnswer } = setupTest({ retryUntilCorrect: true, answerMode: 'number-pad' });
+
+      fireEvent.click(screen.getByTestId('number-pad-6'));
+      fireEvent.click(screen.getByTestId('number-pad-submit'));
+      fireEvent.click(screen.getByTestId('number-pad-6'));
+      fireEvent.click(screen.getByTestId('number-pad-submit'));
+
+      expect(screen.getByTestId('number-pad-display')).toHaveTextContent(/^$/);
+      expect(screen.getByTestId('feedback-text')).toHaveTextContent('Try again!');
+      expect(onAnswer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('read aloud', () => {
+    const installFakeSpeech = () => {
+      const engine = {
+        speak: jest.fn<SpeechEngine['speak']>(),
+        cancel: jest.fn<SpeechEngine['cancel']>(),
+      };
+      SpeechManager.getInstance().setEngine(engine);
+      return engine;
+    };
+
+    beforeEach(() => {
+      localStorage.clear();
+      AudioManager.resetInstance();
+      SpeechManager.resetInstance();
+    });
+
+    afterEach(() => {
+      SpeechManager.resetInstance();
+    });
+
+    it('reads the question and choices when it opens', () => {
+      const engine = installFakeSpeech();
+      setupTest();
+
+      expect(engine.speak).toHaveBeenCalledWith(
+        'five plus three equals what? Is it eight, six, nine, or seven?',
+        expect.any(Number)
+      );
+    });
+
+    it('reads the question again from the speaker button', () => {
+      const engine = installFakeSpeech();
+      setupTest();
+
+      fireEvent.click(screen.getByTestId('read-aloud-button'));
+
+      expect(engine.speak).toHaveBeenCalledTimes(2);
+    });
+
+    it('hides the speaker button when speech is unavailable', () => {
+      setupTest();
+      expect(screen.queryByTestId('read-aloud-button')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('visual aids', () => {
+    it('draws ten-frames for the problem straight away', () => {
+      setupTest({ visualAid: 'ten-frame' });
+
+      expect(screen.getByTestId('ten-frame')).toBeInTheDocument();
+      expect(screen.getAllByTestId('ten-frame-counter')).toHaveLength(8);
+    });
+
+    it('waits for a wrong answer when set to', () => {
+      setupTest({ visualAid: 'number-line', visualAidTiming: 'after-wrong' });
+      expect(screen.queryByTestId('number-line')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('6'));
+
+      expect(screen.getByTestId('number-line')).toBeInTheDocument();
+    });
+
+    it('shows nothing when turned off', () => {
+      setupTest();
+      expect(screen.queryByTestId('math-hint')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('voice answers', () => {
+    afterEach(() => {
+      VoiceInput.resetInstance();
+    });
+
+    it('answers with the spoken choice', () => {
+      VoiceInput.getInstance().setRecognizer({
+        listen: (onHeard, onEnd) => {
+          onHeard(['eight']);
+          onEnd();
+        },
+        stop: jest.fn(),
+      });
+      const { onAnswer } = setupTest({ answerMode: 'voice' });
+
+      fireEvent.click(screen.getByTestId('voice-answer-button'));
+      act(() => {
+        jest.advanceTimersByTime(500);
+      });
+
+      expect(onAnswer).toHaveBeenCalledWith(
+        true,
+        expect.any(Number),
+        expect.objectContaining({ value: 8 }),
+        1
+      );
+    });
+
+    it('falls back to tapping when voice input is unavailable', () => {
+      VoiceInput.resetInstance();
+      setupTest({ answerMode: 'voice' });
+
+      expect(screen.queryByTestId('voice-answer-button')).not.toBeInTheDocument();
+      expect(screen.getAllByRole('button')).toHaveLength(4);
+    });
+  });
+
+  describe('picture problems', () => {
+    const pictureProblem = (pictureChoices: boolean): MathProblem => ({
+      kind: 'picture',
+      id: 'problem-4',
+      question: 'How many apples now?',
+      answer: 5,
+      choices: toChoices([5, 3, 6, 4]),
+      operation: 'add',
+      equation: buildEquation('add', [2, 3]),
+      picture: {
+        item: { id: 'apple', name: 'apple', pluralName: 'apples', emoji: '🍎' },
+        groups: [
+          { count: 2, style: 'start' },
+          { count: 3, style: 'added' },
+        ],
+        pictureChoices,
+      },
+    });
+
+    it('draws the objects to count with the question in words', () => {
+      setupTest({ problem: pictureProblem(false) });
+
+      expect(screen.getByTestId('counting-picture')).toBeInTheDocument();
+      expect(screen.getAllByTestId('counting-object-start')).toHaveLength(2);
+      expect(screen.getAllByTestId('counting-object-added')).toHaveLength(3);
+      expect(screen.getByTestId('math-question')).toHaveTextContent('How many apples now?');
+    });
+
+    it('shows numeric choices by default', () => {
+      setupTest({ problem: pictureProblem(false) });
+      expect(screen.getByTestId('answer-button-0')).toHaveTextContent('5');
+    });
+
+    it('draws choices as objects when picture answers are on', () => {
+      const { onAnswer } = setupTest({ problem: pictureProblem(true) });
+      const correctButton = screen.getByTestId('answer-button-0');
+
+      expect(correctButton).not.toHaveTextContent('5');
+      expect(correctButton.querySelectorAll('[aria-hidden="true"]')).toHaveLength(5);
+
+      fireEvent.click(correctButton);
+      act(() => {
+        jest.advanceTimersByTime(500);
+      });
+      expect(onAnswer).toHaveBeenCalledWith(
+        true,
+        expect.any(Number),
+        expect.objectContaining({ value: 5 }),
+        1
+      );
+    });
+  });
+
   describe('answer submission', () => {
     it('calls onAnswer with correct=true when correct answer clicked', () => {
       const { onAnswer } = setupTest();
@@ -80,7 +551,12 @@ describe('MathModal', () => {
         jest.advanceTimersByTime(500);
       });
 
-      expect(onAnswer).toHaveBeenCalledWith(true, expect.any(Number));
+      expect(onAnswer).toHaveBeenCalledWith(
+        true,
+        expect.any(Number),
+        expect.objectContaining({ value: 8 }),
+        1
+      );
     });
 
     it('calls onAnswer with correct=false when wrong answer clicked', () => {
@@ -93,7 +569,46 @@ describe('MathModal', () => {
         jest.advanceTimersByTime(2000);
       });
 
-      expect(onAnswer).toHaveBeenCalledWith(false, expect.any(Number));
+      expect(onAnswer).toHaveBeenCalledWith(
+        false,
+        expect.any(Number),
+        expect.objectContaining({ value: 6 }),
+        1
+      );
+    });
+
+    it('passes along the misconception of the chosen wrong answer', () => {
+      const { onAnswer } = setupTest({
+        problem: {
+          kind: 'symbolic',
+          id: 'problem-5',
+          question: '5 - 3 = ?',
+          answer: 2,
+          choices: [
+            { value: 2, misconception: null },
+            { value: 8, misconception: 'wrong-operation' },
+            { value: 3, misconception: 'off-by-one' },
+            { value: 4, misconception: null },
+          ],
+          operation: 'subtract',
+          equation: buildEquation('subtract', [5, 3]),
+        },
+      });
+
+      fireEvent.click(screen.getByText('8'));
+      act(() => {
+        jest.advanceTimersByTime(2000);
+      });
+
+      expect(onAnswer).toHaveBeenCalledWith(
+        false,
+        expect.any(Number),
+        {
+          value: 8,
+          misconception: 'wrong-operation',
+        },
+        1
+      );
     });
 
     it('disables buttons after an answer is selected', () => {
@@ -238,7 +753,12 @@ describe('MathModal', () => {
       });
 
       // Should include approximately 1000ms of elapsed time
-      expect(onAnswer).toHaveBeenCalledWith(true, expect.any(Number));
+      expect(onAnswer).toHaveBeenCalledWith(
+        true,
+        expect.any(Number),
+        expect.objectContaining({ value: 8 }),
+        1
+      );
       const timeTaken = onAnswer.mock.calls[0][1];
       expect(timeTaken).toBeGreaterThanOrEqual(1000);
     });
@@ -259,9 +779,13 @@ describe('MathModal', () => {
 
       // Change problem
       const newProblem: MathProblem = {
+        kind: 'symbolic',
+        id: 'problem-6',
         question: '2 + 2 = ?',
         answer: 4,
-        choices: [4, 3, 5, 6],
+        choices: toChoices([4, 3, 5, 6]),
+        operation: 'add',
+        equation: buildEquation('add', [2, 2]),
       };
 
       rerender(
@@ -283,5 +807,20 @@ describe('MathModal', () => {
       const feedbackText = screen.getByTestId('feedback-text');
       expect(feedbackText).toHaveStyle({ visibility: 'hidden' });
     });
+
+    it('resets state when the same question comes up again', () => {
+      const { rerender, problem } = setupTest();
+
+      fireEvent.click(screen.getByText('8'));
+      expect(screen.getByTestId('answer-button-0')).toBeDisabled();
+
+      rerender(
+        <ThemeProvider theme={theme}>
+          <MathModal problem={{ ...problem, id: 'problem-repeat' }} onAnswer={jest.fn()} />
+        </ThemeProvider>
+      );
+
+      expect(screen.getByTestId('answer-button-0')).not.toBeDisabled();
+    });
   });
 });
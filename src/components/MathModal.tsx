@@ -1,10 +1,31 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import Box from '@mui/material/Box';
 import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
 import Typography from '@mui/material/Typography';
 import Grid from '@mui/material/Grid';
 import LinearProgress from '@mui/material/LinearProgress';
-import { type MathProblem } from '../game/systems/MathGenerator';
+import VolumeUpIcon from '@mui/icons-material/VolumeUp';
+import {
+  formatAnswer,
+  getQuestionTokens,
+  getSequenceTokens,
+  hasEquation,
+  type AnswerMode,
+  type MathChoice,
+  type MathProblem,
+  type VisualAid,
+  type VisualAidTiming,
+} from '../game/systems/MathGenerator';
+import { getHint, getVisualAid } from '../game/systems/MathHints';
+import { SpeechManager } from '../game/systems/SpeechManager';
+import { getSpokenProblem } from '../game/systems/SpokenProblem';
+import ClockFace from './ClockFace';
+import CoinsView from './CoinsView';
+import CountingPictureView, { CountingObjects } from './CountingPictureView';
+import MathHintView from './MathHintView';
+import NumberPad from './NumberPad';
+import VoiceAnswerButton from './VoiceAnswerButton';
 
 // Time thresholds (in ms) for response feedback
 const FAST_ANSWER_THRESHOLD = 3000;
@@ -13,23 +34,95 @@ const WRONG_ANSWER_DELAY = 2000;
 export interface MathModalProps {
   /** The math problem to display */
   problem: MathProblem;
-  /** Callback when an answer is submitted */
-  onAnswer: (correct: boolean, timeTaken: number) => void;
+  /**
+   * Callback when an answer is submitted, with the choice that was picked and
+   * how many tries it took (always 1 unless retryUntilCorrect is on)
+   */
+  onAnswer: (correct: boolean, timeTaken: number, choice: MathChoice, attempts: number) => void;
   /** When true, renders a much smaller modal for phone landscape */
   compact?: boolean;
+  /** Tap a choice button, or type the answer on a number pad */
+  answerMode?: AnswerMode;
+  /** When true, wrong choices are greyed out and the player tries again */
+  retryUntilCorrect?: boolean;
+  /** Misses before a hint is shown (retry mode only) */
+  hintAfterMisses?: number;
+  /** Ten-frames or a number line drawn under add/subtract questions up to 20 */
+  visualAid?: VisualAid;
+  /** Show the visual aid straight away, or only after a wrong answer */
+  visualAidTiming?: VisualAidTiming;
 }
 
-type FeedbackState = 'none' | 'correct-fast' | 'correct-slow' | 'wrong';
+type FeedbackState = 'none' | 'correct-fast' | 'correct-slow' | 'wrong' | 'try-again';
 
 interface MathModalState {
   problemId: string;
   feedback: FeedbackState;
+  /** Wrong values already tried (retry mode) */
+  eliminated: number[];
+  /** Times an already-tried value was typed again, so the pad clears each time */
+  repeats: number;
   selectedAnswer: number | null;
 }
 
-// Create a stable ID for the problem
-function getProblemId(problem: MathProblem): string {
-  return `${problem.question}-${problem.answer}`;
+/**
+ * QuestionText - Renders the question tokens with the unknown shown as a blank box
+ */
+function QuestionText({ problem }: { problem: MathProblem }) {
+  // Only equations and sequences are written in symbols; anything to look at is drawn separately
+  if (problem.kind !== 'symbolic' && problem.kind !== 'sequence') {
+    return <>{problem.question}</>;
+  }
+
+  const tokens =
+    problem.kind === 'sequence' ? getSequenceTokens(problem.sequence) : getQuestionTokens(problem);
+  return (
+    <>
+      {tokens.map((token, index) => (
+        <Box component="span" key={index}>
+          {index > 0 && ' '}
+          {token.prefix}
+          {token.unknown ? (
+            <Box
+              component="span"
+              data-testid="math-blank"
+              sx={{
+                display: 'inline-block',
+                minWidth: '1.4em',
+                px: 0.5,
+                border: '3px dashed',
+                borderColor: 'primary.main',
+                borderRadius: 1,
+                color: 'primary.main',
+                lineHeight: 1.1,
+                textAlign: 'center',
+              }}
+            >
+              {token.text}
+            </Box>
+          ) : (
+            token.text
+          )}
+          {token.suffix}
+        </Box>
+      ))}
+    </>
+  );
+}
+
+/**
+ * PackImage - The picture that goes with a problem-pack question
+ */
+function PackImage({ src, compact }: { src: string; compact: boolean }) {
+  return (
+    <Box
+      component="img"
+      src={src}
+      alt=""
+      data-testid="pack-image"
+      sx={{ maxWidth: '100%', maxHeight: compact ? 56 : 160, objectFit: 'contain' }}
+    />
+  );
 }
 
 /**
@@ -37,11 +130,22 @@ function getProblemId(problem: MathProblem): string {
  * Shows visual feedback for correct/wrong answers.
  * Timer stays visible above this modal.
  */
-function MathModal({ problem, onAnswer, compact = false }: MathModalProps) {
-  const problemId = getProblemId(problem);
+function MathModal({
+  problem,
+  onAnswer,
+  compact = false,
+  answerMode = 'choices',
+  retryUntilCorrect = false,
+  hintAfterMisses = 2,
+  visualAid = 'off',
+  visualAidTiming = 'always',
+}: MathModalProps) {
+  const problemId = problem.id;
   const [state, setState] = useState<MathModalState>(() => ({
     problemId,
     feedback: 'none',
+    eliminated: [],
+    repeats: 0,
     selectedAnswer: null,
   }));
   const startTimeRef = useRef<number>(0);
@@ -52,6 +156,8 @@ function MathModal({ problem, onAnswer, compact = false }: MathModalProps) {
     setState({
       problemId,
       feedback: 'none',
+      eliminated: [],
+      repeats: 0,
       selectedAnswer: null,
     });
   }
@@ -61,35 +167,86 @@ function MathModal({ problem, onAnswer, compact = false }: MathModalProps) {
     startTimeRef.current = performance.now();
   }, [problemId]);
 
-  const { feedback, selectedAnswer } = state;
+  // Read the question (and choices) aloud whenever a new problem opens
+  const spokenText = getSpokenProblem(problem, answerMode);
+  useEffect(() => {
+    const speech = SpeechManager.getInstance();
+    speech.speak(spokenText);
+    return () => speech.cancel();
+  }, [problemId, spokenText]);
+
+  const canSpeak = SpeechManager.getInstance().isAvailable();
+  const readAloudButton = canSpeak && (
+    <IconButton
+      onClick={() => SpeechManager.getInstance().speak(spokenText)}
+      aria-label="Read the question again"
+      data-testid="read-aloud-button"
+      size={compact ? 'small' : 'large'}
+      sx={{ p: compact ? 0.25 : undefined }}
+    >
+      <VolumeUpIcon fontSize={compact ? 'small' : 'large'} />
+    </IconButton>
+  );
+
+  const { feedback, eliminated, repeats, selectedAnswer } = state;
+  // 'try-again' keeps the answers open; every other feedback is final
+  const isLocked = feedback !== 'none' && feedback !== 'try-again';
+  const misses = eliminated.length;
+  const showVisualAid = visualAidTiming === 'always' || feedback === 'wrong' || misses > 0;
+  const aid = showVisualAid && hasEquation(problem) ? getVisualAid(problem, visualAid) : null;
+  // The visual aid already draws the problem, so it takes the place of a hint
+  const hint =
+    !aid && hasEquation(problem) && retryUntilCorrect && misses >= hintAfterMisses
+      ? getHint(problem)
+      : null;
 
   const handleAnswerClick = useCallback(
-    (choice: number) => {
-      if (feedback !== 'none') return; // Already answered
+    (choice: MathChoice) => {
+      if (isLocked || eliminated.includes(choice.value)) return; // Already answered
 
       const timeTaken = performance.now() - startTimeRef.current;
-      const isCorrect = choice === problem.answer;
+      const isCorrect = choice.value === problem.answer;
+      const attempts = eliminated.length + 1;
 
       if (isCorrect) {
         const feedbackType = timeTaken < FAST_ANSWER_THRESHOLD ? 'correct-fast' : 'correct-slow';
-        setState((prev) => ({ ...prev, feedback: feedbackType, selectedAnswer: choice }));
+        setState((prev) => ({ ...prev, feedback: feedbackType, selectedAnswer: choice.value }));
 
         // Brief delay before closing
         setTimeout(() => {
-          onAnswer(true, timeTaken);
+          onAnswer(true, timeTaken, choice, attempts);
         }, 500);
+      } else if (retryUntilCorrect) {
+        // Grey out this choice and let her pick again
+        setState((prev) => ({
+          ...prev,
+          feedback: 'try-again',
+          eliminated: [...prev.eliminated, choice.value],
+        }));
       } else {
-        setState((prev) => ({ ...prev, feedback: 'wrong', selectedAnswer: choice }));
+        setState((prev) => ({ ...prev, feedback: 'wrong', selectedAnswer: choice.value }));
 
         // Longer delay for wrong answers (stumble effect)
         setTimeout(() => {
-          onAnswer(false, timeTaken);
+          onAnswer(false, timeTaken, choice, attempts);
         }, WRONG_ANSWER_DELAY);
       }
     },
-    [feedback, problem.answer, onAnswer]
+    [isLocked, eliminated, problem.answer, retryUntilCorrect, onAnswer]
   );
 
+  // Typed answers that match a distractor keep its misconception
+  const handleTypedAnswer = (value: number) => {
+    if (eliminated.includes(value)) {
+      // Already tried: say so again and clear the pad for another go
+      setState((prev) => ({ ...prev, feedback: 'try-again', repeats: prev.repeats + 1 }));
+      return;
+    }
+    handleAnswerClick(
+      problem.choices.find((choice) => choice.value === value) ?? { value, misconception: null }
+    );
+  };
+
   const getFeedbackText = (): { text: string; emoji: string } => {
     switch (feedback) {
       case 'correct-fast':
@@ -97,7 +254,12 @@ function MathModal({ problem, onAnswer, compact = false }: MathModalProps) {
       case 'correct-slow':
         return { text: 'Good job!', emoji: '✓' };
       case 'wrong':
-        return { text: 'Oops! Try to beat it next time!', emoji: '😅' };
+        // Typed answers have no green button showing the right one, so say it
+        return answerMode === 'number-pad'
+          ? { text: `Oops! It was ${formatAnswer(problem, problem.answer)}.`, emoji: '😅' }
+          : { text: 'Oops! Try to beat it next time!', emoji: '😅' };
+      case 'try-again':
+        return { text: 'Not quite. Try again!', emoji: '🤔' };
       default:
         return { text: '', emoji: '' };
     }
@@ -111,6 +273,39 @@ function MathModal({ problem, onAnswer, compact = false }: MathModalProps) {
   };
 
   const feedbackInfo = getFeedbackText();
+  const isPicture = problem.kind === 'picture';
+  // Questions asked in words get a smaller font than written equations
+  const isWordy = problem.kind !== 'symbolic' && problem.kind !== 'sequence';
+  const padStatus = !isLocked ? 'none' : feedback === 'wrong' ? 'wrong' : 'correct';
+  // In voice mode the buttons stay as a tap fallback (and are the only way to
+  // answer a clock, since times aren't heard as a single number)
+  const voiceAnswerButton = answerMode === 'voice' && problem.kind !== 'clock' && (
+    <VoiceAnswerButton
+      key={problemId}
+      choices={problem.choices.filter((choice) => !eliminated.includes(choice.value))}
+      onChoice={handleAnswerClick}
+      disabled={isLocked}
+      compact={compact}
+    />
+  );
+  // 3 and 6 choices sit in rows of three; 2 and 4 in rows of two
+  const choiceColumns = problem.choices.length % 3 === 0 ? 3 : 2;
+
+  // Choices are drawn as objects when the picture asks for picture answers
+  const renderChoice = (choice: number, size: number) => {
+    if (problem.kind !== 'picture' || !problem.picture.pictureChoices || choice === 0) {
+      return formatAnswer(problem, choice);
+    }
+    return (
+      <Box
+        component="span"
+        aria-label={choice.toString()}
+        sx={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center' }}
+      >
+        <CountingObjects item={problem.picture.item} count={choice} size={size} />
+      </Box>
+    );
+  };
 
   // Compact layout for phone landscape - much smaller modal
   if (compact) {
@@ -145,6 +340,11 @@ function MathModal({ problem, onAnswer, compact = false }: MathModalProps) {
             overflow: 'auto',
           }}
         >
+          {isPicture && <CountingPictureView picture={problem.picture} compact />}
+          {problem.kind === 'clock' && <ClockFace time={problem.time} compact />}
+          {problem.kind === 'coins' && <CoinsView coins={problem.coins} compact />}
+          {problem.kind === 'pack' && problem.image && <PackImage src={problem.image} compact />}
+
           {/* Emoji + Question on same row */}
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
             <Typography component="span" sx={{ fontSize: '1.1rem' }}>
@@ -154,42 +354,57 @@ function MathModal({ problem, onAnswer, compact = false }: MathModalProps) {
               data-testid="math-question"
               sx={{
                 fontWeight: 800,
-                fontSize: '1.1rem',
+                fontSize: isWordy ? '0.8rem' : '1.1rem',
                 color: 'text.primary',
                 fontFamily: '"Courier New", Courier, monospace',
               }}
             >
-              {problem.question}
+              <QuestionText problem={problem} />
             </Typography>
+            {readAloudButton}
           </Box>
 
-          {/* Answer buttons - 2x2 grid */}
-          <Grid container spacing={0.5} sx={{ maxWidth: '200px', paddingTop: 0.75 }}>
-            {problem.choices.map((choice, index) => (
-              <Grid size={{ xs: 6 }} key={index}>
-                <Button
-                  variant="contained"
-                  color={getButtonColor(choice)}
-                  onClick={() => handleAnswerClick(choice)}
-                  disabled={feedback !== 'none'}
-                  data-testid={`answer-button-${index}`}
-                  data-choice={choice}
-                  sx={{
-                    width: '100%',
-                    py: 0.5,
-                    fontSize: '0.9rem',
-                    fontWeight: 700,
-                    borderRadius: 1.5,
-                    minHeight: '34px',
-                    boxShadow: 2,
-                    '&:active': { transform: 'scale(0.95)' },
-                  }}
-                >
-                  {choice}
-                </Button>
-              </Grid>
-            ))}
-          </Grid>
+          {aid && <MathHintView hint={aid} showLabel={false} compact />}
+          {hint && <MathHintView hint={hint} compact />}
+
+          {voiceAnswerButton}
+
+          {/* Answer buttons - grid of two or three columns, or a number pad */}
+          {answerMode === 'number-pad' ? (
+            <NumberPad
+              key={`${problemId}-${misses}-${repeats}`}
+              onSubmit={handleTypedAnswer}
+              status={padStatus}
+              compact
+            />
+          ) : (
+            <Grid container spacing={0.5} sx={{ maxWidth: '200px', paddingTop: 0.75 }}>
+              {problem.choices.map((choice, index) => (
+                <Grid size={{ xs: 12 / choiceColumns }} key={index}>
+                  <Button
+                    variant="contained"
+                    color={getButtonColor(choice.value)}
+                    onClick={() => handleAnswerClick(choice)}
+                    disabled={isLocked || eliminated.includes(choice.value)}
+                    data-testid={`answer-button-${index}`}
+                    data-choice={choice.value}
+                    sx={{
+                      width: '100%',
+                      py: 0.5,
+                      fontSize: '0.9rem',
+                      fontWeight: 700,
+                      borderRadius: 1.5,
+                      minHeight: '34px',
+                      boxShadow: 2,
+                      '&:active': { transform: 'scale(0.95)' },
+                    }}
+                  >
+                    {renderChoice(choice.value, 10)}
+                  </Button>
+                </Grid>
+              ))}
+            </Grid>
+          )}
 
           {/* Feedback text */}
           <Box
@@ -211,7 +426,7 @@ function MathModal({ problem, onAnswer, compact = false }: MathModalProps) {
                 fontWeight: 700,
                 fontSize: '0.6rem',
                 color:
-                  feedback === 'wrong'
+                  feedback === 'wrong' || feedback === 'try-again'
                     ? 'error.main'
                     : feedback === 'correct-fast'
                       ? '#d97706'
@@ -290,16 +505,27 @@ function MathModal({ problem, onAnswer, compact = false }: MathModalProps) {
           width: '100%',
         }}
       >
-        {/* Question mark emoji */}
-        <Typography
-          component="span"
-          sx={{
-            fontSize: { xs: '2.5rem', sm: '4rem' },
-            lineHeight: 1,
-          }}
-        >
-          🤔
-        </Typography>
+        {/* Question mark emoji, with a button to hear the question again */}
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography
+            component="span"
+            sx={{
+              fontSize: { xs: '2.5rem', sm: '4rem' },
+              lineHeight: 1,
+            }}
+          >
+            🤔
+          </Typography>
+          {readAloudButton}
+        </Box>
+
+        {/* Objects to count (picture problems), the clock or coins to read, or a pack picture */}
+        {isPicture && <CountingPictureView picture={problem.picture} />}
+        {problem.kind === 'clock' && <ClockFace time={problem.time} />}
+        {problem.kind === 'coins' && <CoinsView coins={problem.coins} />}
+        {problem.kind === 'pack' && problem.image && (
+          <PackImage src={problem.image} compact={false} />
+        )}
 
         {/* Math question */}
         <Typography
@@ -307,67 +533,87 @@ function MathModal({ problem, onAnswer, compact = false }: MathModalProps) {
           data-testid="math-question"
           sx={{
             fontWeight: 800,
-            fontSize: { xs: '2rem', sm: '3.5rem', md: '4rem' },
+            fontSize: isWordy
+              ? { xs: '1.25rem', sm: '2rem' }
+              : { xs: '2rem', sm: '3.5rem', md: '4rem' },
             color: 'text.primary',
             textAlign: 'center',
             fontFamily: '"Courier New", Courier, monospace',
             whiteSpace: 'nowrap',
           }}
         >
-          {problem.question}
+          <QuestionText problem={problem} />
         </Typography>
 
-        {/* Answer buttons - 2x2 grid */}
-        <Grid container spacing={{ xs: 2, sm: 3 }} sx={{ maxWidth: { xs: '320px', sm: '480px' } }}>
-          {problem.choices.map((choice, index) => (
-            <Grid size={{ xs: 6 }} key={index}>
-              <Button
-                variant="contained"
-                color={getButtonColor(choice)}
-                onClick={() => handleAnswerClick(choice)}
-                disabled={feedback !== 'none'}
-                data-testid={`answer-button-${index}`}
-                data-choice={choice}
-                sx={{
-                  width: '100%',
-                  py: { xs: 2, sm: 3.5 },
-                  fontSize: { xs: '1.5rem', sm: '2.5rem' },
-                  fontWeight: 700,
-                  borderRadius: { xs: 2, sm: 3 },
-                  minHeight: { xs: '70px', sm: '110px' },
-                  boxShadow: 4,
-                  '&:hover': {
-                    boxShadow: 6,
-                    transform: feedback === 'none' ? 'scale(1.05)' : 'none',
-                  },
-                  '&:active': {
-                    transform: 'scale(0.95)',
-                  },
-                  transition: 'all 0.15s ease-in-out',
-                  ...(selectedAnswer === choice &&
-                    feedback === 'correct-fast' && {
-                      animation: 'pulse 0.3s ease-in-out',
-                    }),
-                  ...(selectedAnswer === choice &&
-                    feedback === 'wrong' && {
-                      animation: 'shake 0.3s ease-in-out',
-                    }),
-                  '@keyframes pulse': {
-                    '0%, 100%': { transform: 'scale(1)' },
-                    '50%': { transform: 'scale(1.1)' },
-                  },
-                  '@keyframes shake': {
-                    '0%, 100%': { transform: 'translateX(0)' },
-                    '25%': { transform: 'translateX(-5px)' },
-                    '75%': { transform: 'translateX(5px)' },
-                  },
-                }}
-              >
-                {choice}
-              </Button>
-            </Grid>
-          ))}
-        </Grid>
+        {/* Visual aid, or a hint after repeated misses (retry mode) */}
+        {aid && <MathHintView hint={aid} showLabel={false} />}
+        {hint && <MathHintView hint={hint} />}
+
+        {voiceAnswerButton}
+
+        {/* Answer buttons - grid of two or three columns, or a number pad */}
+        {answerMode === 'number-pad' ? (
+          <NumberPad
+            key={`${problemId}-${misses}-${repeats}`}
+            onSubmit={handleTypedAnswer}
+            status={padStatus}
+          />
+        ) : (
+          <Grid
+            container
+            spacing={{ xs: 2, sm: 3 }}
+            sx={{ maxWidth: { xs: '320px', sm: '480px' } }}
+          >
+            {problem.choices.map((choice, index) => (
+              <Grid size={{ xs: 12 / choiceColumns }} key={index}>
+                <Button
+                  variant="contained"
+                  color={getButtonColor(choice.value)}
+                  onClick={() => handleAnswerClick(choice)}
+                  disabled={isLocked || eliminated.includes(choice.value)}
+                  data-testid={`answer-button-${index}`}
+                  data-choice={choice.value}
+                  sx={{
+                    width: '100%',
+                    py: { xs: 2, sm: 3.5 },
+                    fontSize: { xs: '1.5rem', sm: '2.5rem' },
+                    fontWeight: 700,
+                    borderRadius: { xs: 2, sm: 3 },
+                    minHeight: { xs: '70px', sm: '110px' },
+                    boxShadow: 4,
+                    '&:hover': {
+                      boxShadow: 6,
+                      transform: feedback === 'none' ? 'scale(1.05)' : 'none',
+                    },
+                    '&:active': {
+                      transform: 'scale(0.95)',
+                    },
+                    transition: 'all 0.15s ease-in-out',
+                    ...(selectedAnswer === choice.value &&
+                      feedback === 'correct-fast' && {
+                        animation: 'pulse 0.3s ease-in-out',
+                      }),
+                    ...(selectedAnswer === choice.value &&
+                      feedback === 'wrong' && {
+                        animation: 'shake 0.3s ease-in-out',
+                      }),
+                    '@keyframes pulse': {
+                      '0%, 100%': { transform: 'scale(1)' },
+                      '50%': { transform: 'scale(1.1)' },
+                    },
+                    '@keyframes shake': {
+                      '0%, 100%': { transform: 'translateX(0)' },
+                      '25%': { transform: 'translateX(-5px)' },
+                      '75%': { transform: 'translateX(5px)' },
+                    },
+                  }}
+                >
+                  {renderChoice(choice.value, 24)}
+                </Button>
+              </Grid>
+            ))}
+          </Grid>
+        )}
 
         {/* Feedback text - always rendered to reserve space, visibility controlled */}
         <Box
@@ -395,7 +641,7 @@ function MathModal({ problem, onAnswer, compact = false }: MathModalProps) {
               fontWeight: 700,
               fontSize: { xs: '1rem', sm: '1.5rem' },
               color:
-                feedback === 'wrong'
+                feedback === 'wrong' || feedback === 'try-again'
                   ? 'error.main'
                   : feedback === 'correct-fast'
                     ? '#d97706'
@@ -0,0 +1,63 @@
+import { jest } from '@jest/globals';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ThemeProvider } from '@mui/material/styles';
+import theme from '../theme';
+import NumberPad, { type NumberPadProps } from './NumberPad';
+
+describe('NumberPad', () => {
+  const setupTest = (overrides?: Partial<NumberPadProps>) => {
+    const onSubmit = jest.fn();
+    const props: NumberPadProps = { onSubmit, ...overrides };
+
+    render(
+      <ThemeProvider theme={theme}>
+        <NumberPad {...props} />
+      </ThemeProvider>
+    );
+
+    const press = (...keys: string[]) =>
+      keys.forEach((key) => fireEvent.click(screen.getByTestId(`number-pad-${key}`)));
+
+    return { onSubmit, press };
+  };
+
+  it('shows the typed digits', () => {
+    const { press } = setupTest();
+    press('1', '2');
+    expect(screen.getByTestId('number-pad-display')).toHaveTextContent('12');
+  });
+
+  it('submits the typed number', () => {
+    const { onSubmit, press } = setupTest();
+    press('4', '0', 'submit');
+    expect(onSubmit).toHaveBeenCalledWith(40);
+  });
+
+  it('deletes the last digit', () => {
+    const { press } = setupTest();
+    press('7', '3', 'delete');
+    expect(screen.getByTestId('number-pad-display')).toHaveTextContent(/^7$/);
+  });
+
+  it('drops leading zeros', () => {
+    const { press } = setupTest();
+    press('0', '5');
+    expect(screen.getByTestId('number-pad-display')).toHaveTextContent(/^5$/);
+  });
+
+  it('limits the answer to four digits', () => {
+    const { press } = setupTest();
+    press('1', '2', '3', '4', '5');
+    expect(screen.getByTestId('number-pad-display')).toHaveTextContent(/^1234$/);
+  });
+
+  it('cannot submit an empty answer', () => {
+    setupTest();
+    expect(screen.getByTestId('number-pad-submit')).toBeDisabled();
+  });
+
+  it('locks the keys once the answer has been checked', () => {
+    setupTest({ status: 'wrong' });
+    expect(screen.getByTestId('number-pad-5')).toBeDisabled();
+  });
+});
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Grid from '@mui/material/Grid';
+import Typography from '@mui/material/Typography';
+
+// Longest answer that can be typed
+const MAX_DIGITS = 4;
+
+export type NumberPadStatus = 'none' | 'correct' | 'wrong';
+
+export interface NumberPadProps {
+  /** Callback with the typed number when the check button is pressed */
+  onSubmit: (value: number) => void;
+  /** Colours the display once the answer has been checked */
+  status?: NumberPadStatus;
+  /** When true, renders smaller keys for phone landscape */
+  compact?: boolean;
+}
+
+/**
+ * NumberPad - Big on-screen keypad for typing an answer.
+ * Keys lock once an answer has been submitted.
+ */
+function NumberPad({ onSubmit, status = 'none', compact = false }: NumberPadProps) {
+  const [entry, setEntry] = useState('');
+  const locked = status !== 'none';
+
+  const pressDigit = (digit: number) => {
+    setEntry((prev) => (prev.length < MAX_DIGITS ? (prev + digit).replace(/^0+(?=\d)/, '') : prev));
+  };
+
+  const keySx = {
+    width: '100%',
+    minWidth: 0,
+    fontSize: compact ? '0.9rem' : { xs: '1.5rem', sm: '2rem' },
+    fontWeight: 700,
+    minHeight: compact ? '28px' : { xs: '56px', sm: '72px' },
+    borderRadius: compact ? 1.5 : 2,
+  };
+
+  return (
+    <Box sx={{ width: '100%', maxWidth: compact ? '180px' : { xs: '280px', sm: '360px' } }}>
+      <Typography
+        data-testid="number-pad-display"
+        aria-live="polite"
+        sx={{
+          mb: compact ? 0.5 : 2,
+          py: compact ? 0.25 : 1,
+          textAlign: 'center',
+          fontWeight: 800,
+          fontSize: compact ? '1.1rem' : { xs: '2rem', sm: '3rem' },
+          fontFamily: '"Courier New", Courier, monospace',
+          border: '3px solid',
+          borderRadius: 2,
+          borderColor:
+            status === 'correct' ? 'success.main' : status === 'wrong' ? 'error.main' : 'grey.400',
+          minHeight: compact ? '1.6rem' : { xs: '3.5rem', sm: '4.75rem' },
+        }}
+      >
+        {entry}
+      </Typography>
+
+      <Grid container spacing={compact ? 0.5 : 1.5}>
+        {[1, 2, 3, 4, 5, 6, 7, 8, 9].map((digit) => (
+          <Grid size={{ xs: 4 }} key={digit}>
+            <Button
+              variant="contained"
+              disabled={locked}
+              onClick={() => pressDigit(digit)}
+              data-testid={`number-pad-${digit}`}
+              sx={keySx}
+            >
+              {digit}
+            </Button>
+          </Grid>
+        ))}
+        <Grid size={{ xs: 4 }}>
+          <Button
+            variant="outlined"
+            disabled={locked || entry === ''}
+            onClick={() => setEntry((prev) => prev.slice(0, -1))}
+            aria-label="Delete"
+            data-testid="number-pad-delete"
+            sx={keySx}
+          >
+            ⌫
+          </Button>
+        </Grid>
+        <Grid size={{ xs: 4 }}>
+          <Button
+            variant="contained"
+            disabled={locked}
+            onClick={() => pressDigit(0)}
+            data-testid="number-pad-0"
+            sx={keySx}
+          >
+            0
+          </Button>
+        </Grid>
+        <Grid size={{ xs: 4 }}>
+          <Button
+            variant="contained"
+            color="success"
+            disabled={locked || entry === ''}
+            onClick={() => onSubmit(Number(entry))}
+            aria-label="Check answer"
+            data-testid="number-pad-submit"
+            sx={keySx}
+          >
+            ✓
+          </Button>
+        </Grid>
+      </Grid>
+    </Box>
+  );
+}
+
+export default NumberPad;
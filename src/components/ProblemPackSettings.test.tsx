@@ -0,0 +1,62 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { ThemeProvider } from '@mui/material/styles';
+import theme from '../theme';
+import { GameProvider } from '../context/GameContext';
+import ProblemPackSettings from './ProblemPackSettings';
+
+// jsdom's File can't read itself back, so each test file says what reading it gives
+const createFile = (read: () => Promise<string>) => {
+  const file = new File([''], 'pack.json', { type: 'application/json' });
+  Object.defineProperty(file, 'text', { value: read });
+  return file;
+};
+
+describe('ProblemPackSettings', () => {
+  const setupTest = () => {
+    const utils = render(
+      <ThemeProvider theme={theme}>
+        <GameProvider>
+          <ProblemPackSettings />
+        </GameProvider>
+      </ThemeProvider>
+    );
+    const loadFile = (file: File) =>
+      fireEvent.change(screen.getByTestId('problem-pack-file'), { target: { files: [file] } });
+    return { ...utils, loadFile };
+  };
+
+  it('loads a valid pack and asks from it', async () => {
+    const { loadFile } = setupTest();
+    const pack = {
+      name: 'Lalo Facts',
+      questions: [{ question: 'How many legs does Lalo have?', answer: 4, choices: [2, 4] }],
+    };
+
+    loadFile(createFile(() => Promise.resolve(JSON.stringify(pack))));
+
+    await waitFor(() => expect(screen.getByRole('combobox')).toHaveTextContent('Lalo Facts (1)'));
+    expect(screen.queryByTestId('problem-pack-errors')).not.toBeInTheDocument();
+  });
+
+  it('lists what is wrong with an invalid pack', async () => {
+    const { loadFile } = setupTest();
+
+    loadFile(createFile(() => Promise.resolve(JSON.stringify({ name: 'Empty', questions: [] }))));
+
+    const errors = await screen.findByTestId('problem-pack-errors');
+    expect(errors).toHaveTextContent('"questions" must be a list with at least one question');
+    expect(screen.getByRole('combobox')).not.toHaveTextContent('Empty');
+  });
+
+  it("says so when the file can't be read", async () => {
+    const { loadFile } = setupTest();
+
+    loadFile(createFile(() => Promise.reject(new Error('Permission denied'))));
+
+    await waitFor(() =>
+      expect(screen.getByTestId('problem-pack-errors')).toHaveTextContent(
+        "Couldn't read pack.json: Permission denied"
+      )
+    );
+  });
+});
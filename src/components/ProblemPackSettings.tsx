@@ -0,0 +1,122 @@
+import { useRef, useState, type ChangeEvent } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  FormControlLabel,
+  MenuItem,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useGame } from '../hooks/useGame';
+import { parseProblemPack } from '../game/systems/ProblemPacks';
+
+// Value of the "no pack" option (MUI selects can't hold null)
+const NO_PACK = '';
+
+/**
+ * ProblemPackSettings - Settings section for asking questions from a problem pack,
+ * and for loading a pack from a JSON file.
+ */
+export function ProblemPackSettings() {
+  const {
+    problemPacks,
+    addProblemPack,
+    activePackName,
+    setActivePackName,
+    packUsage,
+    setPackUsage,
+  } = useGame();
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const activePack = problemPacks.find((pack) => pack.name === activePackName);
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Lets the same file be picked again after fixing it
+    if (!file) return;
+
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (error) {
+      setErrors([`Couldn't read ${file.name}: ${(error as Error).message}`]);
+      return;
+    }
+
+    const result = parseProblemPack(text);
+    if (result.ok) {
+      addProblemPack(result.pack);
+      setActivePackName(result.pack.name);
+      setErrors([]);
+    } else {
+      setErrors(result.errors);
+    }
+  };
+
+  return (
+    <Box>
+      <TextField
+        select
+        fullWidth
+        size="small"
+        label="Questions from"
+        value={activePackName ?? NO_PACK}
+        onChange={(event) =>
+          setActivePackName(event.target.value === NO_PACK ? null : event.target.value)
+        }
+      >
+        <MenuItem value={NO_PACK}>Math settings above</MenuItem>
+        {problemPacks.map((pack) => (
+          <MenuItem key={pack.name} value={pack.name}>
+            {pack.name} ({pack.questions.length})
+          </MenuItem>
+        ))}
+      </TextField>
+
+      {activePack?.description && (
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
+          {activePack.description}
+        </Typography>
+      )}
+
+      <FormControlLabel
+        sx={{ mt: 1, display: 'flex' }}
+        control={
+          <Switch
+            checked={packUsage === 'alongside'}
+            disabled={!activePack}
+            onChange={(_event, nextChecked) => setPackUsage(nextChecked ? 'alongside' : 'instead')}
+          />
+        }
+        label="Mix with math questions"
+      />
+
+      <Button variant="outlined" size="small" onClick={() => fileInputRef.current?.click()}>
+        Load a pack (.json)
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        hidden
+        onChange={handleFileChange}
+        data-testid="problem-pack-file"
+      />
+
+      {errors.length > 0 && (
+        <Alert severity="error" sx={{ mt: 1 }} data-testid="problem-pack-errors">
+          That pack couldn't be loaded:
+          <Box component="ul" sx={{ m: 0, pl: 2 }}>
+            {errors.map((error, index) => (
+              <li key={index}>{error}</li>
+            ))}
+          </Box>
+        </Alert>
+      )}
+    </Box>
+  );
+}
+
+export default ProblemPackSettings;
@@ -5,16 +5,39 @@ import {
   FormControlLabel,
   FormGroup,
   IconButton,
+  MenuItem,
   Popover,
   Slider,
   Stack,
   Switch,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
   Typography,
   styled,
 } from '@mui/material';
 import SettingsIcon from '@mui/icons-material/Settings';
 import { useGame } from '../hooks/useGame';
-import type { Operation } from '../game/systems/MathGenerator';
+import {
+  CHOICE_COUNTS,
+  type ChoiceCount,
+  type Operation,
+  type VisualAid,
+} from '../game/systems/MathGenerator';
+import { DIFFICULTY_LEVELS, LADDER_OPERATIONS } from '../game/systems/AdaptiveDifficulty';
+import {
+  CURRICULUM_LEVELS,
+  applyCurriculumLevel,
+  findCurriculumLevel,
+  getCurriculumLevelById,
+  type CurriculumLevelId,
+} from '../game/systems/CurriculumLevels';
+import { HISTORY_CONFIG } from '../game/systems/ProblemHistory';
+import { RACE_PRESETS, getRacePreset, type RacePresetId } from '../game/systems/RacePresets';
+import { TIMES_TABLE_CONFIG } from '../game/systems/TimesTables';
+import { VoiceInput } from '../game/systems/VoiceInput';
+import CheckpointRampSettings from './CheckpointRampSettings';
+import ProblemPackSettings from './ProblemPackSettings';
 
 const SettingsButton = styled(IconButton)(({ theme }) => ({
   position: 'fixed',
@@ -39,11 +62,47 @@ const operationLabels: Record<Operation, string> = {
   multiply: 'Multiplication (×)',
   divide: 'Division (÷)',
   square: 'Squares (²)',
+  compare: 'Which is bigger? (7 or 4)',
+  'skip-count': 'Skip counting (5, 10, 15, ?)',
+  bonds: 'Number bonds to 10 (7 + ? = 10)',
+  'before-after': 'Before and after (?, 14)',
+  time: "Telling time (o'clock, half past)",
+  money: 'Counting coins (¢)',
+};
+
+// Example shown next to each missing-number toggle (only equations have one)
+const missingOperandExamples: Partial<Record<Operation, string>> = {
+  add: '3 + ? = 7',
+  subtract: '? - 2 = 5',
+  multiply: '4 × ? = 12',
+  divide: '? ÷ 3 = 4',
+  square: '?² = 9',
 };
 
+// Level picker value for the raw controls
+const CUSTOM_LEVEL = 'custom';
+
 export function SettingsMenu({ bottomRight = false }: SettingsMenuProps) {
-  const { speedScale, setSpeedScale, mathConfig, setMathConfig } = useGame();
+  const {
+    speedScale,
+    setSpeedScale,
+    racePreset,
+    setRacePreset,
+    catchUpStrength,
+    setCatchUpStrength,
+    mathConfig,
+    setMathConfig,
+    adaptiveDifficulty,
+    setAdaptiveDifficulty,
+    adaptiveLevels,
+    raceSeed,
+  } = useGame();
   const [anchorEl, setAnchorEl] = useState<HTMLButtonElement | null>(null);
+  // Custom can be picked while the settings still match a level, to tweak from there
+  const [customPicked, setCustomPicked] = useState(false);
+  const voiceAvailable = VoiceInput.getInstance().isAvailable();
+  const currentLevel = findCurriculumLevel(mathConfig);
+  const isCustom = customPicked || currentLevel === null;
 
   const handleSettingsClick = useCallback((event: React.MouseEvent<HTMLButtonElement>) => {
     setAnchorEl((prev) => (prev ? null : event.currentTarget));
@@ -61,6 +120,14 @@ export function SettingsMenu({ bottomRight = false }: SettingsMenuProps) {
     [setSpeedScale]
   );
 
+  const handleCatchUpChange = useCallback(
+    (_event: Event, newValue: number | number[]) => {
+      const value = Array.isArray(newValue) ? newValue[0] : newValue;
+      setCatchUpStrength(value);
+    },
+    [setCatchUpStrength]
+  );
+
   const handleMaxNumberChange = useCallback(
     (_event: Event, newValue: number | number[]) => {
       const value = Array.isArray(newValue) ? newValue[0] : newValue;
@@ -72,6 +139,37 @@ export function SettingsMenu({ bottomRight = false }: SettingsMenuProps) {
     [setMathConfig]
   );
 
+  const handleRepeatWindowChange = useCallback(
+    (_event: Event, newValue: number | number[]) => {
+      const value = Array.isArray(newValue) ? newValue[0] : newValue;
+      setMathConfig((prev) => ({
+        ...prev,
+        repeatWindow: value,
+      }));
+    },
+    [setMathConfig]
+  );
+
+  const handleHintAfterMissesChange = useCallback(
+    (_event: Event, newValue: number | number[]) => {
+      const value = Array.isArray(newValue) ? newValue[0] : newValue;
+      setMathConfig((prev) => ({
+        ...prev,
+        hintAfterMisses: value,
+      }));
+    },
+    [setMathConfig]
+  );
+
+  const handleLevelChange = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const level = getCurriculumLevelById(event.target.value as CurriculumLevelId);
+      setCustomPicked(!level);
+      if (level) setMathConfig((prev) => applyCurriculumLevel(level, prev));
+    },
+    [setMathConfig]
+  );
+
   const operationToggles = useMemo(() => {
     return (Object.keys(operationLabels) as Operation[]).map((operation) => {
       const checked = mathConfig.operations.includes(operation);
@@ -105,6 +203,31 @@ export function SettingsMenu({ bottomRight = false }: SettingsMenuProps) {
     });
   }, [mathConfig.operations, setMathConfig]);
 
+  const formatToggles = useMemo(() => {
+    return mathConfig.operations
+      .filter((operation) => missingOperandExamples[operation] !== undefined)
+      .map((operation) => (
+        <FormControlLabel
+          key={operation}
+          control={
+            <Switch
+              checked={mathConfig.formats[operation] === 'missing-operand'}
+              onChange={(_event, nextChecked) => {
+                setMathConfig((prev) => ({
+                  ...prev,
+                  formats: {
+                    ...prev.formats,
+                    [operation]: nextChecked ? 'missing-operand' : 'result',
+                  },
+                }));
+              }}
+            />
+          }
+          label={missingOperandExamples[operation]}
+        />
+      ));
+  }, [mathConfig.operations, mathConfig.formats, setMathConfig]);
+
   const open = Boolean(anchorEl);
   const id = open ? 'settings-popover' : undefined;
 
@@ -146,6 +269,36 @@ export function SettingsMenu({ bottomRight = false }: SettingsMenuProps) {
         }}
       >
         <Stack spacing={2} data-ignore-global-tap="true">
+          <Box>
+            <Typography variant="subtitle1" fontWeight={700} gutterBottom>
+              Race
+            </Typography>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Race length"
+              value={racePreset}
+              onChange={(event) => setRacePreset(event.target.value as RacePresetId)}
+            >
+              {RACE_PRESETS.map((preset) => (
+                <MenuItem key={preset.id} value={preset.id}>
+                  {preset.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Typography
+              variant="body2"
+              color="text.secondary"
+              sx={{ mt: 0.5 }}
+              data-testid="race-preset-description"
+            >
+              {getRacePreset(racePreset).description}
+            </Typography>
+          </Box>
+
+          <Divider />
+
           <Box>
             <Typography variant="subtitle1" fontWeight={700} gutterBottom>
               Player Speed
@@ -163,6 +316,19 @@ export function SettingsMenu({ bottomRight = false }: SettingsMenuProps) {
               valueLabelFormat={(value) => `${Math.round(value * 100)}%`}
               aria-label="Computer player speed scale"
             />
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Catch-up: speed up when behind Rosie, ease off when ahead
+            </Typography>
+            <Slider
+              value={catchUpStrength}
+              onChange={handleCatchUpChange}
+              min={0}
+              max={1}
+              step={0.1}
+              valueLabelDisplay="auto"
+              valueLabelFormat={(value) => (value === 0 ? 'Off' : `${Math.round(value * 100)}%`)}
+              aria-label="Computer player catch-up strength"
+            />
           </Box>
 
           <Divider />
@@ -171,23 +337,342 @@ export function SettingsMenu({ bottomRight = false }: SettingsMenuProps) {
             <Typography variant="subtitle1" fontWeight={700} gutterBottom>
               Math Questions
             </Typography>
-            <FormGroup>{operationToggles}</FormGroup>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Level"
+              value={isCustom ? CUSTOM_LEVEL : currentLevel.id}
+              onChange={handleLevelChange}
+            >
+              {CURRICULUM_LEVELS.map((level) => (
+                <MenuItem key={level.id} value={level.id}>
+                  {level.name}
+                </MenuItem>
+              ))}
+              <MenuItem value={CUSTOM_LEVEL}>Custom</MenuItem>
+            </TextField>
+            {!isCustom && (
+              <Typography
+                variant="body2"
+                color="text.secondary"
+                sx={{ mt: 0.5 }}
+                data-testid="curriculum-level-description"
+              >
+                {currentLevel.description}
+              </Typography>
+            )}
+
+            {isCustom && (
+              <Box mt={1} data-testid="custom-math-settings">
+                <FormGroup>{operationToggles}</FormGroup>
+
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                  Missing-number questions
+                </Typography>
+                <FormGroup>{formatToggles}</FormGroup>
+
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                  Picture counting (+ and −)
+                </Typography>
+                <FormGroup>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={mathConfig.pictureMode !== 'off'}
+                        onChange={(_event, nextChecked) =>
+                          setMathConfig((prev) => ({
+                            ...prev,
+                            pictureMode: nextChecked ? 'number-choices' : 'off',
+                          }))
+                        }
+                      />
+                    }
+                    label="Show pictures to count"
+                  />
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={mathConfig.pictureMode === 'picture-choices'}
+                        disabled={mathConfig.pictureMode === 'off'}
+                        onChange={(_event, nextChecked) =>
+                          setMathConfig((prev) => ({
+                            ...prev,
+                            pictureMode: nextChecked ? 'picture-choices' : 'number-choices',
+                          }))
+                        }
+                      />
+                    }
+                    label="Picture answers"
+                  />
+                </FormGroup>
+
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                  Mixed operations (needs two of + − × ÷)
+                </Typography>
+                <FormGroup>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={mathConfig.expressionMode !== 'single'}
+                        onChange={(_event, nextChecked) =>
+                          setMathConfig((prev) => ({
+                            ...prev,
+                            expressionMode: nextChecked ? 'mixed' : 'single',
+                          }))
+                        }
+                      />
+                    }
+                    label="2 + 3 × 4"
+                  />
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={mathConfig.expressionMode === 'parentheses'}
+                        disabled={mathConfig.expressionMode === 'single'}
+                        onChange={(_event, nextChecked) =>
+                          setMathConfig((prev) => ({
+                            ...prev,
+                            expressionMode: nextChecked ? 'parentheses' : 'mixed',
+                          }))
+                        }
+                      />
+                    }
+                    label="(2 + 3) × 4"
+                  />
+                </FormGroup>
+              </Box>
+            )}
+
+            {mathConfig.operations.includes('multiply') && (
+              <Box mt={1}>
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  Times tables to practice (none = all)
+                </Typography>
+                <ToggleButtonGroup
+                  size="small"
+                  value={mathConfig.timesTables}
+                  onChange={(_event, tables: number[]) =>
+                    setMathConfig((prev) => ({
+                      ...prev,
+                      timesTables: [...tables].sort((a, b) => a - b),
+                    }))
+                  }
+                  aria-label="Times tables to practice"
+                  sx={{ flexWrap: 'wrap' }}
+                >
+                  {TIMES_TABLE_CONFIG.TABLES.map((table) => (
+                    <ToggleButton key={table} value={table} aria-label={`${table} times table`}>
+                      ×{table}
+                    </ToggleButton>
+                  ))}
+                </ToggleButtonGroup>
+              </Box>
+            )}
+
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }} gutterBottom>
+              Answers
+            </Typography>
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              value={mathConfig.answerMode === 'number-pad' ? 'pad' : mathConfig.choiceCount}
+              onChange={(_event, value: ChoiceCount | 'pad' | null) => {
+                if (value === null) return;
+                setMathConfig((prev) =>
+                  value === 'pad'
+                    ? { ...prev, answerMode: 'number-pad' }
+                    : {
+                        ...prev,
+                        answerMode: prev.answerMode === 'voice' ? 'voice' : 'choices',
+                        choiceCount: value,
+                      }
+                );
+              }}
+              aria-label="Answer buttons"
+            >
+              {CHOICE_COUNTS.map((count) => (
+                <ToggleButton key={count} value={count} aria-label={`${count} choices`}>
+                  {count}
+                </ToggleButton>
+              ))}
+              <ToggleButton value="pad" aria-label="Number pad">
+                123 pad
+              </ToggleButton>
+            </ToggleButtonGroup>
+            {mathConfig.operations.includes('compare') &&
+              mathConfig.answerMode !== 'number-pad' && (
+                <Typography variant="caption" color="text.secondary" display="block">
+                  &ldquo;Which is bigger?&rdquo; always shows just its two numbers
+                </Typography>
+              )}
+
+            <FormControlLabel
+              sx={{ mt: 1, display: 'flex' }}
+              control={
+                <Switch
+                  checked={mathConfig.answerMode === 'voice'}
+                  disabled={!voiceAvailable || mathConfig.answerMode === 'number-pad'}
+                  onChange={(_event, nextChecked) =>
+                    setMathConfig((prev) => ({
+                      ...prev,
+                      answerMode: nextChecked ? 'voice' : 'choices',
+                    }))
+                  }
+                />
+              }
+              label={
+                voiceAvailable
+                  ? 'Say answers out loud'
+                  : 'Say answers out loud (not supported here)'
+              }
+            />
+
+            <FormControlLabel
+              sx={{ mt: 1, display: 'flex' }}
+              control={
+                <Switch
+                  checked={mathConfig.retryUntilCorrect}
+                  onChange={(_event, nextChecked) =>
+                    setMathConfig((prev) => ({ ...prev, retryUntilCorrect: nextChecked }))
+                  }
+                />
+              }
+              label="Keep trying until correct"
+            />
+
+            {mathConfig.retryUntilCorrect && (
+              <Box mt={1}>
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  Hint after {mathConfig.hintAfterMisses}{' '}
+                  {mathConfig.hintAfterMisses === 1 ? 'miss' : 'misses'}
+                </Typography>
+                <Slider
+                  value={mathConfig.hintAfterMisses}
+                  onChange={handleHintAfterMissesChange}
+                  min={1}
+                  max={3}
+                  step={1}
+                  marks
+                  valueLabelDisplay="auto"
+                  aria-label="Misses before a hint is shown"
+                />
+              </Box>
+            )}
+
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }} gutterBottom>
+              Visual aid (+ and − up to 20)
+            </Typography>
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              value={mathConfig.visualAid}
+              onChange={(_event, value: VisualAid | null) => {
+                if (value !== null) setMathConfig((prev) => ({ ...prev, visualAid: value }));
+              }}
+              aria-label="Visual aid"
+            >
+              <ToggleButton value="off">Off</ToggleButton>
+              <ToggleButton value="ten-frame">Ten-frame</ToggleButton>
+              <ToggleButton value="number-line">Number line</ToggleButton>
+            </ToggleButtonGroup>
+            <FormControlLabel
+              sx={{ display: 'flex' }}
+              control={
+                <Switch
+                  checked={mathConfig.visualAidTiming === 'after-wrong'}
+                  disabled={mathConfig.visualAid === 'off'}
+                  onChange={(_event, nextChecked) =>
+                    setMathConfig((prev) => ({
+                      ...prev,
+                      visualAidTiming: nextChecked ? 'after-wrong' : 'always',
+                    }))
+                  }
+                />
+              }
+              label="Only after a wrong answer"
+            />
+
+            <FormControlLabel
+              sx={{ mt: 1, display: 'flex' }}
+              control={
+                <Switch
+                  checked={adaptiveDifficulty}
+                  onChange={(_event, nextChecked) => setAdaptiveDifficulty(nextChecked)}
+                />
+              }
+              label="Adaptive difficulty"
+            />
+
+            {adaptiveDifficulty ? (
+              <Box mt={1} data-testid="adaptive-levels">
+                {mathConfig.operations
+                  .filter((operation) => LADDER_OPERATIONS.includes(operation))
+                  .map((operation) => (
+                    <Typography key={operation} variant="body2" color="text.secondary">
+                      {operationLabels[operation]}: level {adaptiveLevels[operation] + 1} of{' '}
+                      {DIFFICULTY_LEVELS.length}
+                    </Typography>
+                  ))}
+              </Box>
+            ) : (
+              isCustom && (
+                <Box mt={2}>
+                  <Typography variant="body2" color="text.secondary" gutterBottom>
+                    Max number in questions: {mathConfig.maxNumber}
+                  </Typography>
+                  <Slider
+                    value={mathConfig.maxNumber}
+                    onChange={handleMaxNumberChange}
+                    min={5}
+                    max={30}
+                    step={1}
+                    valueLabelDisplay="auto"
+                    aria-label="Maximum number for math questions"
+                  />
+                </Box>
+              )
+            )}
 
             <Box mt={2}>
               <Typography variant="body2" color="text.secondary" gutterBottom>
-                Max number in questions: {mathConfig.maxNumber}
+                No repeats within the last {mathConfig.repeatWindow} questions
               </Typography>
               <Slider
-                value={mathConfig.maxNumber}
-                onChange={handleMaxNumberChange}
-                min={5}
-                max={30}
+                value={mathConfig.repeatWindow}
+                onChange={handleRepeatWindowChange}
+                min={0}
+                max={HISTORY_CONFIG.MAX_WINDOW_SIZE}
                 step={1}
                 valueLabelDisplay="auto"
-                aria-label="Maximum number for math questions"
+                aria-label="Questions before a repeat is allowed"
               />
             </Box>
           </Box>
+
+          <Divider />
+
+          <Box>
+            <Typography variant="subtitle1" fontWeight={700} gutterBottom>
+              Problem Pack
+            </Typography>
+            <ProblemPackSettings />
+          </Box>
+
+          <Divider />
+
+          <Box>
+            <Typography variant="subtitle1" fontWeight={700} gutterBottom>
+              Checkpoints
+            </Typography>
+            <CheckpointRampSettings />
+          </Box>
+
+          {raceSeed !== null && (
+            <Typography variant="caption" color="text.secondary" data-testid="race-seed">
+              Race seed: {raceSeed}
+            </Typography>
+          )}
         </Stack>
       </Popover>
     </>
@@ -0,0 +1,87 @@
+import { jest } from '@jest/globals';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { ThemeProvider } from '@mui/material/styles';
+import theme from '../theme';
+import VoiceAnswerButton, { type VoiceAnswerButtonProps } from './VoiceAnswerButton';
+import { VoiceInput } from '../game/systems/VoiceInput';
+import type { MathChoice } from '../game/systems/MathGenerator';
+
+describe('VoiceAnswerButton', () => {
+  const choices: MathChoice[] = [
+    { value: 8, misconception: null },
+    { value: 6, misconception: null },
+  ];
+
+  // Fake recognizer; say() plays back a phrase as if it had been heard
+  const installFakeRecognizer = () => {
+    let heard: ((alternatives: string[]) => void) | null = null;
+    let ended: (() => void) | null = null;
+    VoiceInput.getInstance().setRecognizer({
+      listen: (onHeard, onEnd) => {
+        heard = onHeard;
+        ended = onEnd;
+      },
+      stop: jest.fn(),
+    });
+    return {
+      say: (...alternatives: string[]) =>
+        act(() => {
+          heard?.(alternatives);
+          ended?.();
+        }),
+    };
+  };
+
+  const setupTest = (overrides?: Partial<VoiceAnswerButtonProps>) => {
+    const onChoice = jest.fn();
+    render(
+      <ThemeProvider theme={theme}>
+        <VoiceAnswerButton choices={choices} onChoice={onChoice} {...overrides} />
+      </ThemeProvider>
+    );
+    return { onChoice };
+  };
+
+  beforeEach(() => {
+    VoiceInput.resetInstance();
+  });
+
+  it('renders nothing when voice input is unavailable', () => {
+    setupTest();
+    expect(screen.queryByTestId('voice-answer-button')).not.toBeInTheDocument();
+  });
+
+  it('picks the choice that was said', () => {
+    const recognizer = installFakeRecognizer();
+    const { onChoice } = setupTest();
+
+    fireEvent.click(screen.getByTestId('voice-answer-button'));
+    expect(screen.getByTestId('voice-answer-button')).toHaveTextContent('Listening');
+
+    recognizer.say('eight');
+
+    expect(onChoice).toHaveBeenCalledWith(choices[0]);
+    expect(screen.getByTestId('voice-answer-button')).toHaveTextContent('Say it!');
+  });
+
+  it('asks again when the number is not a choice', () => {
+    const recognizer = installFakeRecognizer();
+    const { onChoice } = setupTest();
+
+    fireEvent.click(screen.getByTestId('voice-answer-button'));
+    recognizer.say('twelve');
+
+    expect(onChoice).not.toHaveBeenCalled();
+    expect(screen.getByTestId('voice-answer-message')).toHaveTextContent('I heard 12');
+  });
+
+  it('asks again when no number was heard', () => {
+    const recognizer = installFakeRecognizer();
+    setupTest();
+
+    fireEvent.click(screen.getByTestId('voice-answer-button'));
+    recognizer.say('banana');
+
+    expect(screen.getByTestId('voice-answer-message')).toHaveTextContent("didn't catch that");
+  });
+});
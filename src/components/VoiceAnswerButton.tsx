@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Typography from '@mui/material/Typography';
+import type { MathChoice } from '../game/systems/MathGenerator';
+import { SpeechManager } from '../game/systems/SpeechManager';
+import { matchSpokenChoice, VoiceInput } from '../game/systems/VoiceInput';
+
+export interface VoiceAnswerButtonProps {
+  /** Choices the spoken number is matched against */
+  choices: MathChoice[];
+  /** Callback with the choice that was said */
+  onChoice: (choice: MathChoice) => void;
+  /** Stops listening from being started (e.g. once answered) */
+  disabled?: boolean;
+  /** When true, renders a smaller button for phone landscape */
+  compact?: boolean;
+}
+
+/**
+ * VoiceAnswerButton - Microphone button for saying the answer out loud.
+ * Renders nothing where the browser can't listen, leaving the tap buttons.
+ */
+function VoiceAnswerButton({
+  choices,
+  onChoice,
+  disabled = false,
+  compact = false,
+}: VoiceAnswerButtonProps) {
+  const [listening, setListening] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const voiceInput = VoiceInput.getInstance();
+
+  // Stop listening if the question closes mid-phrase
+  useEffect(() => () => VoiceInput.getInstance().stop(), []);
+
+  if (!voiceInput.isAvailable()) return null;
+
+  const handleListen = () => {
+    // Don't let the read-aloud question be heard as the answer
+    SpeechManager.getInstance().cancel();
+    setListening(true);
+    setMessage(null);
+    voiceInput.listen(
+      (alternatives) => {
+        const { choice, heard } = matchSpokenChoice(alternatives, choices);
+        if (choice) {
+          onChoice(choice);
+        } else if (heard !== null) {
+          setMessage(`I heard ${heard}. Try again, or tap your answer!`);
+        } else {
+          setMessage("I didn't catch that. Try again!");
+        }
+      },
+      () => setListening(false)
+    );
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 0.5 }}>
+      <Button
+        variant="contained"
+        color="secondary"
+        onClick={handleListen}
+        disabled={disabled || listening}
+        data-testid="voice-answer-button"
+        sx={{
+          fontSize: compact ? '0.7rem' : { xs: '1.1rem', sm: '1.4rem' },
+          fontWeight: 700,
+          borderRadius: compact ? 1.5 : 3,
+          minHeight: compact ? '28px' : { xs: '48px', sm: '60px' },
+          px: compact ? 1 : 3,
+          textTransform: 'none',
+        }}
+      >
+        {listening ? '👂 Listening…' : '🎤 Say it!'}
+      </Button>
+      {message && (
+        <Typography
+          data-testid="voice-answer-message"
+          sx={{
+            fontSize: compact ? '0.6rem' : '0.9rem',
+            fontWeight: 600,
+            color: 'text.secondary',
+            textAlign: 'center',
+          }}
+        >
+          {message}
+        </Typography>
+      )}
+    </Box>
+  );
+}
+
+export default VoiceAnswerButton;
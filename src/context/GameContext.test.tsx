@@ -0,0 +1,89 @@
+import { useEffect } from 'react';
+import { act, render } from '@testing-library/react';
+import type * as Phaser from 'phaser';
+import { GameProvider, type GameContextValue } from './GameContext';
+import { useGame } from '../hooks/useGame';
+import { GAME_EVENTS } from '../game/events';
+
+type Handler = (payload?: unknown) => void;
+
+// Just enough of Phaser's event emitter for the context's listeners
+function createEvents() {
+  const handlers = new Map<string, Handler[]>();
+  return {
+    on: (event: string, handler: Handler) => {
+      handlers.set(event, [...(handlers.get(event) ?? []), handler]);
+    },
+    off: (event: string, handler: Handler) => {
+      handlers.set(
+        event,
+        (handlers.get(event) ?? []).filter((candidate) => candidate !== handler)
+      );
+    },
+    emit: (event: string, payload?: unknown) => {
+      (handlers.get(event) ?? []).forEach((handler) => handler(payload));
+    },
+  };
+}
+
+// Hands the context out to the test after each render
+function Consumer({ onRender }: { onRender: (context: GameContextValue) => void }) {
+  const context = useGame();
+  useEffect(() => {
+    onRender(context);
+  });
+  return null;
+}
+
+describe('GameContext', () => {
+  const setupTest = () => {
+    const events = createEvents();
+    let context: GameContextValue | null = null;
+    render(
+      <GameProvider>
+        <Consumer onRender={(value) => (context = value)} />
+      </GameProvider>
+    );
+    act(() => context!.setGame({ events } as unknown as Phaser.Game));
+
+    // Runs a race with the given seed and returns the questions asked at its checkpoints
+    const race = (seed: number): string[] => {
+      act(() => {
+        events.emit(GAME_EVENTS.RESTART_RACE, { seed });
+      });
+      act(() => {
+        events.emit(GAME_EVENTS.RACE_STARTED, { seed });
+      });
+      return [0, 1, 2].map((checkpointIndex) => {
+        act(() => {
+          events.emit(GAME_EVENTS.SHOW_MATH_PROBLEM, { checkpointIndex });
+        });
+        return context!.currentProblem!.question;
+      });
+    };
+    return { race };
+  };
+
+  describe('seeded replays', () => {
+    it('asks the same problems each time a seed is replayed', () => {
+      const { race } = setupTest();
+
+      const original = race(7);
+      race(99);
+      const firstReplay = race(7);
+      const secondReplay = race(7);
+
+      expect(firstReplay).toEqual(original);
+      expect(secondReplay).toEqual(original);
+    });
+
+    it('still avoids recent problems in a fresh race', () => {
+      const { race } = setupTest();
+
+      const first = race(7);
+      const second = race(8);
+
+      expect(second.filter((question) => first.includes(question))).toEqual([]);
+    });
+  });
+});
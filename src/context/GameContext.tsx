@@ -6,28 +6,84 @@ import {
   type GameState,
   type RacerResult,
   type GameStatePayload,
+  type MathProblemPayload,
+  type SettingsUpdatedPayload,
   type CountdownPayload,
   type AllRacersFinishedPayload,
   type RaceResultsUpdatedPayload,
+  type RaceStartedPayload,
+  type RestartRacePayload,
 } from '../game/events';
-import { generateProblem, DEFAULT_MATH_CONFIG, type MathProblem, type MathConfig } from '../game/systems/MathGenerator';
+import {
+  generateProblem,
+  hasEquation,
+  DEFAULT_MATH_CONFIG,
+  type MathChoice,
+  type MathProblem,
+  type MathConfig,
+  type Operation,
+} from '../game/systems/MathGenerator';
+import { AdaptiveDifficulty } from '../game/systems/AdaptiveDifficulty';
+import { ProblemHistory, HISTORY_CONFIG } from '../game/systems/ProblemHistory';
+import { TimesTableFacts } from '../game/systems/TimesTables';
+import { getCheckpointMathConfig, type CheckpointSettings } from '../game/systems/CheckpointRamp';
+import {
+  generatePackProblem,
+  shouldUsePack,
+  type PackUsage,
+  type ProblemPack,
+} from '../game/systems/ProblemPacks';
+import { createRandom, type RandomSource } from '../game/systems/Random';
+import { DEFAULT_RACE_PRESET_ID, type RacePresetId } from '../game/systems/RacePresets';
+import { AI_CONFIG } from '../game/systems/RaceSimulation';
 import { SPEED_CONFIG } from '../data/familyMembers';
+import { BUILT_IN_PACKS } from '../data/problemPacks';
 
 export interface GameContextValue {
   game: Phaser.Game | null;
   setGame: (game: Phaser.Game | null) => void;
   emitTap: () => void;
-  emitRestart: () => void;
+  /** Restart the race; pass a seed to replay a specific race */
+  emitRestart: (seed?: number) => void;
   isRacing: boolean;
   isFinished: boolean;
   finishTime: number | null;
+  /** Seed of the current race (null before the first race starts) */
+  raceSeed: number | null;
   speedScale: number;
   setSpeedScale: (speedScale: number) => void;
+  /** Race length and checkpoint count (a change during a race applies from the next one) */
+  racePreset: RacePresetId;
+  setRacePreset: (preset: RacePresetId) => void;
+  /** Catch-up mode: the family speeds up when behind Rosie and eases off when ahead (0 = off) */
+  catchUpStrength: number;
+  setCatchUpStrength: (catchUpStrength: number) => void;
   // Math problem state
   currentProblem: MathProblem | null;
-  submitMathAnswer: (correct: boolean, timeTaken: number) => void;
+  submitMathAnswer: (
+    correct: boolean,
+    timeTaken: number,
+    choice?: MathChoice,
+    attempts?: number
+  ) => void;
   mathConfig: MathConfig;
   setMathConfig: (config: MathConfig | ((prev: MathConfig) => MathConfig)) => void;
+  // Adaptive difficulty (adjusts maxNumber/numTerms/operation mix from answer history)
+  adaptiveDifficulty: boolean;
+  setAdaptiveDifficulty: (enabled: boolean) => void;
+  adaptiveLevels: Record<Operation, number>;
+  // Per-checkpoint math settings and boosts (null = same settings at every checkpoint)
+  checkpointRamp: CheckpointSettings[] | null;
+  setCheckpointRamp: (ramp: CheckpointSettings[] | null) => void;
+  // Problem packs: the built-in ones plus any loaded from a file
+  problemPacks: ProblemPack[];
+  /** Adds a pack, replacing any pack with the same name */
+  addProblemPack: (pack: ProblemPack) => void;
+  /** Name of the pack asked at checkpoints (null = generated problems only) */
+  activePackName: string | null;
+  setActivePackName: (name: string | null) => void;
+  packUsage: PackUsage;
+  setPackUsage: (usage: PackUsage) => void;
   // Game state for Phase 6
   gameState: GameState;
   countdownValue: number | null;
@@ -52,8 +108,33 @@ export function GameProvider({ children }: GameProviderProps) {
   const [gameVersion, setGameVersion] = useState(0);
   const [currentProblem, setCurrentProblem] = useState<MathProblem | null>(null);
   const [speedScale, setSpeedScale] = useState<number>(SPEED_CONFIG.SPEED_SCALE);
+  const [racePreset, setRacePreset] = useState<RacePresetId>(DEFAULT_RACE_PRESET_ID);
+  const [catchUpStrength, setCatchUpStrength] = useState<number>(
+    AI_CONFIG.DEFAULT_CATCH_UP_STRENGTH
+  );
   const [mathConfig, setMathConfig] = useState<MathConfig>(DEFAULT_MATH_CONFIG);
+  const [adaptiveDifficulty, setAdaptiveDifficultyState] = useState(false);
+  // Built once; the ref holds whichever engine is current after that
+  const [initialAdaptive] = useState(() => new AdaptiveDifficulty(DEFAULT_MATH_CONFIG.maxNumber));
+  const adaptiveRef = useRef<AdaptiveDifficulty>(initialAdaptive);
+  const [adaptiveLevels, setAdaptiveLevels] = useState<Record<Operation, number>>(() =>
+    initialAdaptive.getLevels()
+  );
+  const [checkpointRamp, setCheckpointRamp] = useState<CheckpointSettings[] | null>(null);
+  const [problemPacks, setProblemPacks] = useState<ProblemPack[]>(BUILT_IN_PACKS);
+  const [activePackName, setActivePackName] = useState<string | null>(null);
+  const [packUsage, setPackUsage] = useState<PackUsage>('instead');
   const raceStartTimeRef = useRef<number | null>(null);
+  const [raceSeed, setRaceSeed] = useState<number | null>(null);
+  // Problems are drawn from the race seed so a race can be replayed exactly
+  const problemRandomRef = useRef<RandomSource>(createRandom());
+  // Recent problems, kept across restarts so back-to-back races don't repeat facts
+  const problemHistoryRef = useRef<ProblemHistory>(new ProblemHistory());
+  // The history as each recent race started, so replaying a seed avoids the same problems
+  // as the original race did and gets the same ones
+  const raceStartHistoriesRef = useRef<Map<number, ProblemHistory>>(new Map());
+  // Missed multiplication facts, brought back more often in times-table focus mode
+  const timesTableFactsRef = useRef<TimesTableFacts>(new TimesTableFacts());
   // Phase 6 state
   const [gameState, setGameState] = useState<GameState>('ready');
   const [countdownValue, setCountdownValue] = useState<number | null>(null);
@@ -71,27 +152,84 @@ export function GameProvider({ children }: GameProviderProps) {
     }
   }, []);
 
-  const emitRestart = useCallback(() => {
+  const emitRestart = useCallback((seed?: number) => {
     if (gameRef.current) {
-      gameRef.current.events.emit(GAME_EVENTS.RESTART_RACE);
+      const payload: RestartRacePayload = { seed };
+      gameRef.current.events.emit(GAME_EVENTS.RESTART_RACE, payload);
     }
   }, []);
 
-  const submitMathAnswer = useCallback((correct: boolean, timeTaken: number) => {
-    if (gameRef.current) {
-      const payload: MathAnswerPayload = { correct, timeTaken };
-      gameRef.current.events.emit(GAME_EVENTS.MATH_ANSWER_SUBMITTED, payload);
-    }
-    setCurrentProblem(null);
+  const setAdaptiveDifficulty = useCallback(
+    (enabled: boolean) => {
+      if (enabled) {
+        // Start the ladder from the parent's hand-picked difficulty
+        adaptiveRef.current = new AdaptiveDifficulty(mathConfig.maxNumber);
+        setAdaptiveLevels(adaptiveRef.current.getLevels());
+      }
+      setAdaptiveDifficultyState(enabled);
+    },
+    [mathConfig.maxNumber]
+  );
+
+  const addProblemPack = useCallback((pack: ProblemPack) => {
+    setProblemPacks((prev) => [...prev.filter((existing) => existing.name !== pack.name), pack]);
   }, []);
 
+  const submitMathAnswer = useCallback(
+    (correct: boolean, timeTaken: number, choice?: MathChoice, attempts = 1) => {
+      const payload: MathAnswerPayload = {
+        correct,
+        timeTaken,
+        misconception: choice?.misconception ?? null,
+        value: choice?.value,
+        attempts,
+      };
+      if (gameRef.current) {
+        gameRef.current.events.emit(GAME_EVENTS.MATH_ANSWER_SUBMITTED, payload);
+      }
+      if (
+        currentProblem?.operation === 'multiply' &&
+        hasEquation(currentProblem) &&
+        currentProblem.equation.operands.length === 2
+      ) {
+        const [a, b] = currentProblem.equation.operands;
+        timesTableFactsRef.current.record([a, b], correct && attempts === 1);
+      }
+      // Pack questions have no operation, so they leave difficulty alone
+      if (adaptiveDifficulty && currentProblem?.operation) {
+        // Only a first-try answer counts as correct for difficulty
+        adaptiveRef.current.recordAnswer(currentProblem.operation, {
+          correct: correct && attempts === 1,
+          timeTaken,
+        });
+        setAdaptiveLevels(adaptiveRef.current.getLevels());
+      }
+      setCurrentProblem(null);
+    },
+    [adaptiveDifficulty, currentProblem]
+  );
+
   // Listen for game events
   useEffect(() => {
     const game = gameRef.current;
     if (!game) return;
 
-    const handleRaceStarted = () => {
+    const handleRaceStarted = (payload?: RaceStartedPayload) => {
       raceStartTimeRef.current = performance.now();
+      if (payload) {
+        problemRandomRef.current = createRandom(payload.seed);
+        setRaceSeed(payload.seed);
+        const histories = raceStartHistoriesRef.current;
+        const startHistory = histories.get(payload.seed);
+        if (startHistory) {
+          problemHistoryRef.current = startHistory.clone();
+        } else {
+          histories.set(payload.seed, problemHistoryRef.current.clone());
+          if (histories.size > HISTORY_CONFIG.REPLAY_SEEDS) {
+            histories.delete(histories.keys().next().value!);
+          }
+        }
+      }
       setIsRacing(true);
       setIsFinished(false);
       setFinishTime(null);
@@ -110,6 +248,8 @@ export function GameProvider({ children }: GameProviderProps) {
     };
 
     const handleRestartRace = () => {
+      // Problem history is deliberately kept so the next race avoids recent problems
+      // (a seeded replay goes back to the history its race started with)
       raceStartTimeRef.current = null;
       setIsRacing(false);
       setIsFinished(false);
@@ -120,9 +260,27 @@ export function GameProvider({ children }: GameProviderProps) {
       setRaceResults(null);
     };
 
-    const handleShowMathProblem = () => {
+    const handleShowMathProblem = (payload?: MathProblemPayload) => {
       // Generate a new math problem and show modal
-      const problem = generateProblem(mathConfig);
+      const rng = problemRandomRef.current;
+      const pack = problemPacks.find((candidate) => candidate.name === activePackName);
+      if (pack && shouldUsePack(packUsage, rng)) {
+        setCurrentProblem(generatePackProblem(pack, mathConfig, rng, problemHistoryRef.current));
+        return;
+      }
+      const checkpointConfig =
+        checkpointRamp && payload
+          ? getCheckpointMathConfig(mathConfig, checkpointRamp, payload.checkpointIndex)
+          : mathConfig;
+      const config = adaptiveDifficulty
+        ? adaptiveRef.current.getConfig(checkpointConfig, rng)
+        : checkpointConfig;
+      const problem = generateProblem(
+        config,
+        rng,
+        problemHistoryRef.current,
+        timesTableFactsRef.current
+      );
       setCurrentProblem(problem);
     };
 
@@ -161,12 +319,26 @@ export function GameProvider({ children }: GameProviderProps) {
       game.events.off(GAME_EVENTS.ALL_RACERS_FINISHED, handleAllRacersFinished);
       game.events.off(GAME_EVENTS.RACE_RESULTS_UPDATED, handleRaceResultsUpdated);
     };
-  }, [gameVersion, mathConfig]);
+  }, [
+    gameVersion,
+    mathConfig,
+    adaptiveDifficulty,
+    checkpointRamp,
+    problemPacks,
+    activePackName,
+    packUsage,
+  ]);
 
   useEffect(() => {
     if (!gameRef.current) return;
-    gameRef.current.events.emit(GAME_EVENTS.SETTINGS_UPDATED, { speedScale });
-  }, [gameVersion, speedScale]);
+    const payload: SettingsUpdatedPayload = {
+      speedScale,
+      fastAnswerBoosts: checkpointRamp?.map((settings) => settings.fastAnswerBoost),
+      racePreset,
+      catchUpStrength,
+    };
+    gameRef.current.events.emit(GAME_EVENTS.SETTINGS_UPDATED, payload);
+  }, [gameVersion, speedScale, checkpointRamp, racePreset, catchUpStrength]);
 
   const value: GameContextValue = {
     get game() {
@@ -178,12 +350,28 @@ export function GameProvider({ children }: GameProviderProps) {
     isRacing,
     isFinished,
     finishTime,
+    raceSeed,
     speedScale,
     setSpeedScale,
+    racePreset,
+    setRacePreset,
+    catchUpStrength,
+    setCatchUpStrength,
     currentProblem,
     submitMathAnswer,
     mathConfig,
     setMathConfig,
+    adaptiveDifficulty,
+    setAdaptiveDifficulty,
+    adaptiveLevels,
+    checkpointRamp,
+    setCheckpointRamp,
+    problemPacks,
+    addProblemPack,
+    activePackName,
+    setActivePackName,
+    packUsage,
+    setPackUsage,
     // Phase 6 state
     gameState,
     countdownValue,
@@ -0,0 +1,45 @@
+/**
+ * Countable objects for picture-based math problems
+ * Items are either emoji or family sprites from public/assets
+ */
+
+import { FAMILY_MEMBERS } from './familyMembers';
+
+export interface CountingItem {
+  id: string;
+  name: string; // Singular display name
+  pluralName: string; // Plural display name used in questions
+  emoji?: string; // Emoji to draw (if no image)
+  image?: string; // Image URL in public/ (if no emoji)
+}
+
+/**
+ * Emoji items that read well at small sizes
+ */
+const EMOJI_ITEMS: CountingItem[] = [
+  { id: 'apple', name: 'apple', pluralName: 'apples', emoji: '🍎' },
+  { id: 'star', name: 'star', pluralName: 'stars', emoji: '⭐' },
+  { id: 'balloon', name: 'balloon', pluralName: 'balloons', emoji: '🎈' },
+  { id: 'flower', name: 'flower', pluralName: 'flowers', emoji: '🌸' },
+  { id: 'ladybug', name: 'ladybug', pluralName: 'ladybugs', emoji: '🐞' },
+];
+
+/**
+ * All countable items: emoji plus every family member's sprite
+ */
+export const COUNTING_ITEMS: CountingItem[] = [
+  ...EMOJI_ITEMS,
+  ...FAMILY_MEMBERS.map((member) => ({
+    id: member.id,
+    name: member.name,
+    pluralName: `${member.name}s`,
+    image: `assets/${member.sprite}`,
+  })),
+];
+
+/**
+ * Get a counting item by ID
+ */
+export function getCountingItemById(id: string): CountingItem | undefined {
+  return COUNTING_ITEMS.find((item) => item.id === id);
+}
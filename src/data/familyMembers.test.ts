@@ -1,4 +1,5 @@
 import type { FamilyMember } from './familyMembers';
+import { createRandom } from '../game/systems/Random';
 import {
   FAMILY_MEMBERS,
   getFamilyMemberById,
@@ -184,5 +185,11 @@ describe('familyMembers', () => {
       const uniqueSelections = new Set(selections.map((s) => s.join(',')));
       expect(uniqueSelections.size).toBeGreaterThan(1);
     });
+
+    it('should return the same racers in the same order for the same seed', () => {
+      const first = getRandomRacers(5, createRandom(2024));
+      const second = getRandomRacers(5, createRandom(2024));
+      expect(first.map((r) => r.id)).toEqual(second.map((r) => r.id));
+    });
   });
 });
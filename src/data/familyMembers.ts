@@ -3,6 +3,8 @@
  * Each family member races against Rosie in their own lane
  */
 
+import { createRandom, type RandomSource } from '../game/systems/Random';
+
 /**
  * Speed tuning configuration
  * Adjust SPEED_SCALE to make all racers faster (>1) or slower (<1)
@@ -115,9 +117,13 @@ export function getFamilyMemberIds(): string[] {
 /**
  * Get a random selection of family members for a race
  * @param count Number of racers to select (default 5 for lanes 2-6)
+ * @param rng Random source (pass a seeded one to reproduce a roster)
  * @returns Array of randomly selected family members
  */
-export function getRandomRacers(count: number = 5): FamilyMember[] {
-  const shuffled = [...FAMILY_MEMBERS].sort(() => Math.random() - 0.5);
+export function getRandomRacers(
+  count: number = 5,
+  rng: RandomSource = createRandom()
+): FamilyMember[] {
+  const shuffled = rng.shuffle(FAMILY_MEMBERS);
   return shuffled.slice(0, Math.min(count, FAMILY_MEMBERS.length));
 }
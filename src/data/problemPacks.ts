@@ -0,0 +1,42 @@
+/**
+ * Problem packs that come with the game
+ * These double as examples of the pack format for anyone writing their own.
+ */
+
+import type { ProblemPack } from '../game/systems/ProblemPacks';
+
+export const FAMILY_PACK: ProblemPack = {
+  name: 'Family questions',
+  description: 'Counting questions about the family',
+  questions: [
+    {
+      question: 'How many legs does Lalo have?',
+      answer: 4,
+      choices: [2, 4, 6, 8],
+      image: 'assets/lalo-sprite.png',
+    },
+    {
+      question: 'How many ears does Lalo have?',
+      answer: 2,
+      choices: [1, 2, 3, 4],
+      image: 'assets/lalo-sprite.png',
+    },
+    {
+      question: 'How many fingers does Grandpa have on one hand?',
+      answer: 5,
+      choices: [4, 5, 6, 10],
+    },
+    {
+      question: 'How many wheels does a bike have?',
+      answer: 2,
+      choices: [2, 3, 4],
+    },
+    {
+      question: 'How many days are in a week?',
+      answer: 7,
+      choices: [5, 6, 7, 10],
+    },
+  ],
+};
+
+export const BUILT_IN_PACKS: ProblemPack[] = [FAMILY_PACK];
@@ -1,3 +1,6 @@
+import type { Misconception } from './systems/MathGenerator';
+import type { RacePresetId } from './systems/RacePresets';
+
 /**
  * Game state types for race flow
  */
@@ -64,6 +67,22 @@ export interface RaceResultsUpdatedPayload {
   allFinished: boolean;
 }
 
+/**
+ * Payload for race started events
+ * The seed drives racer selection, AI speed changes and math problems for this race
+ */
+export interface RaceStartedPayload {
+  seed: number;
+}
+
+/**
+ * Payload for race restart requests
+ * Pass a seed to replay a specific race, or omit it for a fresh random race
+ */
+export interface RestartRacePayload {
+  seed?: number;
+}
+
 /**
  * Payload for math problem events
  */
@@ -77,6 +96,9 @@ export interface MathProblemPayload {
 export interface MathAnswerPayload {
   correct: boolean;
   timeTaken: number; // in milliseconds
+  misconception?: Misconception | null; // Mistake the chosen wrong answer represents, if known
+  value?: number; // The answer that was tapped or typed
+  attempts?: number; // Tries it took in retry mode (1 when omitted)
 }
 
 /**
@@ -84,4 +106,7 @@ export interface MathAnswerPayload {
  */
 export interface SettingsUpdatedPayload {
   speedScale: number;
+  fastAnswerBoosts?: number[]; // Per-checkpoint fast answer boost (default boost if omitted)
+  racePreset?: RacePresetId; // Track length, checkpoints and AI speed (Classic if omitted)
+  catchUpStrength?: number; // How hard the family paces themselves against Rosie, 0-1 (off if omitted)
 }
@@ -473,6 +473,213 @@ describe('RaceScene', () => {
     });
   });
 
+  describe('race seed', () => {
+    const getRestartHandler = (scene: RaceScene) => {
+      const onCalls = (scene.game.events.on as jest.Mock).mock.calls;
+      const restartCall = onCalls.find((call: unknown[]) => call[0] === 'restartRace');
+      return restartCall?.[1] as (payload?: { seed?: number }) => void;
+    };
+
+    it('replays the same roster and speeds when restarted with a seed', () => {
+      const { scene } = setupTest();
+      const handleRestart = getRestartHandler(scene);
+
+      handleRestart({ seed: 777 });
+      const firstRacers = scene.getSelectedRacers().map((r) => r.id);
+      const firstSpeeds = scene.getCompetitors().map((c) => c.speed);
+
+      handleRestart({ seed: 777 });
+      expect(scene.getRaceSeed()).toBe(777);
+      expect(scene.getSelectedRacers().map((r) => r.id)).toEqual(firstRacers);
+      expect(scene.getCompetitors().map((c) => c.speed)).toEqual(firstSpeeds);
+    });
+
+    it('picks a fresh seed when restarted without one', () => {
+      const { scene } = setupTest();
+      const handleRestart = getRestartHandler(scene);
+
+      handleRestart({ seed: 777 });
+      // Fresh seeds come from Math.random
+      const random = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      handleRestart();
+      random.mockRestore();
+
+      expect(scene.getRaceSeed()).not.toBe(777);
+      expect(scene.getRaceSeed()).toBe(0x80000000);
+    });
+  });
+
+  describe('checkpoint boosts', () => {
+    const getHandler = <T>(scene: RaceScene, event: string) => {
+      const onCalls = (scene.game.events.on as jest.Mock).mock.calls;
+      return onCalls.find((call: unknown[]) => call[0] === event)?.[1] as (payload: T) => void;
+    };
+
+    const answerAtCheckpoint = (
+      scene: RaceScene,
+      index: number,
+      timeTaken: number,
+      attempts?: number
+    ) => {
+      // Run Rosie up to the checkpoint, getting past any before it
+      const simulation = scene.getSimulation()!;
+      simulation.start();
+      for (let step = 0; step < 1000; step++) {
+        const { activeCheckpointIndex } = simulation.getSnapshot();
+        if (activeCheckpointIndex === index) break;
+        if (activeCheckpointIndex !== null) simulation.answer({ correct: false, timeTaken: 0 });
+        simulation.tap();
+        simulation.step(100);
+      }
+      expect(simulation.getSnapshot().activeCheckpointIndex).toBe(index);
+      getHandler<{ correct: boolean; timeTaken: number; attempts?: number }>(
+        scene,
+        'mathAnswerSubmitted'
+      )({
+        correct: true,
+        timeTaken,
+        attempts,
+      });
+    };
+
+    it('uses the default fast answer boost without checkpoint settings', () => {
+      const { scene } = setupTest();
+      answerAtCheckpoint(scene, 0, 1000);
+      expect(scene.getVelocity()).toBe(CHECKPOINT_CONFIG.FAST_ANSWER_BOOST);
+    });
+
+    it('uses the boost for the checkpoint that was answered', () => {
+      const { scene } = setupTest();
+      getHandler<{ speedScale: number; fastAnswerBoosts: number[] }>(
+        scene,
+        'settingsUpdated'
+      )({
+        speedScale: 1,
+        fastAnswerBoosts: [40, 90],
+      });
+
+      answerAtCheckpoint(scene, 0, 1000);
+      expect(scene.getVelocity()).toBe(40);
+
+      answerAtCheckpoint(scene, 1, 1000);
+      expect(scene.getVelocity()).toBe(90);
+    });
+
+    it('keeps the slow answer boost for slow answers', () => {
+      const { scene } = setupTest();
+      getHandler<{ speedScale: number; fastAnswerBoosts: number[] }>(
+        scene,
+        'settingsUpdated'
+      )({
+        speedScale: 1,
+        fastAnswerBoosts: [40, 90],
+      });
+
+      answerAtCheckpoint(scene, 1, CHECKPOINT_CONFIG.FAST_ANSWER_THRESHOLD + 1);
+      expect(scene.getVelocity()).toBe(CHECKPOINT_CONFIG.SLOW_ANSWER_BOOST);
+    });
+
+    it('shares the boost out over the tries it took', () => {
+      const { scene } = setupTest();
+      answerAtCheckpoint(scene, 0, 1000, 2);
+      expect(scene.getVelocity()).toBe(CHECKPOINT_CONFIG.FAST_ANSWER_BOOST / 2);
+    });
+  });
+
+  describe('catch-up mode', () => {
+    it('passes the strength from settings to this race and the next', () => {
+      const { scene } = setupTest();
+      const onCalls = (scene.game.events.on as jest.Mock).mock.calls;
+      const handleSettings = onCalls.find(
+        (call: unknown[]) => call[0] === 'settingsUpdated'
+      )?.[1] as (payload: unknown) => void;
+      const handleRestart = onCalls.find(
+        (call: unknown[]) => call[0] === 'restartRace'
+      )?.[1] as () => void;
+
+      handleSettings({ speedScale: 1, catchUpStrength: 0.6 });
+      expect(scene.getSimulation()!.getCatchUpStrength()).toBe(0.6);
+
+      handleRestart();
+      expect(scene.getSimulation()!.getCatchUpStrength()).toBe(0.6);
+    });
+  });
+
+  describe('race presets', () => {
+    const updateSettings = (scene: RaceScene, racePreset: string) => {
+      const onCalls = (scene.game.events.on as jest.Mock).mock.calls;
+      const handler = onCalls.find((call: unknown[]) => call[0] === 'settingsUpdated')?.[1] as (
+        payload: unknown
+      ) => void;
+      handler({ speedScale: 1, racePreset });
+    };
+    const countQuestionMarks = (scene: RaceScene) =>
+      (scene.add.text as jest.Mock).mock.calls.filter((call: unknown[]) => call[2] === '?').length;
+
+    it('moves the checkpoints for a new preset before the race starts', () => {
+      const { scene } = setupTest();
+
+      updateSettings(scene, 'marathon');
+
+      expect(scene.getPassedCheckpoints()).toEqual([false, false, false, false]);
+      // Classic arches, then Marathon's
+      expect(countQuestionMarks(scene)).toBe(2 + 4);
+    });
+
+    it('has no checkpoints in a sprint', () => {
+      const { scene } = setupTest();
+
+      updateSettings(scene, 'sprint');
+
+      expect(scene.getPassedCheckpoints()).toEqual([]);
+    });
+
+    it('waits for the restart when the preset changes mid-race', () => {
+      const { scene } = setupTest();
+      (scene as unknown as { gameState: string }).gameState = 'racing';
+
+      updateSettings(scene, 'marathon');
+      expect(scene.getPassedCheckpoints()).toHaveLength(2);
+
+      const onCalls = (scene.game.events.on as jest.Mock).mock.calls;
+      const handleRestart = onCalls.find(
+        (call: unknown[]) => call[0] === 'restartRace'
+      )?.[1] as (payload?: { seed?: number }) => void;
+      handleRestart();
+      expect(scene.getPassedCheckpoints()).toHaveLength(4);
+    });
+
+    it('draws racers where the simulation has them', () => {
+      const { scene } = setupTest();
+      updateSettings(scene, 'marathon');
+      (scene as unknown as { gameState: string }).gameState = 'racing';
+      scene.getSimulation()!.start();
+      const onCalls = (scene.game.events.on as jest.Mock).mock.calls;
+      const handleTap = onCalls.find((call: unknown[]) => call[0] === 'tap')?.[1] as () => void;
+
+      handleTap();
+      scene.update(0, 1000);
+
+      const snapshot = scene.getSimulation()!.getSnapshot();
+      expect(snapshot.rosie.x).toBeGreaterThan(TRACK_CONFIG.ROSIE_START_RATIO * 1024);
+      expect(scene.getRosie()!.x).toBe(snapshot.rosie.x);
+      scene.getCompetitors().forEach((competitor, index) => {
+        expect(competitor.sprite.x).toBe(snapshot.competitors[index].x);
+      });
+    });
+
+    it('takes one snapshot of the simulation per frame', () => {
+      const { scene } = setupTest();
+      (scene as unknown as { gameState: string }).gameState = 'racing';
+      scene.getSimulation()!.start();
+      const getSnapshot = jest.spyOn(scene.getSimulation()!, 'getSnapshot');
+
+      scene.update(0, 16);
+
+      expect(getSnapshot).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('getRacePositions', () => {
     it('returns empty array before create is called', () => {
       const scene = new RaceScene();
@@ -3,51 +3,65 @@ import { GAME_EVENTS } from '../events';
 import type {
   MathAnswerPayload,
   GameState,
-  RacerResult,
   RaceResultsUpdatedPayload,
+  RaceStartedPayload,
+  RestartRacePayload,
   SettingsUpdatedPayload,
 } from '../events';
-// Assets in public/ - use relative path for correct base URL resolution
-const rosieSpriteUrl = 'assets/rosie-sprite.png';
 import { AudioManager, AUDIO_KEYS } from '../systems/AudioManager';
+import { createRandom, type RandomSource } from '../systems/Random';
+import {
+  getCheckpointRatios,
+  getRacePreset,
+  DEFAULT_RACE_PRESET_ID,
+  type RacePreset,
+} from '../systems/RacePresets';
+import {
+  RaceSimulation,
+  AI_CONFIG,
+  ANSWER_BOOST_CONFIG,
+  ROSIE_RACER,
+  TRACK_LAYOUT_RATIOS,
+  type CompetitorState,
+  type RaceEvent,
+  type RaceSnapshot,
+} from '../systems/RaceSimulation';
 import {
   getRandomRacers,
-  getMinSpeed,
-  getMaxSpeed,
   FAMILY_MEMBERS,
   SPEED_CONFIG,
   type FamilyMember,
 } from '../../data/familyMembers';
 
+// Movement and AI tuning live with the simulation
+export { MOVEMENT_CONFIG, AI_CONFIG } from '../systems/RaceSimulation';
+
+// Assets in public/ - use relative path for correct base URL resolution
+const rosieSpriteUrl = ROSIE_RACER.avatar;
+
 /**
- * Competitor state for AI racers
+ * Competitor state for AI racers, with the sprite drawing them
  */
-interface Competitor {
+interface Competitor extends CompetitorState {
   sprite: Phaser.GameObjects.Sprite;
-  familyMember: FamilyMember;
-  speed: number; // Current speed (pixels per second)
   baseY: number; // Base Y position for bobbing animation
-  lastSpeedChangeTime: number; // Time when speed was last varied (ms)
-  finishTime: number | null; // Time when crossed finish line (ms since race start)
-  finishPosition: number | null; // Position when finished (1st, 2nd, etc.)
 }
 
 // Constants for track layout
 export const TRACK_CONFIG = {
   LANE_COUNT: 6,
   // Position ratios (percentage of canvas width)
-  START_LINE_RATIO: 0.065, //  from left
-  FINISH_LINE_RATIO: 0.85, // from left -  leaves space for TAP button overlay
-  ROSIE_START_RATIO: 0.03, // from left
+  ...TRACK_LAYOUT_RATIOS,
   ROSIE_RADIUS: 44, // Size for mobile sprites (2x for high-DPI displays)
-  ROSIE_COLOR: 0xff69b4, // Pink
+  ROSIE_COLOR: ROSIE_RACER.color, // Pink
 };
 
 // Constants for checkpoints
 // Positions are calculated dynamically as fractions of track length (between start and finish)
 export const CHECKPOINT_CONFIG = {
-  // Checkpoint positions as ratios of track length (0 = start line, 1 = finish line)
-  POSITION_RATIOS: [1 / 3, 2 / 3], // 1/3 and 2/3 of the way through the track
+  // Classic race checkpoint positions as ratios of track length (0 = start line, 1 = finish line);
+  // the race preset picked in settings decides the actual positions
+  POSITION_RATIOS: getCheckpointRatios(getRacePreset(DEFAULT_RACE_PRESET_ID)), // 1/3 and 2/3
   ARCH_HEIGHT: 60, // Height of the checkpoint arch
   ARCH_WIDTH: 30, // Width of the arch
   COLORS: {
@@ -56,16 +70,7 @@ export const CHECKPOINT_CONFIG = {
     QUESTION_MARK: 0xffff00, // Yellow
   },
   // Velocity boosts for correct answers
-  FAST_ANSWER_THRESHOLD: 3000, // 3 seconds in ms
-  FAST_ANSWER_BOOST: 50,
-  SLOW_ANSWER_BOOST: 20,
-};
-
-// Constants for movement physics
-export const MOVEMENT_CONFIG = {
-  TAP_VELOCITY_BOOST: 15, // Velocity added per tap
-  MAX_VELOCITY: 300, // Maximum velocity cap
-  FRICTION: 0.98, // Velocity multiplier per frame (decay)
+  ...ANSWER_BOOST_CONFIG,
 };
 
 // Constants for animation
@@ -77,12 +82,6 @@ export const ANIMATION_CONFIG = {
   SCALE_PULSE_AMOUNT: 0.05, // How much the scale changes
 };
 
-// Constants for AI competitor behavior
-export const AI_CONFIG = {
-  SPEED_VARIATION_INTERVAL: 2000, // Time between speed changes (ms)
-  SPEED_VARIATION_AMOUNT: 5, // Max speed change per variation (+/-)
-};
-
 // Constants for countdown
 export const COUNTDOWN_CONFIG = {
   START_COUNT: 3, // Start from 3
@@ -140,34 +139,31 @@ export class RaceScene extends Phaser.Scene {
   private startLineX: number = 0;
   private finishLineX: number = 0;
   private rosieStartX: number = 0;
-  private checkpointPositions: number[] = [];
 
-  // Game state
+  // Game state (the simulation runs the race; the scene adds the countdown)
   private gameState: GameState = 'ready';
-  private raceStartTime: number = 0; // Time when racing started (for finish time calculation)
-
-  // Movement state
-  private velocity: number = 0;
-  private hasStarted: boolean = false;
-  private hasFinished: boolean = false;
-
-  // Rosie finish tracking
-  private rosieFinishTime: number | null = null;
-  private rosieFinishPosition: number | null = null;
-  private nextFinishPosition: number = 1; // Next position to assign
+  private simulation: RaceSimulation | null = null;
 
   // Animation state
   private rosieBaseY: number = 0; // Base Y position for bobbing animation
   private rosieBaseScale: number = 1; // Base scale for the sprite
 
   // Checkpoint state
-  private isPaused: boolean = false; // Whether Rosie is paused at a checkpoint
-  private passedCheckpoints: boolean[] = []; // Track which checkpoints have been passed
+  private fastAnswerBoosts: number[] = []; // Per-checkpoint fast answer boosts from settings
+  private checkpointObjects: Phaser.GameObjects.GameObject[] = []; // Arches, redrawn per preset
+
+  // Race preset (track length, checkpoints, AI speed); a change mid-race waits for the restart
+  private racePreset: RacePreset = getRacePreset(DEFAULT_RACE_PRESET_ID);
+  private pendingRacePreset: RacePreset | null = null;
 
   // Competitor state
-  private competitors: Competitor[] = [];
+  private competitorSprites: Phaser.GameObjects.Sprite[] = [];
   private selectedRacers: FamilyMember[] = [];
   private speedScale: number = SPEED_CONFIG.SPEED_SCALE;
+  private catchUpStrength: number = AI_CONFIG.DEFAULT_CATCH_UP_STRENGTH;
+
+  // Seeded random source for this race (roster and AI speed changes)
+  private rng: RandomSource = createRandom();
 
   // UI elements
   private laneNameLabels: Phaser.GameObjects.Text[] = [];
@@ -202,7 +198,8 @@ export class RaceScene extends Phaser.Scene {
     });
 
     // Select random racers for this race
-    this.selectedRacers = getRandomRacers(5);
+    this.rng = createRandom();
+    this.selectedRacers = getRandomRacers(5, this.rng);
   }
 
   create(): void {
@@ -216,19 +213,13 @@ export class RaceScene extends Phaser.Scene {
     this.startLineX = this.scale.width * TRACK_CONFIG.START_LINE_RATIO;
     this.finishLineX = this.scale.width * TRACK_CONFIG.FINISH_LINE_RATIO;
     this.rosieStartX = this.scale.width * TRACK_CONFIG.ROSIE_START_RATIO;
-    const trackLength = this.finishLineX - this.startLineX;
-    // Calculate checkpoint positions using config ratios
-    this.checkpointPositions = CHECKPOINT_CONFIG.POSITION_RATIOS.map(
-      (ratio) => this.startLineX + trackLength * ratio
-    );
+    // Set up the race itself (checkpoints, competitor speeds)
+    this.createSimulation();
 
     // Calculate lane dimensions
     this.laneHeight = this.scale.height / TRACK_CONFIG.LANE_COUNT;
     this.calculateLanePositions();
 
-    // Initialize checkpoint state
-    this.passedCheckpoints = this.checkpointPositions.map(() => false);
-
     // Set world bounds to match camera (fixed viewport)
     this.physics.world.setBounds(0, 0, this.scale.width, this.scale.height);
 
@@ -274,50 +265,53 @@ export class RaceScene extends Phaser.Scene {
 
   update(time: number, delta: number): void {
     // Only process updates during racing or paused (checkpoint) states
+    if (!this.simulation) return;
     if (this.gameState !== 'racing' && this.gameState !== 'paused') return;
 
-    const deltaSeconds = delta / 1000;
-
-    // Update AI competitors (they move even when Rosie is paused at checkpoint)
-    this.updateCompetitors(time, deltaSeconds);
+    // AI competitors move even when Rosie is paused at checkpoint
+    const events = this.simulation.step(delta);
+    const snapshot = this.simulation.getSnapshot();
+    // She finished in an earlier step unless this one just brought her over the line
+    const rosieWasFinished =
+      snapshot.rosie.finishTime !== null &&
+      !events.some((event) => event.type === 'rosie-finished');
+
+    // Move sprites to where the simulation has everyone
+    if (this.rosie) this.rosie.x = snapshot.rosie.x;
+    this.competitorSprites.forEach((sprite, index) => {
+      sprite.x = snapshot.competitors[index].x;
+    });
 
-    // Check for AI competitors crossing finish line
-    this.checkCompetitorFinishes();
+    this.handleRaceEvents(events, rosieWasFinished);
 
-    if (this.isPaused) return; // Don't move Rosie while paused at checkpoint
+    // Apply bobbing animation when moving
+    this.updateRosieAnimation(time, snapshot.rosie.velocity);
 
-    // Apply friction (momentum decay)
-    this.velocity *= MOVEMENT_CONFIG.FRICTION;
+    // Update lead indicator to show current positions
+    this.updateLeadIndicator(snapshot);
+  }
 
-    // Clamp very small velocities to 0 to prevent eternal drift
-    if (Math.abs(this.velocity) < 0.1) {
-      this.velocity = 0;
+  /**
+   * Tell React about what happened in a simulation step
+   */
+  private handleRaceEvents(events: RaceEvent[], rosieWasFinished: boolean): void {
+    // Once Rosie is done, each competitor finishing updates the results screen
+    if (rosieWasFinished && events.some((event) => event.type === 'racer-finished')) {
+      this.emitRaceResultsUpdate();
     }
 
-    // Move Rosie based on velocity (delta-time independent)
-    if (this.rosie && this.velocity > 0) {
-      this.rosie.x += this.velocity * deltaSeconds;
-
-      // Clamp position to track bounds (allow starting from left of start line)
-      this.rosie.x = Phaser.Math.Clamp(this.rosie.x, this.rosieStartX, this.finishLineX);
-
-      // Check for checkpoints
-      this.checkForCheckpoint();
-
-      // Check for finish line
-      if (this.rosie.x >= this.finishLineX && this.rosieFinishTime === null) {
+    events.forEach((event) => {
+      if (event.type === 'checkpoint') {
+        // Show the math problem; Rosie waits until it's answered
+        this.game.events.emit(GAME_EVENTS.SHOW_MATH_PROBLEM, {
+          checkpointIndex: event.checkpointIndex,
+        });
+      } else if (event.type === 'rosie-finished') {
         this.handleRosieFinish();
+      } else if (event.type === 'all-finished') {
+        this.handleAllRacersFinished();
       }
-    }
-
-    // Apply bobbing animation when moving
-    this.updateRosieAnimation(time);
-
-    // Update lead indicator to show current positions
-    this.updateLeadIndicator();
-
-    // Check if all racers have finished
-    this.checkAllRacersFinished();
+    });
   }
 
   private handleResize = (gameSize: Phaser.Structs.Size): void => {
@@ -375,48 +369,64 @@ export class RaceScene extends Phaser.Scene {
       return;
     }
 
-    // In finished state, ignore taps
-    if (this.gameState === 'finished' || this.hasFinished) {
-      return;
-    }
-
-    // During racing but paused at checkpoint, ignore taps
-    if (this.isPaused) {
-      return;
-    }
-
-    // In 'racing' state, handle normal tap movement
-    if (this.gameState === 'racing') {
-      // Add velocity boost
-      this.velocity += MOVEMENT_CONFIG.TAP_VELOCITY_BOOST;
-
-      // Cap at maximum velocity
-      this.velocity = Math.min(this.velocity, MOVEMENT_CONFIG.MAX_VELOCITY);
-    }
+    // While racing, the simulation boosts Rosie (ignored at checkpoints and after she finishes)
+    this.simulation?.tap();
   };
 
   private handleSettingsUpdated = (payload: SettingsUpdatedPayload): void => {
     this.speedScale = payload.speedScale;
-    this.competitors.forEach((competitor) => {
-      competitor.speed = Phaser.Math.Clamp(
-        competitor.speed,
-        getMinSpeed(competitor.familyMember, this.speedScale),
-        getMaxSpeed(competitor.familyMember, this.speedScale)
-      );
-    });
+    this.fastAnswerBoosts = payload.fastAnswerBoosts ?? [];
+    this.catchUpStrength = payload.catchUpStrength ?? AI_CONFIG.DEFAULT_CATCH_UP_STRENGTH;
+    this.simulation?.setSpeedScale(this.speedScale);
+    this.simulation?.setFastAnswerBoosts(this.fastAnswerBoosts);
+    this.simulation?.setCatchUpStrength(this.catchUpStrength);
+
+    const preset = getRacePreset(payload.racePreset);
+    if (preset.id !== this.racePreset.id) {
+      // Only change the track before the race starts; otherwise wait for the restart
+      if (this.gameState === 'ready') {
+        this.applyRacePreset(preset);
+      } else {
+        this.pendingRacePreset = preset;
+      }
+    } else {
+      this.pendingRacePreset = null;
+    }
   };
 
+  /**
+   * Switch to a race preset: move the checkpoints and redraw them
+   */
+  private applyRacePreset(preset: RacePreset): void {
+    this.racePreset = preset;
+    this.pendingRacePreset = null;
+    this.simulation?.setPreset(preset);
+    this.drawCheckpoints();
+  }
+
+  /**
+   * Start a new race simulation on this track with the current racers and settings
+   */
+  private createSimulation(): void {
+    this.simulation = new RaceSimulation({
+      layout: {
+        startX: this.startLineX,
+        finishX: this.finishLineX,
+        rosieStartX: this.rosieStartX,
+      },
+      racers: this.selectedRacers,
+      rng: this.rng,
+      speedScale: this.speedScale,
+      preset: this.racePreset,
+      fastAnswerBoosts: this.fastAnswerBoosts,
+      catchUpStrength: this.catchUpStrength,
+    });
+  }
+
   /**
    * Handle Rosie crossing the finish line
    */
   private handleRosieFinish(): void {
-    // Record Rosie's finish time and position
-    this.rosieFinishTime = performance.now() - this.raceStartTime;
-    this.rosieFinishPosition = this.nextFinishPosition;
-    this.nextFinishPosition++;
-    this.hasFinished = true;
-    this.velocity = 0;
-
     // Stop race music and play finish celebration sound
     const audioManager = AudioManager.getInstance();
     audioManager.stopMusic(true); // Stop race music immediately when Rosie finishes
@@ -432,20 +442,19 @@ export class RaceScene extends Phaser.Scene {
   /**
    * Handle race restart
    */
-  private handleRestart = (): void => {
+  private handleRestart = (payload?: RestartRacePayload): void => {
+    // Start a new random sequence (or replay a requested seed)
+    this.rng = createRandom(payload?.seed);
+
+    // Switch to a preset picked during the last race
+    const presetChanged = this.pendingRacePreset !== null;
+    if (this.pendingRacePreset) {
+      this.racePreset = this.pendingRacePreset;
+      this.pendingRacePreset = null;
+    }
+
     // Reset game state
     this.gameState = 'ready';
-    this.hasStarted = false;
-    this.hasFinished = false;
-    this.velocity = 0;
-    this.isPaused = false;
-    this.passedCheckpoints = this.checkpointPositions.map(() => false);
-    this.raceStartTime = 0;
-
-    // Reset finish tracking
-    this.rosieFinishTime = null;
-    this.rosieFinishPosition = null;
-    this.nextFinishPosition = 1;
 
     // Cancel any running countdown
     if (this.countdownTimer) {
@@ -462,8 +471,11 @@ export class RaceScene extends Phaser.Scene {
       this.rosie.setScale(this.rosieBaseScale);
     }
 
-    // Reset competitors and select new random racers
+    // Reset competitors and select new random racers (a fresh simulation for the new race)
     this.resetCompetitors();
+    if (presetChanged) {
+      this.drawCheckpoints();
+    }
 
     // Hide countdown text
     if (this.countdownText) {
@@ -474,49 +486,16 @@ export class RaceScene extends Phaser.Scene {
     this.emitGameState();
   };
 
-  /**
-   * Check if Rosie has reached a checkpoint
-   */
-  private checkForCheckpoint(): void {
-    if (!this.rosie) return;
-
-    this.checkpointPositions.forEach((checkpointX, index) => {
-      // Check if Rosie has just crossed this checkpoint
-      if (!this.passedCheckpoints[index] && this.rosie!.x >= checkpointX) {
-        this.passedCheckpoints[index] = true;
-        this.isPaused = true;
-        this.velocity = 0; // Stop momentum while paused
-
-        // Emit event to show math problem
-        this.game.events.emit(GAME_EVENTS.SHOW_MATH_PROBLEM, { checkpointIndex: index });
-      }
-    });
-  }
-
   /**
    * Handle math answer submission from React
    */
   private handleMathAnswer = (payload: MathAnswerPayload): void => {
-    // Resume the race
-    this.isPaused = false;
-
-    const audioManager = AudioManager.getInstance();
-
-    if (payload.correct) {
-      // Play correct answer sound
-      audioManager.playSFX(AUDIO_KEYS.CORRECT);
+    // Resume the race, boosting Rosie for a right answer
+    this.simulation?.answer(payload);
 
-      // Apply velocity boost based on answer speed
-      if (payload.timeTaken < CHECKPOINT_CONFIG.FAST_ANSWER_THRESHOLD) {
-        this.velocity = CHECKPOINT_CONFIG.FAST_ANSWER_BOOST;
-      } else {
-        this.velocity = CHECKPOINT_CONFIG.SLOW_ANSWER_BOOST;
-      }
-    } else {
-      // Play wrong answer sound
-      audioManager.playSFX(AUDIO_KEYS.WRONG);
-    }
     // Wrong answers: no boost, just resume (stumble delay handled in React)
+    const audioManager = AudioManager.getInstance();
+    audioManager.playSFX(payload.correct ? AUDIO_KEYS.CORRECT : AUDIO_KEYS.WRONG);
   };
 
   /**
@@ -678,10 +657,14 @@ export class RaceScene extends Phaser.Scene {
    * Draw checkpoint markers (arches with ? symbols)
    */
   private drawCheckpoints(): void {
+    // Clear arches from a previous preset
+    this.checkpointObjects.forEach((object) => object.destroy());
     const graphics = this.add.graphics();
+    this.checkpointObjects = [graphics];
     const skyHeight = this.scale.height * 0.2;
+    const checkpointPositions = this.simulation?.getSnapshot().checkpointPositions ?? [];
 
-    this.checkpointPositions.forEach((checkpointX) => {
+    checkpointPositions.forEach((checkpointX) => {
       // Draw arch poles (vertical red/white striped banners)
       const poleWidth = 8;
       const stripeHeight = 15;
@@ -714,13 +697,14 @@ export class RaceScene extends Phaser.Scene {
       );
 
       // Add "?" symbol on the arch
-      this.add
+      const questionMark = this.add
         .text(checkpointX, archCenterY, '?', {
           fontSize: '24px',
           color: '#ffff00',
           fontStyle: 'bold',
         })
         .setOrigin(0.5, 0.5);
+      this.checkpointObjects.push(questionMark);
     });
   }
 
@@ -809,7 +793,7 @@ export class RaceScene extends Phaser.Scene {
    * Create AI competitor sprites in lanes 2-6
    */
   private createCompetitors(): void {
-    this.competitors = [];
+    this.competitorSprites = [];
 
     // Create 5 competitors in lanes 2-6 (indices 1-5)
     this.selectedRacers.forEach((familyMember, index) => {
@@ -829,66 +813,7 @@ export class RaceScene extends Phaser.Scene {
       // Render on top of lane labels (depth 10)
       sprite.setDepth(15);
 
-      // Assign random speed within the family member's range (using scaled speeds)
-      const speed = Phaser.Math.FloatBetween(
-        getMinSpeed(familyMember, this.speedScale),
-        getMaxSpeed(familyMember, this.speedScale)
-      );
-
-      this.competitors.push({
-        sprite,
-        familyMember,
-        speed,
-        baseY,
-        lastSpeedChangeTime: 0, // Will be set when race starts
-        finishTime: null,
-        finishPosition: null,
-      });
-    });
-  }
-
-  /**
-   * Update AI competitors' movement with realistic speed variations
-   * AI competitors don't stop for checkpoints - they race continuously
-   */
-  private updateCompetitors(time: number, deltaSeconds: number): void {
-    this.competitors.forEach((competitor) => {
-      // Skip if this competitor has already finished
-      if (competitor.finishTime !== null) return;
-
-      // Initialize lastSpeedChangeTime on first update
-      if (competitor.lastSpeedChangeTime === 0) {
-        competitor.lastSpeedChangeTime = time;
-      }
-
-      // Apply speed variation every SPEED_VARIATION_INTERVAL ms for realism
-      if (time - competitor.lastSpeedChangeTime >= AI_CONFIG.SPEED_VARIATION_INTERVAL) {
-        competitor.lastSpeedChangeTime = time;
-
-        // Add random speed fluctuation
-        const variation = Phaser.Math.FloatBetween(
-          -AI_CONFIG.SPEED_VARIATION_AMOUNT,
-          AI_CONFIG.SPEED_VARIATION_AMOUNT
-        );
-        competitor.speed += variation;
-
-        // Clamp speed within the family member's min/max bounds (using scaled speeds)
-        competitor.speed = Phaser.Math.Clamp(
-          competitor.speed,
-          getMinSpeed(competitor.familyMember, this.speedScale),
-          getMaxSpeed(competitor.familyMember, this.speedScale)
-        );
-      }
-
-      // Move at current speed
-      competitor.sprite.x += competitor.speed * deltaSeconds;
-
-      // Clamp to track bounds (allow starting from left of start line)
-      competitor.sprite.x = Phaser.Math.Clamp(
-        competitor.sprite.x,
-        this.rosieStartX,
-        this.finishLineX
-      );
+      this.competitorSprites.push(sprite);
     });
   }
 
@@ -897,13 +822,12 @@ export class RaceScene extends Phaser.Scene {
    */
   private resetCompetitors(): void {
     // Destroy existing competitor sprites
-    this.competitors.forEach((competitor) => {
-      competitor.sprite.destroy();
-    });
-    this.competitors = [];
+    this.competitorSprites.forEach((sprite) => sprite.destroy());
+    this.competitorSprites = [];
 
-    // Select new random racers
-    this.selectedRacers = getRandomRacers(5);
+    // Select new random racers, then set their speeds in a new simulation
+    this.selectedRacers = getRandomRacers(5, this.rng);
+    this.createSimulation();
 
     // Recreate competitors
     this.createCompetitors();
@@ -984,27 +908,15 @@ export class RaceScene extends Phaser.Scene {
   /**
    * Update the lead indicator to show the current leader
    */
-  private updateLeadIndicator(): void {
+  private updateLeadIndicator(snapshot: RaceSnapshot): void {
     if (!this.leadIndicator || !this.rosie) return;
-    if (!this.hasStarted) {
+    if (snapshot.phase === 'ready') {
       this.leadIndicator.setText('1st: -');
       return;
     }
 
-    // Get all racers with their positions
-    const racers: { name: string; x: number }[] = [
-      { name: 'Rosie', x: this.rosie.x },
-      ...this.competitors.map((c) => ({
-        name: c.familyMember.name,
-        x: c.sprite.x,
-      })),
-    ];
-
-    // Sort by x position (descending - furthest ahead is first)
-    racers.sort((a, b) => b.x - a.x);
-
     // Update the lead indicator with the leader's name
-    const leader = racers[0];
+    const leader = snapshot.positions[0];
     this.leadIndicator.setText(`1st: ${leader.name}`);
   }
 
@@ -1013,36 +925,19 @@ export class RaceScene extends Phaser.Scene {
    * Returns array sorted by position (1st place first)
    */
   getRacePositions(): { name: string; x: number; position: number }[] {
-    if (!this.rosie) return [];
-
-    const racers: { name: string; x: number }[] = [
-      { name: 'Rosie', x: this.rosie.x },
-      ...this.competitors.map((c) => ({
-        name: c.familyMember.name,
-        x: c.sprite.x,
-      })),
-    ];
-
-    // Sort by x position (descending - furthest ahead is first)
-    racers.sort((a, b) => b.x - a.x);
-
-    // Add position numbers
-    return racers.map((racer, index) => ({
-      ...racer,
-      position: index + 1,
-    }));
+    return this.simulation?.getRacePositions() ?? [];
   }
 
   /**
    * Update Rosie's bobbing animation based on velocity
    */
-  private updateRosieAnimation(time: number): void {
+  private updateRosieAnimation(time: number, velocity: number): void {
     if (!this.rosie) return;
 
-    if (this.velocity > 0) {
+    if (velocity > 0) {
       // Calculate bobbing amplitude based on velocity (faster = more bounce)
       const bobAmplitude = Math.min(
-        this.velocity * ANIMATION_CONFIG.BOB_AMPLITUDE_FACTOR,
+        velocity * ANIMATION_CONFIG.BOB_AMPLITUDE_FACTOR,
         ANIMATION_CONFIG.BOB_MAX_AMPLITUDE
       );
 
@@ -1060,7 +955,7 @@ export class RaceScene extends Phaser.Scene {
       // Update sparkle trail - position behind Rosie and emit based on velocity
       if (this.sparkleEmitter) {
         // Emit fairy dust underneath Rosie - particles stay in world space
-        if (this.velocity > SPARKLE_CONFIG.VELOCITY_THRESHOLD) {
+        if (velocity > SPARKLE_CONFIG.VELOCITY_THRESHOLD) {
           if (Math.random() < 0.6) {
             const spriteHeight = this.rosie.height * this.rosieBaseScale;
             // Random spread around spawn point
@@ -1111,35 +1006,47 @@ export class RaceScene extends Phaser.Scene {
    * Get current velocity (for external access/testing)
    */
   getVelocity(): number {
-    return this.velocity;
+    return this.simulation?.getSnapshot().rosie.velocity ?? 0;
   }
 
   /**
    * Check if race has finished (for external access)
    */
   getHasFinished(): boolean {
-    return this.hasFinished;
+    return (this.simulation?.getSnapshot().rosie.finishTime ?? null) !== null;
   }
 
   /**
    * Check if Rosie is paused at a checkpoint (for external access/testing)
    */
   getIsPaused(): boolean {
-    return this.isPaused;
+    return this.simulation?.getSnapshot().rosie.isPaused ?? false;
   }
 
   /**
    * Get array of passed checkpoints (for external access/testing)
    */
   getPassedCheckpoints(): boolean[] {
-    return [...this.passedCheckpoints];
+    return this.simulation?.getSnapshot().passedCheckpoints ?? [];
   }
 
   /**
    * Get competitors array (for external access/testing)
    */
   getCompetitors(): Competitor[] {
-    return [...this.competitors];
+    if (!this.simulation) return [];
+    return this.simulation.getSnapshot().competitors.map((state, index) => ({
+      ...state,
+      sprite: this.competitorSprites[index],
+      baseY: this.laneYPositions[index + 1], // Lanes 2-6, Rosie is in lane 1
+    }));
+  }
+
+  /**
+   * Get the race simulation (for external access/testing)
+   */
+  getSimulation(): RaceSimulation | null {
+    return this.simulation;
   }
 
   /**
@@ -1149,6 +1056,13 @@ export class RaceScene extends Phaser.Scene {
     return [...this.selectedRacers];
   }
 
+  /**
+   * Get the seed for the current race (for bug reports/testing)
+   */
+  getRaceSeed(): number {
+    return this.rng.seed;
+  }
+
   /**
    * Get current game state (for external access/testing)
    */
@@ -1263,11 +1177,11 @@ export class RaceScene extends Phaser.Scene {
 
     // Set state to racing
     this.setGameState('racing');
-    this.hasStarted = true;
-    this.raceStartTime = performance.now();
+    this.simulation?.start();
 
-    // Emit race started event for React timer
-    this.game.events.emit(GAME_EVENTS.RACE_STARTED);
+    // Emit race started event for React timer (seed lets React reproduce math problems)
+    const payload: RaceStartedPayload = { seed: this.rng.seed };
+    this.game.events.emit(GAME_EVENTS.RACE_STARTED, payload);
 
     // Start race music
     AudioManager.getInstance().playMusic(AUDIO_KEYS.RACE_MUSIC);
@@ -1276,42 +1190,10 @@ export class RaceScene extends Phaser.Scene {
   // ==================== Finish Tracking ====================
 
   /**
-   * Check if any AI competitors have crossed the finish line
-   */
-  private checkCompetitorFinishes(): void {
-    let anyFinished = false;
-    this.competitors.forEach((competitor) => {
-      // Skip if already finished
-      if (competitor.finishTime !== null) return;
-
-      // Check if crossed finish line
-      if (competitor.sprite.x >= this.finishLineX) {
-        competitor.finishTime = performance.now() - this.raceStartTime;
-        competitor.finishPosition = this.nextFinishPosition;
-        this.nextFinishPosition++;
-        anyFinished = true;
-      }
-    });
-
-    // If Rosie has finished and a competitor just finished, update results
-    if (anyFinished && this.rosieFinishTime !== null) {
-      this.emitRaceResultsUpdate();
-    }
-  }
-
-  /**
-   * Check if all racers have finished and emit results
+   * All racers have finished: emit the final results
    */
-  private checkAllRacersFinished(): void {
-    // Check if Rosie has finished
-    if (this.rosieFinishTime === null) return;
-
-    // Check if all competitors have finished
-    const allCompetitorsFinished = this.competitors.every((c) => c.finishTime !== null);
-    if (!allCompetitorsFinished) return;
-
-    // All racers have finished - compile results
-    const results = this.compileRaceResults();
+  private handleAllRacersFinished(): void {
+    if (!this.simulation) return;
 
     // Set game state to finished
     this.setGameState('finished');
@@ -1320,7 +1202,9 @@ export class RaceScene extends Phaser.Scene {
     AudioManager.getInstance().stopMusic(true);
 
     // Emit results to React
-    this.game.events.emit(GAME_EVENTS.ALL_RACERS_FINISHED, { results });
+    this.game.events.emit(GAME_EVENTS.ALL_RACERS_FINISHED, {
+      results: this.simulation.getResults(),
+    });
   }
 
   /**
@@ -1328,8 +1212,11 @@ export class RaceScene extends Phaser.Scene {
    * Called when Rosie finishes and when each competitor finishes
    */
   private emitRaceResultsUpdate(): void {
-    const results = this.compileCurrentRaceResults();
-    const allFinished = this.competitors.every((c) => c.finishTime !== null);
+    if (!this.simulation) return;
+    const results = this.simulation.getResults();
+    const allFinished = this.simulation
+      .getSnapshot()
+      .competitors.every((competitor) => competitor.finishTime !== null);
 
     const payload: RaceResultsUpdatedPayload = {
       results,
@@ -1344,83 +1231,6 @@ export class RaceScene extends Phaser.Scene {
       AudioManager.getInstance().stopMusic(true);
     }
   }
-
-  /**
-   * Compile current race results including unfinished racers
-   * Finished racers are sorted by position, unfinished racers are at the end
-   */
-  private compileCurrentRaceResults(): RacerResult[] {
-    const finished: RacerResult[] = [];
-    const stillRacing: RacerResult[] = [];
-
-    // Add Rosie's result (she must be finished if this is called)
-    finished.push({
-      name: 'Rosie',
-      color: TRACK_CONFIG.ROSIE_COLOR,
-      finishTime: this.rosieFinishTime,
-      position: this.rosieFinishPosition,
-      isRosie: true,
-      avatar: rosieSpriteUrl,
-    });
-
-    // Add competitor results
-    this.competitors.forEach((competitor) => {
-      const result: RacerResult = {
-        name: competitor.familyMember.name,
-        color: competitor.familyMember.color,
-        finishTime: competitor.finishTime,
-        position: competitor.finishPosition,
-        isRosie: false,
-        avatar: `assets/${competitor.familyMember.sprite}`,
-      };
-
-      if (competitor.finishTime !== null) {
-        finished.push(result);
-      } else {
-        stillRacing.push(result);
-      }
-    });
-
-    // Sort finished racers by position
-    finished.sort((a, b) => (a.position ?? 999) - (b.position ?? 999));
-
-    // Append still-racing racers at the end
-    return [...finished, ...stillRacing];
-  }
-
-  /**
-   * Compile final race results sorted by position (legacy - used by ALL_RACERS_FINISHED)
-   */
-  private compileRaceResults(): RacerResult[] {
-    const results: RacerResult[] = [];
-
-    // Add Rosie's result
-    results.push({
-      name: 'Rosie',
-      color: TRACK_CONFIG.ROSIE_COLOR,
-      finishTime: this.rosieFinishTime!,
-      position: this.rosieFinishPosition!,
-      isRosie: true,
-      avatar: rosieSpriteUrl,
-    });
-
-    // Add competitor results
-    this.competitors.forEach((competitor) => {
-      results.push({
-        name: competitor.familyMember.name,
-        color: competitor.familyMember.color,
-        finishTime: competitor.finishTime!,
-        position: competitor.finishPosition!,
-        isRosie: false,
-        avatar: `assets/${competitor.familyMember.sprite}`,
-      });
-    });
-
-    // Sort by position
-    results.sort((a, b) => (a.position ?? 999) - (b.position ?? 999));
-
-    return results;
-  }
 }
 
 export default RaceScene;
@@ -0,0 +1,175 @@
+import { AdaptiveDifficulty, ADAPTIVE_CONFIG, DIFFICULTY_LEVELS } from './AdaptiveDifficulty';
+import { DEFAULT_MATH_CONFIG, type MathConfig, type Operation } from './MathGenerator';
+import { createRandom } from './Random';
+
+describe('AdaptiveDifficulty', () => {
+  const setupTest = (startMaxNumber?: number) => {
+    const engine = new AdaptiveDifficulty(startMaxNumber);
+
+    const answer = (operation: Operation, correct: boolean, count: number, timeTaken = 1000) => {
+      for (let i = 0; i < count; i++) {
+        engine.recordAnswer(operation, { correct, timeTaken });
+      }
+    };
+
+    return { engine, answer };
+  };
+
+  describe('starting level', () => {
+    it('starts at the easiest level by default', () => {
+      const { engine } = setupTest();
+      expect(engine.getLevel('add')).toBe(0);
+    });
+
+    it('starts at the level matching the hand-picked max number', () => {
+      const { engine } = setupTest(10);
+      expect(DIFFICULTY_LEVELS[engine.getLevel('add')].maxNumber).toBe(10);
+    });
+  });
+
+  describe('recordAnswer', () => {
+    it('does not change level before the window is full', () => {
+      const { engine, answer } = setupTest();
+      answer('add', true, ADAPTIVE_CONFIG.WINDOW_SIZE - 1);
+
+      expect(engine.getLevel('add')).toBe(0);
+      expect(engine.getSuccessRate('add')).toBeNull();
+    });
+
+    it('moves up a level after a streak of fast correct answers', () => {
+      const { engine, answer } = setupTest();
+      answer('add', true, ADAPTIVE_CONFIG.WINDOW_SIZE);
+
+      expect(engine.getLevel('add')).toBe(1);
+    });
+
+    it('moves down a level after mostly wrong answers', () => {
+      const { engine, answer } = setupTest(15);
+      const startLevel = engine.getLevel('add');
+      answer('add', false, ADAPTIVE_CONFIG.WINDOW_SIZE);
+
+      expect(engine.getLevel('add')).toBe(startLevel - 1);
+    });
+
+    it('stays put near the target success rate', () => {
+      const { engine, answer } = setupTest(10);
+      const startLevel = engine.getLevel('add');
+      answer('add', true, 3);
+      answer('add', false, 1);
+      answer('add', true, 1);
+
+      expect(engine.getLevel('add')).toBe(startLevel);
+    });
+
+    it('counts very slow correct answers as partial successes', () => {
+      const { engine, answer } = setupTest(10);
+      const startLevel = engine.getLevel('add');
+      answer('add', true, ADAPTIVE_CONFIG.WINDOW_SIZE, ADAPTIVE_CONFIG.SLOW_ANSWER_MS + 1);
+
+      expect(engine.getLevel('add')).toBe(startLevel - 1);
+    });
+
+    it('tracks each operation separately', () => {
+      const { engine, answer } = setupTest();
+      answer('add', true, ADAPTIVE_CONFIG.WINDOW_SIZE);
+
+      expect(engine.getLevel('add')).toBe(1);
+      expect(engine.getLevel('subtract')).toBe(0);
+    });
+
+    it('never goes below the easiest or above the hardest level', () => {
+      const { engine, answer } = setupTest();
+      answer('add', false, ADAPTIVE_CONFIG.WINDOW_SIZE * 3);
+      expect(engine.getLevel('add')).toBe(0);
+
+      answer('add', true, ADAPTIVE_CONFIG.WINDOW_SIZE * (DIFFICULTY_LEVELS.length + 2));
+      expect(engine.getLevel('add')).toBe(DIFFICULTY_LEVELS.length - 1);
+    });
+  });
+
+  describe('getActiveOperations', () => {
+    it('only mixes in harder operations once easier ones are comfortable', () => {
+      const { engine, answer } = setupTest();
+      const enabled: Operation[] = ['subtract', 'add'];
+
+      expect(engine.getActiveOperations(enabled)).toEqual(['add']);
+
+      answer('add', true, ADAPTIVE_CONFIG.WINDOW_SIZE * ADAPTIVE_CONFIG.UNLOCK_STEPS);
+      expect(engine.getActiveOperations(enabled)).toEqual(['add', 'subtract']);
+    });
+
+    it("builds up the mix from the app's default max number", () => {
+      const { engine, answer } = setupTest(DEFAULT_MATH_CONFIG.maxNumber);
+      const enabled: Operation[] = ['add', 'subtract', 'multiply'];
+
+      expect(engine.getActiveOperations(enabled)).toEqual(['add']);
+
+      answer('add', true, ADAPTIVE_CONFIG.WINDOW_SIZE * ADAPTIVE_CONFIG.UNLOCK_STEPS);
+      expect(engine.getActiveOperations(enabled)).toEqual(['add', 'subtract']);
+    });
+
+    it('always includes the easiest enabled operation', () => {
+      const { engine } = setupTest();
+      expect(engine.getActiveOperations(['multiply'])).toEqual(['multiply']);
+    });
+  });
+
+  describe('getConfig', () => {
+    it('applies the chosen operation level to the config', () => {
+      const { engine, answer } = setupTest();
+      answer('add', true, ADAPTIVE_CONFIG.WINDOW_SIZE);
+      const base: MathConfig = { ...DEFAULT_MATH_CONFIG, operations: ['add'] };
+
+      const config = engine.getConfig(base, createRandom(1));
+
+      expect(config.operations).toEqual(['add']);
+      expect(config.maxNumber).toBe(DIFFICULTY_LEVELS[1].maxNumber);
+      expect(config.numTerms).toBe(DIFFICULTY_LEVELS[1].numTerms);
+    });
+
+    it('keeps the settings for operations without a number ladder', () => {
+      const { engine } = setupTest();
+      const base: MathConfig = { ...DEFAULT_MATH_CONFIG, operations: ['money'], maxNumber: 20 };
+
+      const config = engine.getConfig(base, createRandom(1));
+
+      expect(config.operations).toEqual(['money']);
+      expect(config.maxNumber).toBe(20);
+      expect(config.numTerms).toBe(base.numTerms);
+    });
+
+    it('keeps the other unlocked operations for mixed expressions', () => {
+      const { engine, answer } = setupTest();
+      // Two streaks take addition up to the unlock level, bringing in subtraction
+      answer('add', true, ADAPTIVE_CONFIG.WINDOW_SIZE * ADAPTIVE_CONFIG.UNLOCK_STEPS);
+      const base: MathConfig = {
+        ...DEFAULT_MATH_CONFIG,
+        operations: ['add', 'subtract', 'multiply'],
+        expressionMode: 'mixed',
+      };
+
+      for (let seed = 1; seed <= 5; seed++) {
+        expect(engine.getConfig(base, createRandom(seed)).operations).toEqual(['add', 'subtract']);
+      }
+    });
+
+    it('asks one operation at a time for single problems', () => {
+      const { engine, answer } = setupTest();
+      answer('add', true, ADAPTIVE_CONFIG.WINDOW_SIZE * ADAPTIVE_CONFIG.UNLOCK_STEPS);
+      const base: MathConfig = { ...DEFAULT_MATH_CONFIG, operations: ['add', 'subtract'] };
+
+      expect(engine.getConfig(base, createRandom(1)).operations).toHaveLength(1);
+    });
+  });
+
+  describe('reset', () => {
+    it('forgets levels and history', () => {
+      const { engine, answer } = setupTest();
+      answer('add', true, ADAPTIVE_CONFIG.WINDOW_SIZE);
+      engine.reset();
+
+      expect(engine.getLevel('add')).toBe(0);
+      expect(engine.getSuccessRate('add')).toBeNull();
+    });
+  });
+});
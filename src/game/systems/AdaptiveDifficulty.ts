@@ -0,0 +1,200 @@
+/**
+ * Adaptive difficulty engine for math checkpoints
+ * Tracks recent answers per operation and moves that operation up or down a
+ * difficulty ladder to keep the player near a target success rate.
+ */
+
+import type { MathAnswerPayload } from '../events';
+import type { MathConfig, Operation } from './MathGenerator';
+import type { RandomSource } from './Random';
+
+export interface DifficultyLevel {
+  maxNumber: number;
+  numTerms: number;
+}
+
+/** Difficulty ladder, easiest first */
+export const DIFFICULTY_LEVELS: DifficultyLevel[] = [
+  { maxNumber: 5, numTerms: 2 },
+  { maxNumber: 8, numTerms: 2 },
+  { maxNumber: 10, numTerms: 2 },
+  { maxNumber: 15, numTerms: 2 },
+  { maxNumber: 20, numTerms: 2 },
+  { maxNumber: 10, numTerms: 3 },
+  { maxNumber: 20, numTerms: 3 },
+  { maxNumber: 30, numTerms: 3 },
+];
+
+// Tuning for the adaptive engine
+export const ADAPTIVE_CONFIG = {
+  TARGET_SUCCESS_RATE: 0.75, // Aim for 3 out of 4 answers right
+  TOLERANCE: 0.15, // Move up above 90%, down below 60%
+  WINDOW_SIZE: 5, // Number of recent answers considered per operation
+  SLOW_ANSWER_MS: 8000, // Correct answers slower than this only count half
+  UNLOCK_STEPS: 2, // Levels an operation must climb from its start before the next one joins the mix
+};
+
+// Operations ordered from easiest to hardest, used to build up the operation mix
+const OPERATION_ORDER: Operation[] = [
+  'compare',
+  'before-after',
+  'add',
+  'bonds',
+  'time',
+  'subtract',
+  'money',
+  'skip-count',
+  'multiply',
+  'divide',
+  'square',
+];
+
+// Operations where the ladder's maxNumber and numTerms set the operands' size and count
+// (for money, time, comparisons and the like they mean something else, so the settings stand)
+export const LADDER_OPERATIONS: Operation[] = ['add', 'subtract', 'multiply', 'divide', 'square'];
+
+// Operations that can be combined in mixed and parentheses expressions
+const EXPRESSION_OPERATIONS: Operation[] = ['add', 'subtract', 'multiply', 'divide'];
+
+interface AnswerRecord {
+  correct: boolean;
+  timeTaken: number;
+}
+
+/**
+ * Finds the hardest two-term level that stays within a hand-picked maxNumber
+ */
+function levelForMaxNumber(maxNumber: number): number {
+  let best = 0;
+  DIFFICULTY_LEVELS.forEach((level, index) => {
+    if (level.numTerms === 2 && level.maxNumber <= maxNumber) {
+      best = index;
+    }
+  });
+  return best;
+}
+
+/**
+ * Scores a single answer: 1 for a correct answer, 0.5 if it was very slow, 0 if wrong
+ */
+function scoreAnswer(record: AnswerRecord): number {
+  if (!record.correct) return 0;
+  return record.timeTaken > ADAPTIVE_CONFIG.SLOW_ANSWER_MS ? 0.5 : 1;
+}
+
+/**
+ * AdaptiveDifficulty - Per-operation difficulty tracking.
+ * Pure TypeScript so it can be unit tested without React or Phaser.
+ */
+export class AdaptiveDifficulty {
+  private history = new Map<Operation, AnswerRecord[]>();
+  private levels = new Map<Operation, number>();
+  private startLevel: number;
+
+  constructor(startMaxNumber: number = DIFFICULTY_LEVELS[0].maxNumber) {
+    this.startLevel = levelForMaxNumber(startMaxNumber);
+  }
+
+  /** Record an answer for an operation and adjust its level if needed */
+  recordAnswer(
+    operation: Operation,
+    answer: Pick<MathAnswerPayload, 'correct' | 'timeTaken'>
+  ): void {
+    const records = [...(this.history.get(operation) ?? []), answer].slice(
+      -ADAPTIVE_CONFIG.WINDOW_SIZE
+    );
+    this.history.set(operation, records);
+
+    const rate = this.getSuccessRate(operation);
+    if (rate === null) return;
+
+    const level = this.getLevel(operation);
+    if (rate > ADAPTIVE_CONFIG.TARGET_SUCCESS_RATE + ADAPTIVE_CONFIG.TOLERANCE) {
+      this.setLevel(operation, level + 1);
+    } else if (rate < ADAPTIVE_CONFIG.TARGET_SUCCESS_RATE - ADAPTIVE_CONFIG.TOLERANCE) {
+      this.setLevel(operation, level - 1);
+    }
+  }
+
+  /** Success rate over the recent window, or null if there aren't enough answers yet */
+  getSuccessRate(operation: Operation): number | null {
+    const records = this.history.get(operation) ?? [];
+    if (records.length < ADAPTIVE_CONFIG.WINDOW_SIZE) return null;
+    return records.reduce((sum, record) => sum + scoreAnswer(record), 0) / records.length;
+  }
+
+  /** Current ladder index for an operation (0 = easiest) */
+  getLevel(operation: Operation): number {
+    return this.levels.get(operation) ?? this.startLevel;
+  }
+
+  /** Current ladder index for every operation */
+  getLevels(): Record<Operation, number> {
+    return Object.fromEntries(
+      OPERATION_ORDER.map((operation) => [operation, this.getLevel(operation)])
+    ) as Record<Operation, number>;
+  }
+
+  /**
+   * Operations currently in the mix. The easiest enabled operation is always
+   * included; each harder one joins once the previous one has climbed
+   * UNLOCK_STEPS levels above the starting level.
+   */
+  getActiveOperations(enabled: Operation[]): Operation[] {
+    const ordered = OPERATION_ORDER.filter((operation) => enabled.includes(operation));
+    const unlockLevel = Math.min(
+      this.startLevel + ADAPTIVE_CONFIG.UNLOCK_STEPS,
+      DIFFICULTY_LEVELS.length - 1
+    );
+    const active: Operation[] = [];
+    for (const operation of ordered) {
+      active.push(operation);
+      if (this.getLevel(operation) < unlockLevel) break;
+    }
+    return active;
+  }
+
+  /**
+   * Builds the config for the next problem: picks an operation from the active
+   * mix and applies that operation's level if it's an arithmetic one. With mixed
+   * expressions on, the other active + − × ÷ stay in so they can still be combined.
+   */
+  getConfig(base: MathConfig, rng: RandomSource): MathConfig {
+    const active = this.getActiveOperations(base.operations);
+    if (active.length === 0) return base;
+
+    const operation = rng.pick(active);
+    if (!LADDER_OPERATIONS.includes(operation)) {
+      return { ...base, operations: [operation] };
+    }
+
+    const level = DIFFICULTY_LEVELS[this.getLevel(operation)];
+    const operations =
+      base.expressionMode !== 'single' && EXPRESSION_OPERATIONS.includes(operation)
+        ? active.filter((candidate) => EXPRESSION_OPERATIONS.includes(candidate))
+        : [operation];
+    return {
+      ...base,
+      operations,
+      maxNumber: level.maxNumber,
+      numTerms: level.numTerms,
+    };
+  }
+
+  /** Forget all answers and levels */
+  reset(): void {
+    this.history.clear();
+    this.levels.clear();
+  }
+
+  private setLevel(operation: Operation, level: number): void {
+    const clamped = Math.max(0, Math.min(DIFFICULTY_LEVELS.length - 1, level));
+    if (clamped !== this.getLevel(operation)) {
+      // Start a fresh window so one streak doesn't move the level twice
+      this.history.set(operation, []);
+    }
+    this.levels.set(operation, clamped);
+  }
+}
+
+export default AdaptiveDifficulty;
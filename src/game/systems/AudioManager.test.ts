@@ -151,6 +151,19 @@ describe('AudioManager', () => {
 
       expect(localStorageMock.setItem).toHaveBeenCalledWith('rosie-races-muted', 'true');
     });
+
+    it('should tell mute listeners until they unsubscribe', () => {
+      const manager = AudioManager.getInstance();
+      const listener = jest.fn();
+      const unsubscribe = manager.onMuteChange(listener);
+
+      manager.toggleMute();
+      manager.setMuted(false);
+      unsubscribe();
+      manager.setMuted(true);
+
+      expect(listener.mock.calls).toEqual([[true], [false]]);
+    });
   });
 
   describe('preloadAudio', () => {
@@ -44,6 +44,7 @@ export class AudioManager {
   private currentMusic: Phaser.Sound.BaseSound | null = null;
   private volume: number;
   private muted: boolean;
+  private muteListeners: Array<(muted: boolean) => void> = [];
 
   private constructor() {
     this.volume = this.loadVolume();
@@ -215,6 +216,7 @@ export class AudioManager {
     this.muted = !this.muted;
     this.saveMuted();
     this.applyMuteState();
+    this.notifyMuteChange();
     return this.muted;
   }
 
@@ -223,6 +225,19 @@ export class AudioManager {
     this.muted = value;
     this.saveMuted();
     this.applyMuteState();
+    this.notifyMuteChange();
+  }
+
+  /** Call listener whenever mute is set or toggled; returns a function that stops the calls */
+  onMuteChange(listener: (muted: boolean) => void): () => void {
+    this.muteListeners.push(listener);
+    return () => {
+      this.muteListeners = this.muteListeners.filter((candidate) => candidate !== listener);
+    };
+  }
+
+  private notifyMuteChange(): void {
+    this.muteListeners.forEach((listener) => listener(this.muted));
   }
 
   /** Get the current mute state */
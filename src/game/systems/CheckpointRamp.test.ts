@@ -0,0 +1,53 @@
+import {
+  DEFAULT_CHECKPOINT_RAMP,
+  getCheckpointMathConfig,
+  getCheckpointSettings,
+  type CheckpointSettings,
+} from './CheckpointRamp';
+import { DEFAULT_MATH_CONFIG, type MathConfig } from './MathGenerator';
+
+describe('CheckpointRamp', () => {
+  const ramp: CheckpointSettings[] = [
+    { operations: ['add'], maxNumber: 5, fastAnswerBoost: 40 },
+    { operations: ['multiply'], maxNumber: 10, fastAnswerBoost: 80 },
+  ];
+
+  describe('DEFAULT_CHECKPOINT_RAMP', () => {
+    it('gets harder and more rewarding towards the finish', () => {
+      const [first, last] = [DEFAULT_CHECKPOINT_RAMP[0], DEFAULT_CHECKPOINT_RAMP.at(-1)!];
+      expect(last.maxNumber).toBeGreaterThan(first.maxNumber);
+      expect(last.fastAnswerBoost).toBeGreaterThan(first.fastAnswerBoost);
+    });
+  });
+
+  describe('getCheckpointSettings', () => {
+    it('returns the settings for each checkpoint', () => {
+      expect(getCheckpointSettings(ramp, 0)).toBe(ramp[0]);
+      expect(getCheckpointSettings(ramp, 1)).toBe(ramp[1]);
+    });
+
+    it('reuses the last entry for extra checkpoints', () => {
+      expect(getCheckpointSettings(ramp, 4)).toBe(ramp[1]);
+    });
+
+    it('returns null for an empty ramp', () => {
+      expect(getCheckpointSettings([], 0)).toBeNull();
+    });
+  });
+
+  describe('getCheckpointMathConfig', () => {
+    const base: MathConfig = { ...DEFAULT_MATH_CONFIG, operations: ['subtract'], numTerms: 3 };
+
+    it('applies the checkpoint operations and max number', () => {
+      const config = getCheckpointMathConfig(base, ramp, 1);
+
+      expect(config.operations).toEqual(['multiply']);
+      expect(config.maxNumber).toBe(10);
+      expect(config.numTerms).toBe(3);
+    });
+
+    it('keeps the base config when the ramp is empty', () => {
+      expect(getCheckpointMathConfig(base, [], 0)).toBe(base);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Per-checkpoint difficulty ramp
+ * Lets each checkpoint ask its own kind of question (e.g. easy addition at the
+ * first arch, harder problems near the finish) and reward fast answers with a
+ * bigger boost where the questions are harder.
+ */
+
+import type { MathConfig, Operation } from './MathGenerator';
+
+export interface CheckpointSettings {
+  operations: Operation[];
+  maxNumber: number;
+  /** Velocity given for a fast correct answer at this checkpoint */
+  fastAnswerBoost: number;
+}
+
+// Default ramp: gentle first checkpoint, harder (and more rewarding) second one
+export const DEFAULT_CHECKPOINT_RAMP: CheckpointSettings[] = [
+  { operations: ['add'], maxNumber: 5, fastAnswerBoost: 40 },
+  { operations: ['add', 'subtract'], maxNumber: 12, fastAnswerBoost: 70 },
+];
+
+// Limits for the settings UI
+export const CHECKPOINT_RAMP_CONFIG = {
+  MIN_BOOST: 20, // Same as a slow answer
+  MAX_BOOST: 120,
+};
+
+/**
+ * Settings for a checkpoint; tracks with more checkpoints than ramp entries
+ * reuse the last entry
+ */
+export function getCheckpointSettings(
+  ramp: CheckpointSettings[],
+  checkpointIndex: number
+): CheckpointSettings | null {
+  if (ramp.length === 0) return null;
+  return ramp[Math.min(Math.max(0, checkpointIndex), ramp.length - 1)];
+}
+
+/**
+ * Applies a checkpoint's operations and max number on top of the base config
+ */
+export function getCheckpointMathConfig(
+  base: MathConfig,
+  ramp: CheckpointSettings[],
+  checkpointIndex: number
+): MathConfig {
+  const settings = getCheckpointSettings(ramp, checkpointIndex);
+  if (!settings) return base;
+  return {
+    ...base,
+    operations: settings.operations.length > 0 ? settings.operations : base.operations,
+    maxNumber: settings.maxNumber,
+  };
+}
@@ -0,0 +1,69 @@
+import {
+  buildClockChoices,
+  formatClockTime,
+  fromClockValue,
+  getHandAngles,
+  toClockValue,
+} from './ClockProblems';
+import { createRandom } from './Random';
+
+describe('ClockProblems', () => {
+  describe('clock values', () => {
+    it('writes times as they are typed on a number pad', () => {
+      expect(toClockValue({ hours: 3, minutes: 30 })).toBe(330);
+      expect(fromClockValue(1200)).toEqual({ hours: 12, minutes: 0 });
+    });
+
+    it('formats values as digital times', () => {
+      expect(formatClockTime(330)).toBe('3:30');
+      expect(formatClockTime(900)).toBe('9:00');
+    });
+  });
+
+  describe('getHandAngles', () => {
+    it("points the hour hand at the hour on the o'clock", () => {
+      expect(getHandAngles({ hours: 3, minutes: 0 })).toEqual({ hour: 90, minute: 0 });
+      expect(getHandAngles({ hours: 12, minutes: 0 })).toEqual({ hour: 0, minute: 0 });
+    });
+
+    it('moves the hour hand halfway on at half past', () => {
+      expect(getHandAngles({ hours: 3, minutes: 30 })).toEqual({ hour: 105, minute: 180 });
+    });
+  });
+
+  describe('buildClockChoices', () => {
+    const misconceptionFor = (values: ReturnType<typeof buildClockChoices>, value: number) =>
+      values.find((choice) => choice.value === value)?.misconception;
+
+    it('offers the next hour as a wrong answer at half past', () => {
+      const choices = buildClockChoices({ hours: 3, minutes: 30 }, 6, createRandom(1));
+
+      expect(choices).toContainEqual({ value: 330, misconception: null });
+      expect(misconceptionFor(choices, 430)).toBe('wrong-hour');
+      expect(misconceptionFor(choices, 300)).toBe('wrong-hand');
+    });
+
+    it('wraps wrong hours around the clock face', () => {
+      const choices = buildClockChoices({ hours: 12, minutes: 0 }, 6, createRandom(2));
+      const values = choices.map((choice) => choice.value);
+
+      expect(values).toContain(100);
+      expect(values).toContain(1100);
+    });
+
+    it('fills up with other unique times the clock could show', () => {
+      for (let seed = 0; seed < 20; seed++) {
+        const choices = buildClockChoices({ hours: 6, minutes: 0 }, 6, createRandom(seed));
+        const values = choices.map((choice) => choice.value);
+
+        expect(new Set(values).size).toBe(6);
+        values.forEach((value) => {
+          const { hours, minutes } = fromClockValue(value);
+          expect(hours).toBeGreaterThanOrEqual(1);
+          expect(hours).toBeLessThanOrEqual(12);
+          expect([0, 30]).toContain(minutes);
+        });
+      }
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Telling-time problems for Rosie Races checkpoints
+ * An analog clock shows o'clock or half past; the player picks the time it shows.
+ * Times are stored as numbers the way they're typed on a number pad (3:30 is 330),
+ * so they fit the same choices, history and number-pad answers as other problems.
+ */
+
+import type { MathChoice } from './MathGenerator';
+import type { RandomSource } from './Random';
+
+/** A time on a 12-hour clock face */
+export interface ClockTime {
+  /** 1 to 12 */
+  hours: number;
+  /** Minutes past the hour */
+  minutes: number;
+}
+
+// Constants for clock problems
+export const CLOCK_CONFIG = {
+  MINUTES: [0, 30], // O'clock and half past
+  MAX_ATTEMPTS: 50, // Tries at a random filler time before giving up
+};
+
+/**
+ * Turns a clock time into its answer value (3:30 -> 330)
+ */
+export function toClockValue(time: ClockTime): number {
+  return time.hours * 100 + time.minutes;
+}
+
+/**
+ * Turns an answer value back into a clock time (330 -> 3:30)
+ */
+export function fromClockValue(value: number): ClockTime {
+  return { hours: Math.floor(value / 100), minutes: value % 100 };
+}
+
+/**
+ * Formats an answer value as a digital time (330 -> "3:30")
+ */
+export function formatClockTime(value: number): string {
+  const { hours, minutes } = fromClockValue(value);
+  return `${hours}:${minutes.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Wraps an hour onto the clock face (0 -> 12, 13 -> 1)
+ */
+function wrapHour(hours: number): number {
+  return ((((hours - 1) % 12) + 12) % 12) + 1;
+}
+
+/**
+ * Angles of the hands in degrees, clockwise from 12
+ * The hour hand moves on between the hours, so at half past it sits halfway along
+ */
+export function getHandAngles(time: ClockTime): { hour: number; minute: number } {
+  return {
+    hour: ((time.hours % 12) + time.minutes / 60) * 30,
+    minute: time.minutes * 6,
+  };
+}
+
+/**
+ * Picks a random time the clock can show
+ */
+export function generateClockTime(rng: RandomSource): ClockTime {
+  return { hours: rng.int(1, 12), minutes: rng.pick(CLOCK_CONFIG.MINUTES) };
+}
+
+/**
+ * Lists wrong times that match real mistakes reading this clock
+ */
+function getClockDistractors(time: ClockTime): MathChoice[] {
+  const { hours, minutes } = time;
+  const at = (h: number, m: number) => toClockValue({ hours: wrapHour(h), minutes: m });
+  const otherMinutes = minutes === 0 ? 30 : 0;
+
+  if (minutes === 0) {
+    return [
+      // Half past and o'clock mixed up
+      { value: at(hours, otherMinutes), misconception: 'wrong-hand' },
+      { value: at(hours - 1, otherMinutes), misconception: 'wrong-hand' },
+      { value: at(hours + 1, 0), misconception: 'wrong-hour' },
+      { value: at(hours - 1, 0), misconception: 'wrong-hour' },
+    ];
+  }
+  return [
+    // At half past the hour hand is past the number, but looks close to the next one
+    { value: at(hours + 1, minutes), misconception: 'wrong-hour' },
+    { value: at(hours, otherMinutes), misconception: 'wrong-hand' },
+    { value: at(hours + 1, otherMinutes), misconception: 'wrong-hand' },
+    { value: at(hours - 1, minutes), misconception: 'wrong-hour' },
+  ];
+}
+
+/**
+ * Builds `count` choices for a clock: the right time, then wrong times that match
+ * real mistakes, then random other times the clock could show
+ */
+export function buildClockChoices(time: ClockTime, count: number, rng: RandomSource): MathChoice[] {
+  const answer = toClockValue(time);
+  const wrongAnswers: Map<number, MathChoice> = new Map();
+
+  rng.shuffle(getClockDistractors(time)).forEach((choice) => {
+    if (wrongAnswers.size < count - 1 && choice.value !== answer) {
+      wrongAnswers.set(choice.value, choice);
+    }
+  });
+
+  for (
+    let attempt = 0;
+    wrongAnswers.size < count - 1 && attempt < CLOCK_CONFIG.MAX_ATTEMPTS;
+    attempt++
+  ) {
+    const value = toClockValue(generateClockTime(rng));
+    if (value !== answer && !wrongAnswers.has(value)) {
+      wrongAnswers.set(value, { value, misconception: null });
+    }
+  }
+
+  return rng.shuffle([{ value: answer, misconception: null }, ...wrongAnswers.values()]);
+}
@@ -0,0 +1,46 @@
+import { COINS, generateCoins, getCoinDistractors, getCoinTotal } from './CoinProblems';
+import { createRandom } from './Random';
+
+const coin = (name: string) => COINS.find((c) => c.name === name)!;
+
+describe('CoinProblems', () => {
+  describe('generateCoins', () => {
+    it('stays within the total and lays coins out biggest first', () => {
+      const rng = createRandom(3);
+
+      for (let i = 0; i < 30; i++) {
+        const coins = generateCoins(40, rng);
+        const values = coins.map((c) => c.value);
+
+        expect(coins.length).toBeGreaterThanOrEqual(1);
+        expect(getCoinTotal(coins)).toBeLessThanOrEqual(40);
+        expect(values).toEqual([...values].sort((a, b) => b - a));
+      }
+    });
+
+    it('only uses coins small enough for low totals', () => {
+      const rng = createRandom(4);
+
+      for (let i = 0; i < 30; i++) {
+        generateCoins(8, rng).forEach((c) => expect(c.value).toBeLessThanOrEqual(5));
+      }
+    });
+  });
+
+  describe('getCoinDistractors', () => {
+    it('offers the number of coins as a wrong answer', () => {
+      const coins = [coin('dime'), coin('nickel'), coin('penny')];
+
+      expect(getCoinDistractors(coins)).toContainEqual({
+        value: 3,
+        misconception: 'counted-coins',
+      });
+    });
+
+    it('offers the total with nickels and dimes swapped', () => {
+      const coins = [coin('dime'), coin('dime'), coin('penny')];
+
+      expect(getCoinDistractors(coins)).toContainEqual({ value: 11, misconception: 'wrong-coin' });
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Money problems for Rosie Races checkpoints
+ * A handful of coins is drawn and the player picks how many cents they make.
+ */
+
+import type { MathChoice } from './MathGenerator';
+import type { RandomSource } from './Random';
+
+export type CoinName = 'penny' | 'nickel' | 'dime' | 'quarter';
+
+export interface Coin {
+  name: CoinName;
+  /** Worth in cents */
+  value: number;
+}
+
+/** Coins that can be drawn, smallest first */
+export const COINS: Coin[] = [
+  { name: 'penny', value: 1 },
+  { name: 'nickel', value: 5 },
+  { name: 'dime', value: 10 },
+  { name: 'quarter', value: 25 },
+];
+
+// Constants for coin problems
+export const COIN_CONFIG = {
+  MIN_COINS: 2,
+  MAX_COINS: 5, // Most coins drawn at once, to keep counting manageable
+};
+
+/**
+ * Formats an amount in cents for display (37 -> "37¢")
+ */
+export function formatCents(value: number): string {
+  return `${value}¢`;
+}
+
+/**
+ * Adds up the coins in cents
+ */
+export function getCoinTotal(coins: Coin[]): number {
+  return coins.reduce((total, coin) => total + coin.value, 0);
+}
+
+/**
+ * Picks coins worth at most maxTotal cents, biggest first (the order they're counted in)
+ * Only coins that fit are drawn, so small totals stick to pennies and nickels
+ */
+export function generateCoins(maxTotal: number, rng: RandomSource): Coin[] {
+  const count = rng.int(COIN_CONFIG.MIN_COINS, COIN_CONFIG.MAX_COINS);
+  const coins: Coin[] = [];
+  let remaining = Math.max(COIN_CONFIG.MIN_COINS, maxTotal);
+
+  while (coins.length < count) {
+    const fitting = COINS.filter((coin) => coin.value <= remaining);
+    if (fitting.length === 0) break;
+    const coin = rng.pick(fitting);
+    coins.push(coin);
+    remaining -= coin.value;
+  }
+
+  return coins.sort((a, b) => b.value - a.value);
+}
+
+/**
+ * Lists wrong totals that match real mistakes counting these coins
+ */
+export function getCoinDistractors(coins: Coin[]): MathChoice[] {
+  const total = getCoinTotal(coins);
+  const nickels = coins.filter((coin) => coin.name === 'nickel').length;
+  const dimes = coins.filter((coin) => coin.name === 'dime').length;
+
+  return [
+    { value: total + 1, misconception: 'off-by-one' },
+    { value: total - 1, misconception: 'off-by-one' },
+    // Counting each coin as one
+    { value: coins.length, misconception: 'counted-coins' },
+    // Nickels are bigger than dimes, so their values get swapped
+    { value: total + 5 * (nickels - dimes), misconception: 'wrong-coin' },
+  ];
+}
@@ -0,0 +1,104 @@
+import {
+  applyCurriculumLevel,
+  findCurriculumLevel,
+  getCurriculumLevelById,
+  CURRICULUM_LEVELS,
+  type CurriculumLevel,
+} from './CurriculumLevels';
+import { DEFAULT_MATH_CONFIG, generateProblem, type MathConfig } from './MathGenerator';
+import { createRandom } from './Random';
+
+const level = (id: CurriculumLevel['id']) => {
+  const found = getCurriculumLevelById(id);
+  if (!found) throw new Error(`No level ${id}`);
+  return found;
+};
+
+describe('CurriculumLevels', () => {
+  it('gives every level a unique id', () => {
+    const ids = CURRICULUM_LEVELS.map((candidate) => candidate.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('starts on the kindergarten level', () => {
+    expect(findCurriculumLevel(DEFAULT_MATH_CONFIG)?.id).toBe('kindergarten');
+  });
+
+  it.each(CURRICULUM_LEVELS.map((candidate) => [candidate.id, candidate]))(
+    'generates problems for %s from its operations',
+    (_id, candidate) => {
+      const config = applyCurriculumLevel(candidate, DEFAULT_MATH_CONFIG);
+      const rng = createRandom(7);
+
+      for (let i = 0; i < 20; i++) {
+        const problem = generateProblem(config, rng);
+        expect(candidate.config.operations).toContain(problem.operation);
+        expect(problem.choices.map((choice) => choice.value)).toContain(problem.answer);
+      }
+    }
+  );
+
+  describe('applyCurriculumLevel', () => {
+    it('sets what is asked and keeps how it is answered', () => {
+      const current: MathConfig = {
+        ...DEFAULT_MATH_CONFIG,
+        answerMode: 'voice',
+        choiceCount: 2,
+        retryUntilCorrect: true,
+        visualAid: 'ten-frame',
+      };
+      const config = applyCurriculumLevel(level('grade-3'), current);
+
+      expect(config).toEqual({
+        ...current,
+        operations: ['multiply', 'divide'],
+        maxNumber: 10,
+        numTerms: 2,
+        formats: {},
+        pictureMode: 'off',
+        expressionMode: 'single',
+      });
+    });
+
+    it("doesn't share the level's operation list", () => {
+      const config = applyCurriculumLevel(level('pre-k'), DEFAULT_MATH_CONFIG);
+      config.operations.push('square');
+
+      expect(level('pre-k').config.operations).not.toContain('square');
+    });
+  });
+
+  describe('findCurriculumLevel', () => {
+    it('finds the level a config was set from, whatever the answer settings', () => {
+      const config = applyCurriculumLevel(level('grade-1'), {
+        ...DEFAULT_MATH_CONFIG,
+        answerMode: 'number-pad',
+      });
+
+      expect(findCurriculumLevel(config)?.id).toBe('grade-1');
+    });
+
+    it('ignores the order operations were switched on in', () => {
+      const config = applyCurriculumLevel(level('grade-3'), DEFAULT_MATH_CONFIG);
+
+      expect(findCurriculumLevel({ ...config, operations: ['divide', 'multiply'] })?.id).toBe(
+        'grade-3'
+      );
+    });
+
+    it("treats a format of 'result' as unset", () => {
+      const config = applyCurriculumLevel(level('kindergarten'), DEFAULT_MATH_CONFIG);
+
+      expect(findCurriculumLevel({ ...config, formats: { add: 'result' } })?.id).toBe(
+        'kindergarten'
+      );
+    });
+
+    it('returns null once the settings have been customised', () => {
+      const config = applyCurriculumLevel(level('kindergarten'), DEFAULT_MATH_CONFIG);
+
+      expect(findCurriculumLevel({ ...config, maxNumber: 12 })).toBeNull();
+      expect(findCurriculumLevel({ ...config, operations: ['add', 'square'] })).toBeNull();
+    });
+  });
+});
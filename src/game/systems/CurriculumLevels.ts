@@ -0,0 +1,135 @@
+/**
+ * Curriculum levels for math checkpoints
+ * Named presets ("Kindergarten: add within 10") that set what is asked, so a
+ * parent can pick a level instead of guessing at operations and max numbers.
+ * How the player answers (choices, voice, retries, visual aids) is left as it is.
+ */
+
+import { DEFAULT_MATH_CONFIG, type MathConfig, type ProblemFormat } from './MathGenerator';
+
+/** The parts of MathConfig a level decides: what is asked, not how it's answered */
+export type CurriculumConfig = Pick<
+  MathConfig,
+  'operations' | 'maxNumber' | 'numTerms' | 'formats' | 'pictureMode' | 'expressionMode'
+>;
+
+export type CurriculumLevelId = 'pre-k' | 'kindergarten' | 'grade-1' | 'grade-2' | 'grade-3';
+
+export interface CurriculumLevel {
+  id: CurriculumLevelId;
+  name: string;
+  /** One line for parents on what the level covers */
+  description: string;
+  config: CurriculumConfig;
+}
+
+/** Levels, easiest first */
+export const CURRICULUM_LEVELS: CurriculumLevel[] = [
+  {
+    id: 'pre-k',
+    name: 'Pre-K counting',
+    description: 'Counting pictures, bigger or smaller, and what comes next, up to 5',
+    config: {
+      operations: ['add', 'compare', 'before-after'],
+      maxNumber: 5,
+      numTerms: 2,
+      formats: {},
+      pictureMode: 'number-choices',
+      expressionMode: 'single',
+    },
+  },
+  {
+    id: 'kindergarten',
+    name: 'Kindergarten: add within 10',
+    description: 'Adding two numbers up to 10',
+    config: {
+      operations: ['add'],
+      maxNumber: DEFAULT_MATH_CONFIG.maxNumber,
+      numTerms: 2,
+      formats: {},
+      pictureMode: 'off',
+      expressionMode: 'single',
+    },
+  },
+  {
+    id: 'grade-1',
+    name: 'Grade 1: add/sub within 20',
+    description: "Adding and taking away up to 20, bonds to 10, o'clock and half past",
+    config: {
+      operations: ['add', 'subtract', 'bonds', 'time'],
+      maxNumber: 20,
+      numTerms: 2,
+      formats: { add: 'missing-operand' },
+      pictureMode: 'off',
+      expressionMode: 'single',
+    },
+  },
+  {
+    id: 'grade-2',
+    name: 'Grade 2: skip counting and coins',
+    description: 'Adding and taking away up to 30, skip counting, coins and clocks',
+    config: {
+      operations: ['add', 'subtract', 'skip-count', 'money', 'time'],
+      maxNumber: 30,
+      numTerms: 2,
+      formats: {},
+      pictureMode: 'off',
+      expressionMode: 'single',
+    },
+  },
+  {
+    id: 'grade-3',
+    name: 'Grade 3 times tables',
+    description: 'Times tables and sharing up to 10 × 10',
+    config: {
+      operations: ['multiply', 'divide'],
+      maxNumber: 10,
+      numTerms: 2,
+      formats: {},
+      pictureMode: 'off',
+      expressionMode: 'single',
+    },
+  },
+];
+
+/**
+ * Gets a level by ID
+ */
+export function getCurriculumLevelById(id: CurriculumLevelId): CurriculumLevel | undefined {
+  return CURRICULUM_LEVELS.find((level) => level.id === id);
+}
+
+/**
+ * The full math config for a level, keeping the player's answer settings from `current`
+ */
+export function applyCurriculumLevel(level: CurriculumLevel, current: MathConfig): MathConfig {
+  return { ...current, ...level.config, operations: [...level.config.operations] };
+}
+
+/**
+ * Missing-operand formats only; 'result' is the same as not listing the operation
+ */
+function getMissingOperandKeys(formats: Partial<Record<string, ProblemFormat>>): string {
+  return Object.keys(formats)
+    .filter((operation) => formats[operation] === 'missing-operand')
+    .sort()
+    .join(',');
+}
+
+/**
+ * The level a config was set from, or null when it's been customised
+ */
+export function findCurriculumLevel(config: MathConfig): CurriculumLevel | null {
+  const operations = [...config.operations].sort().join(',');
+  return (
+    CURRICULUM_LEVELS.find(
+      (level) =>
+        [...level.config.operations].sort().join(',') === operations &&
+        level.config.maxNumber === config.maxNumber &&
+        level.config.numTerms === config.numTerms &&
+        level.config.pictureMode === config.pictureMode &&
+        level.config.expressionMode === config.expressionMode &&
+        getMissingOperandKeys(level.config.formats) === getMissingOperandKeys(config.formats)
+    ) ?? null
+  );
+}
@@ -0,0 +1,59 @@
+import {
+  checkGeneratorInvariants,
+  checkProblem,
+  createRandomConfig,
+  formatInvariantFailure,
+  INVARIANT_CONFIG,
+} from './GeneratorInvariants';
+import { DEFAULT_MATH_CONFIG, generateProblem } from './MathGenerator';
+import { createRandom } from './Random';
+
+describe('GeneratorInvariants', () => {
+  describe('checkGeneratorInvariants', () => {
+    it('finds no broken problems across thousands of random configs', () => {
+      const report = checkGeneratorInvariants();
+
+      expect(report.configs).toBe(INVARIANT_CONFIG.RUNS);
+      expect(report.problems).toBe(INVARIANT_CONFIG.RUNS * INVARIANT_CONFIG.PROBLEMS_PER_CONFIG);
+      expect(report.failures.map(formatInvariantFailure).join('\n\n')).toBe('');
+    });
+
+    it('replays the same config from a seed', () => {
+      expect(createRandomConfig(createRandom(42))).toEqual(createRandomConfig(createRandom(42)));
+    });
+  });
+
+  describe('checkProblem', () => {
+    const config = { ...DEFAULT_MATH_CONFIG, maxNumber: 10 };
+
+    it('passes a generated problem', () => {
+      expect(checkProblem(generateProblem(config, createRandom(1)), config)).toEqual([]);
+    });
+
+    it('flags a problem whose answer is missing from its choices', () => {
+      const problem = generateProblem(config, createRandom(1));
+      const broken = {
+        ...problem,
+        choices: problem.choices.map((choice) =>
+          choice.value === problem.answer ? { ...choice, value: 99 } : choice
+        ),
+      };
+
+      const violations = checkProblem(broken, config);
+
+      expect(violations).toContain(`answer ${problem.answer} appears 0 times in the choices`);
+    });
+
+    it('flags operands over maxNumber and the wrong number of choices', () => {
+      const problem = generateProblem(
+        { ...config, maxNumber: 20, choiceCount: 4 },
+        createRandom(3)
+      );
+
+      const violations = checkProblem(problem, { ...config, maxNumber: 1, choiceCount: 3 });
+
+      expect(violations).toContain('has 4 choices instead of 3');
+      expect(violations.some((violation) => violation.includes('is outside 0-1'))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Property checks for the math problem generator
+ * Generates problems for thousands of random, seeded configs and checks rules
+ * every problem must keep (one right answer among the choices, whole non-negative
+ * numbers, operands within maxNumber, the right number of choices). Used by the
+ * tests and by scripts/check-math-generator.js; each failure carries the seed
+ * and config that produced it, so it can be replayed.
+ */
+
+import {
+  evaluateExpression,
+  generateProblem,
+  hasEquation,
+  CHOICE_COUNTS,
+  FAMILY_CONFIG,
+  type ExpressionMode,
+  type MathConfig,
+  type MathProblem,
+  type Operation,
+  type PictureMode,
+} from './MathGenerator';
+import { CLOCK_CONFIG, toClockValue } from './ClockProblems';
+import { COIN_CONFIG, getCoinTotal } from './CoinProblems';
+import { TIMES_TABLE_CONFIG } from './TimesTables';
+import { createRandom, type RandomSource } from './Random';
+
+// Tuning for invariant runs
+export const INVARIANT_CONFIG = {
+  RUNS: 2000, // Random configs checked by default
+  PROBLEMS_PER_CONFIG: 5, // Problems generated for each config
+  MAX_NUMBER: 50, // Largest maxNumber tried (beyond the settings slider, to find edge cases)
+  MAX_TERMS: 4, // Most terms tried
+  MAX_FAILURES: 20, // Failures kept before the run stops collecting them
+};
+
+// Every operation, as a record so a new one can't be left out of the checks
+const OPERATION_SET: Record<Operation, true> = {
+  add: true,
+  subtract: true,
+  multiply: true,
+  divide: true,
+  square: true,
+  compare: true,
+  'skip-count': true,
+  bonds: true,
+  'before-after': true,
+  time: true,
+  money: true,
+};
+const OPERATIONS = Object.keys(OPERATION_SET) as Operation[];
+const PICTURE_MODES: PictureMode[] = ['off', 'number-choices', 'picture-choices'];
+const EXPRESSION_MODES: ExpressionMode[] = ['single', 'mixed', 'parentheses'];
+
+export interface InvariantFailure {
+  /** Seed that recreates the config and its problems (pass it to checkGeneratorInvariants) */
+  seed: number;
+  config: MathConfig;
+  /** Which of the config's problems failed, counting from 0 */
+  problemIndex: number;
+  problem: MathProblem;
+  violations: string[];
+}
+
+export interface InvariantReport {
+  configs: number;
+  problems: number;
+  failures: InvariantFailure[];
+}
+
+export interface InvariantOptions {
+  /** Number of random configs to check */
+  runs?: number;
+  /** Seed of the first run; run i uses seed + i */
+  seed?: number;
+  problemsPerConfig?: number;
+}
+
+function isWholeNumber(value: number): boolean {
+  return Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Picks a random subset of the items, keeping at least `min` of them
+ */
+function pickSome<T>(items: readonly T[], min: number, rng: RandomSource): T[] {
+  const picked = items.filter(() => rng.next() < 0.3);
+  return picked.length >= min ? picked : rng.shuffle(items).slice(0, min);
+}
+
+/**
+ * Builds a random config covering every setting that changes the problems asked
+ */
+export function createRandomConfig(rng: RandomSource): MathConfig {
+  const operations = pickSome(OPERATIONS, 1, rng);
+  return {
+    operations,
+    maxNumber: rng.int(1, INVARIANT_CONFIG.MAX_NUMBER),
+    numTerms: rng.int(2, INVARIANT_CONFIG.MAX_TERMS),
+    formats: Object.fromEntries(
+      operations.map((operation) => [operation, rng.next() < 0.5 ? 'result' : 'missing-operand'])
+    ),
+    pictureMode: rng.pick(PICTURE_MODES),
+    expressionMode: rng.pick(EXPRESSION_MODES),
+    repeatWindow: 0,
+    choiceCount: rng.pick(CHOICE_COUNTS),
+    answerMode: 'choices',
+    retryUntilCorrect: false,
+    hintAfterMisses: 2,
+    visualAid: 'off',
+    visualAidTiming: 'always',
+    timesTables: rng.next() < 0.5 ? [] : pickSome(TIMES_TABLE_CONFIG.TABLES, 1, rng),
+  };
+}
+
+/**
+ * Largest operand an equation problem may use under this config
+ * (number bonds always make 10, and times tables run to ×10 whatever maxNumber is)
+ */
+function getOperandLimit(problem: MathProblem, config: MathConfig): number {
+  if (problem.operation === 'bonds') return FAMILY_CONFIG.BOND_TOTAL;
+  if (problem.operation === 'multiply' && config.timesTables.length > 0) {
+    return Math.max(config.maxNumber, TIMES_TABLE_CONFIG.MAX_FACTOR);
+  }
+  return config.maxNumber;
+}
+
+/**
+ * Lists the rules specific to each kind of problem that this one breaks
+ */
+function getKindViolations(problem: MathProblem, config: MathConfig): string[] {
+  const violations: string[] = [];
+
+  if (hasEquation(problem)) {
+    const { expression, operands, result, unknown } = problem.equation;
+    const limit = getOperandLimit(problem, config);
+    if (evaluateExpression(expression) !== result) {
+      violations.push(`result ${result} doesn't match the expression`);
+    }
+    if (!isWholeNumber(result)) violations.push(`result ${result} isn't a whole number`);
+    operands.forEach((operand) => {
+      if (!isWholeNumber(operand) || operand > limit) {
+        violations.push(`operand ${operand} is outside 0-${limit}`);
+      }
+    });
+    const expected = unknown === 'result' ? result : operands[unknown];
+    if (problem.answer !== expected) {
+      violations.push(`answer ${problem.answer} isn't the blank's value ${expected}`);
+    }
+    return violations;
+  }
+
+  switch (problem.kind) {
+    case 'comparison': {
+      const limit = Math.max(2, config.maxNumber);
+      if (problem.numbers[0] === problem.numbers[1]) violations.push('both numbers are the same');
+      if (problem.answer !== Math.max(...problem.numbers)) {
+        violations.push(`answer ${problem.answer} isn't the bigger number`);
+      }
+      problem.numbers.forEach((value) => {
+        if (value < 1 || value > limit) violations.push(`number ${value} is outside 1-${limit}`);
+      });
+      break;
+    }
+    case 'sequence': {
+      const { terms, unknown, step } = problem.sequence;
+      terms.forEach((term, index) => {
+        if (!isWholeNumber(term)) violations.push(`term ${term} isn't a whole number`);
+        if (index > 0 && term - terms[index - 1] !== step) {
+          violations.push(`terms ${terms.join(', ')} aren't ${step} apart`);
+        }
+      });
+      if (problem.answer !== terms[unknown]) {
+        violations.push(`answer ${problem.answer} isn't the missing term ${terms[unknown]}`);
+      }
+      if (problem.operation === 'before-after') {
+        const shown = terms[1 - unknown];
+        if (shown > Math.max(2, config.maxNumber)) {
+          violations.push(`shown number ${shown} is over maxNumber`);
+        }
+        if (problem.answer < 1) violations.push(`answer ${problem.answer} is below 1`);
+      } else {
+        if (terms[0] > step * FAMILY_CONFIG.MAX_SKIP_START) {
+          violations.push(`skip counting starts too far in, at ${terms[0]}`);
+        }
+        const limit = Math.max(FAMILY_CONFIG.SEQUENCE_LENGTH - 1, config.maxNumber);
+        const last = terms[terms.length - 1];
+        if (last > limit) violations.push(`skip counting runs to ${last}, over ${limit}`);
+      }
+      break;
+    }
+    case 'clock': {
+      const { hours, minutes } = problem.time;
+      if (hours < 1 || hours > 12 || !CLOCK_CONFIG.MINUTES.includes(minutes)) {
+        violations.push(`time ${hours}:${minutes} isn't on the clock face`);
+      }
+      if (problem.answer !== toClockValue(problem.time)) {
+        violations.push(`answer ${problem.answer} isn't the time shown`);
+      }
+      problem.choices.forEach(({ value }) => {
+        const choiceHours = Math.floor(value / 100);
+        if (choiceHours < 1 || choiceHours > 12 || !CLOCK_CONFIG.MINUTES.includes(value % 100)) {
+          violations.push(`choice ${value} isn't a time the clock can show`);
+        }
+      });
+      break;
+    }
+    case 'coins': {
+      const limit = Math.max(COIN_CONFIG.MIN_COINS, config.maxNumber);
+      const total = getCoinTotal(problem.coins);
+      if (problem.answer !== total) {
+        violations.push(`answer ${problem.answer} isn't the coins' total ${total}`);
+      }
+      if (total > limit) violations.push(`coins add up to ${total}, over ${limit}`);
+      break;
+    }
+  }
+  return violations;
+}
+
+/**
+ * Lists every rule the problem breaks (empty when it's fine)
+ */
+export function checkProblem(problem: MathProblem, config: MathConfig): string[] {
+  const violations: string[] = [];
+  const values = problem.choices.map((choice) => choice.value);
+  // Comparisons always offer just their two numbers
+  const expectedChoices = problem.kind === 'comparison' ? 2 : config.choiceCount;
+
+  if (values.length !== expectedChoices) {
+    violations.push(`has ${values.length} choices instead of ${expectedChoices}`);
+  }
+  if (!isWholeNumber(problem.answer)) {
+    violations.push(`answer ${problem.answer} isn't a whole number`);
+  }
+  const correctCount = values.filter((value) => value === problem.answer).length;
+  if (correctCount !== 1) {
+    violations.push(`answer ${problem.answer} appears ${correctCount} times in the choices`);
+  }
+  if (new Set(values).size !== values.length) {
+    violations.push(`choices ${values.join(', ')} aren't unique`);
+  }
+  values.forEach((value) => {
+    if (!isWholeNumber(value)) violations.push(`choice ${value} isn't a whole number`);
+  });
+  problem.choices.forEach((choice) => {
+    if (choice.value === problem.answer && choice.misconception !== null) {
+      violations.push(`the right answer is labelled as a ${choice.misconception} mistake`);
+    }
+  });
+
+  return [...violations, ...getKindViolations(problem, config)];
+}
+
+/**
+ * Runs the checks over many random configs; run i uses seed + i for both its
+ * config and its problems, so checkGeneratorInvariants({ seed, runs: 1 }) replays it
+ */
+export function checkGeneratorInvariants(options: InvariantOptions = {}): InvariantReport {
+  const {
+    runs = INVARIANT_CONFIG.RUNS,
+    seed = 1,
+    problemsPerConfig = INVARIANT_CONFIG.PROBLEMS_PER_CONFIG,
+  } = options;
+  const failures: InvariantFailure[] = [];
+  let problems = 0;
+
+  for (let run = 0; run < runs; run++) {
+    const runSeed = (seed + run) >>> 0;
+    const rng = createRandom(runSeed);
+    const config = createRandomConfig(rng);
+
+    for (let problemIndex = 0; problemIndex < problemsPerConfig; problemIndex++) {
+      const problem = generateProblem(config, rng);
+      problems++;
+      const violations = checkProblem(problem, config);
+      if (violations.length > 0 && failures.length < INVARIANT_CONFIG.MAX_FAILURES) {
+        failures.push({ seed: runSeed, config, problemIndex, problem, violations });
+      }
+    }
+  }
+
+  return { configs: runs, problems, failures };
+}
+
+/**
+ * Describes a failure for a test message or the console
+ */
+export function formatInvariantFailure(failure: InvariantFailure): string {
+  const { seed, problemIndex, config, problem, violations } = failure;
+  return [
+    `Seed ${seed}, problem ${problemIndex}: "${problem.question}" (answer ${problem.answer})`,
+    ...violations.map((violation) => `  - ${violation}`),
+    `  config: ${JSON.stringify(config)}`,
+    `  choices: ${problem.choices.map((choice) => choice.value).join(', ')}`,
+  ].join('\n');
+}
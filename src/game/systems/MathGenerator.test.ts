@@ -1,4 +1,31 @@
-import { generateProblem, DEFAULT_MATH_CONFIG, type MathConfig } from './MathGenerator';
+import {
+  buildEquation,
+  evaluateExpression,
+  formatAnswer,
+  generateProblem,
+  getQuestionTokens,
+  hasEquation,
+  DEFAULT_MATH_CONFIG,
+  FAMILY_CONFIG,
+  PICTURE_CONFIG,
+  type EquationProblem,
+  type ExpressionNode,
+  type MathConfig,
+  type MathProblem,
+  type Operation,
+} from './MathGenerator';
+import { createRandom } from './Random';
+import { ProblemHistory, getProblemKey } from './ProblemHistory';
+import { TimesTableFacts } from './TimesTables';
+
+const choiceValues = (problem: MathProblem) => problem.choices.map((choice) => choice.value);
+
+// Arithmetic configs always give equation problems; narrows the type for the tests
+const generateEquationProblem = (...args: Parameters<typeof generateProblem>): EquationProblem => {
+  const problem = generateProblem(...args);
+  if (!hasEquation(problem)) throw new Error(`Expected an equation problem, got ${problem.kind}`);
+  return problem;
+};
 
 describe('MathGenerator', () => {
   describe('generateProblem', () => {
@@ -22,12 +49,12 @@ describe('MathGenerator', () => {
     it('includes the correct answer in choices', () => {
       const problem = generateProblem();
 
-      expect(problem.choices).toContain(problem.answer);
+      expect(choiceValues(problem)).toContain(problem.answer);
     });
 
     it('generates unique choices', () => {
       const problem = generateProblem();
-      const uniqueChoices = new Set(problem.choices);
+      const uniqueChoices = new Set(choiceValues(problem));
 
       expect(uniqueChoices.size).toBe(4);
     });
@@ -37,11 +64,29 @@ describe('MathGenerator', () => {
       for (let i = 0; i < 20; i++) {
         const problem = generateProblem();
         problem.choices.forEach((choice) => {
-          expect(choice).toBeGreaterThan(0);
+          expect(choice.value).toBeGreaterThan(0);
         });
       }
     });
 
+    it.each([2, 3, 4, 6] as const)('generates %i unique choices when asked', (choiceCount) => {
+      const { config } = setupTest({ choiceCount, operations: ['add', 'subtract', 'multiply'] });
+      const rng = createRandom(choiceCount);
+
+      for (let i = 0; i < 20; i++) {
+        const problem = generateProblem(config, rng);
+        const values = choiceValues(problem);
+
+        expect(new Set(values).size).toBe(choiceCount);
+        expect(values).toContain(problem.answer);
+      }
+    });
+
+    it('generates the requested choice count for picture problems', () => {
+      const { config } = setupTest({ choiceCount: 6, pictureMode: 'number-choices' });
+      expect(generateProblem(config).choices).toHaveLength(6);
+    });
+
     describe('addition problems', () => {
       it('generates valid addition question format', () => {
         const { config } = setupTest({ operations: ['add'], numTerms: 2 });
@@ -135,6 +180,34 @@ describe('MathGenerator', () => {
           });
         }
       });
+
+      it('keeps one factor in the chosen times tables', () => {
+        const { config } = setupTest({ operations: ['multiply'], timesTables: [3, 7] });
+        const rng = createRandom(19);
+
+        for (let i = 0; i < 30; i++) {
+          const [a, b] = generateEquationProblem(config, rng).equation.operands;
+          expect([3, 7].includes(a) || [3, 7].includes(b)).toBe(true);
+        }
+      });
+
+      it('brings back missed times-table facts', () => {
+        const { config } = setupTest({
+          operations: ['multiply'],
+          timesTables: [3, 7],
+        });
+        expect(config.repeatWindow).toBe(DEFAULT_MATH_CONFIG.repeatWindow);
+        const facts = new TimesTableFacts();
+        facts.record([7, 8], false);
+        const rng = createRandom(20);
+        const history = new ProblemHistory();
+
+        const products = Array.from(
+          { length: 50 },
+          () => generateEquationProblem(config, rng, history, facts).answer
+        );
+        expect(products.filter((product) => product === 56).length).toBeGreaterThan(10);
+      });
     });
 
     describe('division problems', () => {
@@ -217,6 +290,615 @@ describe('MathGenerator', () => {
       });
     });
 
+    describe('missing-operand format', () => {
+      it('puts the blank on an operand and the result on the right', () => {
+        const { config } = setupTest({
+          operations: ['add'],
+          formats: { add: 'missing-operand' },
+        });
+
+        for (let i = 0; i < 20; i++) {
+          const problem = generateEquationProblem(config);
+          const { operands, result, unknown } = problem.equation;
+
+          expect(unknown).not.toBe('result');
+          expect(problem.answer).toBe(operands[unknown as number]);
+          expect(operands[0] + operands[1]).toBe(result);
+          expect(problem.question).toMatch(/^(\? \+ \d+|\d+ \+ \?) = \d+$/);
+          expect(choiceValues(problem)).toContain(problem.answer);
+        }
+      });
+
+      it('supports missing operands for every operation', () => {
+        const operations: Operation[] = ['add', 'subtract', 'multiply', 'divide', 'square'];
+        operations.forEach((operation) => {
+          const { config } = setupTest({
+            operations: [operation],
+            formats: { [operation]: 'missing-operand' },
+          });
+          const problem = generateEquationProblem(config);
+
+          expect(problem.equation.unknown).not.toBe('result');
+          expect(problem.question).toContain('?');
+          expect(problem.question).not.toMatch(/= \?$/);
+        });
+      });
+
+      it('keeps the result format for operations without a missing-operand setting', () => {
+        const { config } = setupTest({
+          operations: ['subtract'],
+          formats: { add: 'missing-operand' },
+        });
+        const problem = generateEquationProblem(config);
+
+        expect(problem.equation.unknown).toBe('result');
+        expect(problem.answer).toBe(problem.equation.result);
+      });
+    });
+
+    describe('picture problems', () => {
+      it('draws addition as a starting group plus objects that appear', () => {
+        const { config } = setupTest({ operations: ['add'], pictureMode: 'number-choices' });
+
+        for (let i = 0; i < 20; i++) {
+          const problem = generateProblem(config);
+          if (problem.kind !== 'picture') throw new Error('expected a picture problem');
+
+          const [start, added] = problem.picture.groups;
+          expect(start.style).toBe('start');
+          expect(added.style).toBe('added');
+          expect(problem.answer).toBe(start.count + added.count);
+          expect(problem.answer).toBeLessThanOrEqual(PICTURE_CONFIG.MAX_OBJECTS);
+          expect(problem.question).toContain(problem.picture.item.pluralName);
+        }
+      });
+
+      it('draws subtraction as remaining objects plus crossed-out ones', () => {
+        const { config } = setupTest({ operations: ['subtract'], pictureMode: 'number-choices' });
+
+        for (let i = 0; i < 20; i++) {
+          const problem = generateProblem(config);
+          if (problem.kind !== 'picture') throw new Error('expected a picture problem');
+
+          const [left, removed] = problem.picture.groups;
+          expect(removed.style).toBe('removed');
+          expect(problem.answer).toBe(left.count);
+          expect(left.count + removed.count).toBeLessThanOrEqual(PICTURE_CONFIG.MAX_OBJECTS);
+          expect(choiceValues(problem)).toContain(problem.answer);
+        }
+      });
+
+      it('records whether choices should be drawn as pictures', () => {
+        const { config } = setupTest({ operations: ['add'], pictureMode: 'picture-choices' });
+        const problem = generateProblem(config);
+
+        expect(problem.kind === 'picture' && problem.picture.pictureChoices).toBe(true);
+      });
+
+      it('keeps other operations written', () => {
+        const { config } = setupTest({ operations: ['multiply'], pictureMode: 'number-choices' });
+        expect(generateProblem(config).kind).toBe('symbolic');
+      });
+
+      it('generates written problems when picture mode is off', () => {
+        expect(generateProblem().kind).toBe('symbolic');
+      });
+    });
+
+    describe('getQuestionTokens', () => {
+      it('marks the unknown token', () => {
+        const tokens = getQuestionTokens({ equation: buildEquation('multiply', [4, 3], 1) });
+
+        expect(tokens.map((t) => t.text)).toEqual(['4', '×', '?', '=', '12']);
+        expect(tokens.filter((t) => t.unknown)).toHaveLength(1);
+      });
+
+      it('attaches the square symbol to the base', () => {
+        const tokens = getQuestionTokens({ equation: buildEquation('square', [5]) });
+
+        expect(tokens[0]).toEqual({ text: '5', unknown: false, suffix: '²' });
+      });
+    });
+
+    describe('structured problems', () => {
+      it('builds the expression tree left to right', () => {
+        const equation = buildEquation('subtract', [9, 3, 2]);
+
+        expect(equation.expression).toEqual({
+          type: 'binary',
+          operation: 'subtract',
+          left: {
+            type: 'binary',
+            operation: 'subtract',
+            left: { type: 'number', value: 9 },
+            right: { type: 'number', value: 3 },
+          },
+          right: { type: 'number', value: 2 },
+        });
+        expect(equation.operands).toEqual([9, 3, 2]);
+        expect(equation.result).toBe(4);
+      });
+
+      it('derives the answer and question from the expression', () => {
+        const { config } = setupTest({
+          operations: ['add', 'subtract', 'multiply', 'divide', 'square'],
+        });
+        const rng = createRandom(21);
+
+        for (let i = 0; i < 30; i++) {
+          const problem = generateEquationProblem(config, rng);
+          const tokenText = getQuestionTokens(problem)
+            .map((token) => (token.prefix ?? '') + token.text + (token.suffix ?? ''))
+            .join(' ');
+
+          expect(evaluateExpression(problem.equation.expression)).toBe(problem.equation.result);
+          expect(problem.question).toBe(tokenText);
+        }
+      });
+
+      it('gives every problem a unique id, even for repeated questions', () => {
+        const { config } = setupTest({ maxNumber: 2 });
+        const rng = createRandom(8);
+        const problems = Array.from({ length: 20 }, () => generateProblem(config, rng));
+
+        expect(new Set(problems.map((problem) => problem.id)).size).toBe(20);
+        expect(new Set(problems.map((problem) => problem.question)).size).toBeLessThan(20);
+      });
+    });
+
+    describe('mixed operations', () => {
+      const isWholeAndNonNegative = (node: ExpressionNode): boolean => {
+        if (node.type === 'number') return node.value >= 0;
+        if (node.type === 'square') return isWholeAndNonNegative(node.operand);
+        const value = evaluateExpression(node);
+        return (
+          Number.isInteger(value) &&
+          value >= 0 &&
+          isWholeAndNonNegative(node.left) &&
+          isWholeAndNonNegative(node.right)
+        );
+      };
+
+      it('evaluates × before +', () => {
+        const expression: ExpressionNode = {
+          type: 'binary',
+          operation: 'add',
+          left: { type: 'number', value: 2 },
+          right: {
+            type: 'binary',
+            operation: 'multiply',
+            left: { type: 'number', value: 3 },
+            right: { type: 'number', value: 4 },
+          },
+        };
+
+        expect(evaluateExpression(expression)).toBe(14);
+        expect(
+          getQuestionTokens({
+            equation: { expression, operands: [2, 3, 4], result: 14, unknown: 'result' },
+          })
+            .map((token) => token.text)
+            .join(' ')
+        ).toBe('2 + 3 × 4 = ?');
+      });
+
+      it('wraps lower-precedence groups in parentheses', () => {
+        const expression: ExpressionNode = {
+          type: 'binary',
+          operation: 'multiply',
+          left: {
+            type: 'binary',
+            operation: 'add',
+            left: { type: 'number', value: 2 },
+            right: { type: 'number', value: 3 },
+          },
+          right: { type: 'number', value: 4 },
+        };
+        const tokens = getQuestionTokens({
+          equation: { expression, operands: [2, 3, 4], result: 20, unknown: 'result' },
+        });
+
+        expect(tokens[0].prefix).toBe('(');
+        expect(tokens[2].suffix).toBe(')');
+        expect(evaluateExpression(expression)).toBe(20);
+      });
+
+      it('mixes at least two operations with whole, non-negative steps', () => {
+        const { config } = setupTest({
+          operations: ['add', 'subtract', 'multiply', 'divide'],
+          numTerms: 4,
+          maxNumber: 12,
+          expressionMode: 'mixed',
+        });
+        const rng = createRandom(13);
+
+        for (let i = 0; i < 100; i++) {
+          const problem = generateEquationProblem(config, rng);
+          const symbols = problem.question.match(/[+\-×÷]/g) ?? [];
+
+          expect(problem.equation.operands).toHaveLength(4);
+          expect(new Set(symbols).size).toBeGreaterThan(1);
+          expect(problem.question).not.toContain('(');
+          expect(isWholeAndNonNegative(problem.equation.expression)).toBe(true);
+          expect(problem.answer).toBe(evaluateExpression(problem.equation.expression));
+        }
+      });
+
+      it('uses at least three terms', () => {
+        const { config } = setupTest({
+          operations: ['add', 'multiply'],
+          numTerms: 2,
+          expressionMode: 'mixed',
+        });
+        expect(generateEquationProblem(config).equation.operands).toHaveLength(3);
+      });
+
+      it('adds parentheses in parentheses mode', () => {
+        const { config } = setupTest({
+          operations: ['add', 'subtract', 'multiply', 'divide'],
+          maxNumber: 10,
+          expressionMode: 'parentheses',
+        });
+        const rng = createRandom(17);
+        let grouped = 0;
+
+        for (let i = 0; i < 100; i++) {
+          const problem = generateEquationProblem(config, rng);
+          if (problem.question.includes('(')) grouped++;
+
+          expect(isWholeAndNonNegative(problem.equation.expression)).toBe(true);
+          expect(problem.answer).toBe(evaluateExpression(problem.equation.expression));
+        }
+
+        expect(grouped).toBeGreaterThan(0);
+      });
+
+      it('offers the left-to-right answer as a wrong choice', () => {
+        const { config } = setupTest({
+          operations: ['add', 'multiply'],
+          expressionMode: 'mixed',
+        });
+        const rng = createRandom(2);
+        let seen = 0;
+
+        for (let i = 0; i < 50; i++) {
+          const problem = generateProblem(config, rng);
+          if (problem.choices.some((choice) => choice.misconception === 'order-of-operations')) {
+            seen++;
+          }
+        }
+
+        expect(seen).toBeGreaterThan(0);
+      });
+
+      it('keeps single-operation problems when only one operation is enabled', () => {
+        const { config } = setupTest({ operations: ['add'], expressionMode: 'mixed' });
+        expect(generateProblem(config).question).toMatch(/^\d+ \+ \d+ = \?$/);
+      });
+    });
+
+    describe('comparison problems', () => {
+      it('asks which of two different numbers is bigger', () => {
+        const { config } = setupTest({ operations: ['compare'], maxNumber: 10 });
+        const rng = createRandom(8);
+
+        for (let i = 0; i < 30; i++) {
+          const problem = generateProblem(config, rng);
+          if (problem.kind !== 'comparison') throw new Error('Expected a comparison');
+          const [first, second] = problem.numbers;
+
+          expect(first).not.toBe(second);
+          expect(problem.answer).toBe(Math.max(first, second));
+          expect(choiceValues(problem)).toEqual([first, second]);
+          expect(problem.question).toBe(`Which is bigger: ${first} or ${second}?`);
+        }
+      });
+
+      it('marks the smaller number as counting the wrong way', () => {
+        const { config } = setupTest({ operations: ['compare'] });
+        const problem = generateProblem(config, createRandom(2));
+        const smaller = problem.choices.find((choice) => choice.value !== problem.answer);
+
+        expect(smaller?.misconception).toBe('wrong-direction');
+      });
+    });
+
+    describe('skip-counting problems', () => {
+      it('asks for the next number counting by 2s, 5s or 10s', () => {
+        const { config } = setupTest({ operations: ['skip-count'] });
+        const rng = createRandom(17);
+
+        for (let i = 0; i < 30; i++) {
+          const problem = generateProblem(config, rng);
+          if (problem.kind !== 'sequence') throw new Error('Expected a sequence');
+          const { terms, unknown, step } = problem.sequence;
+
+          expect(FAMILY_CONFIG.SKIP_STEPS).toContain(step);
+          expect(terms).toHaveLength(FAMILY_CONFIG.SEQUENCE_LENGTH);
+          expect(terms[0] % step).toBe(0);
+          terms.slice(1).forEach((term, index) => expect(term - terms[index]).toBe(step));
+          expect(unknown).toBe(terms.length - 1);
+          expect(problem.answer).toBe(terms[unknown]);
+          expect(problem.choices).toHaveLength(4);
+        }
+      });
+
+      it('writes the run with the blank last', () => {
+        const { config } = setupTest({ operations: ['skip-count'] });
+        const problem = generateProblem(config, createRandom(3));
+
+        expect(problem.question).toMatch(/^\d+, \d+, \d+, \?$/);
+      });
+
+      it('keeps the run within the max number', () => {
+        [5, 10, 20].forEach((maxNumber) => {
+          const { config } = setupTest({ operations: ['skip-count'], maxNumber });
+          const rng = createRandom(maxNumber);
+
+          for (let i = 0; i < 30; i++) {
+            const problem = generateProblem(config, rng);
+            if (problem.kind !== 'sequence') throw new Error('Expected a sequence');
+
+            expect(problem.answer).toBeLessThanOrEqual(maxNumber);
+          }
+        });
+      });
+    });
+
+    describe('number bond problems', () => {
+      it('asks for the missing part of 10', () => {
+        const { config } = setupTest({ operations: ['bonds'], maxNumber: 30 });
+        const rng = createRandom(6);
+
+        for (let i = 0; i < 30; i++) {
+          const problem = generateEquationProblem(config, rng);
+          const { operands, result, unknown } = problem.equation;
+
+          expect(problem.operation).toBe('bonds');
+          expect(result).toBe(FAMILY_CONFIG.BOND_TOTAL);
+          expect(unknown).not.toBe('result');
+          expect(operands[0] + operands[1]).toBe(10);
+          expect(problem.answer).toBe(operands[unknown as number]);
+        }
+      });
+    });
+
+    describe('before and after problems', () => {
+      it('asks for the number just before or after', () => {
+        const { config } = setupTest({ operations: ['before-after'], maxNumber: 20 });
+        const rng = createRandom(12);
+        const seen = new Set<number>();
+
+        for (let i = 0; i < 30; i++) {
+          const problem = generateProblem(config, rng);
+          if (problem.kind !== 'sequence') throw new Error('Expected a sequence');
+          const { terms, unknown } = problem.sequence;
+
+          expect(terms).toHaveLength(2);
+          expect(terms[1] - terms[0]).toBe(1);
+          expect(terms[1 - unknown]).toBeLessThanOrEqual(20);
+          expect(problem.answer).toBe(terms[unknown]);
+          seen.add(unknown);
+        }
+
+        // Both before (blank first) and after (blank last) come up
+        expect(seen).toEqual(new Set([0, 1]));
+      });
+
+      it('never asks for a number before 1', () => {
+        const { config } = setupTest({ operations: ['before-after'], maxNumber: 2 });
+        const rng = createRandom(5);
+
+        for (let i = 0; i < 30; i++) {
+          const problem = generateProblem(config, rng);
+
+          expect(problem.answer).toBeGreaterThanOrEqual(1);
+          problem.choices.forEach(({ value }) => expect(value).toBeGreaterThanOrEqual(0));
+        }
+      });
+    });
+
+    describe('clock problems', () => {
+      it("shows o'clock or half past and asks for the time", () => {
+        const { config } = setupTest({ operations: ['time'], choiceCount: 6 });
+        const rng = createRandom(14);
+
+        for (let i = 0; i < 20; i++) {
+          const problem = generateProblem(config, rng);
+          if (problem.kind !== 'clock') throw new Error('Expected a clock');
+          const { hours, minutes } = problem.time;
+
+          expect(hours).toBeGreaterThanOrEqual(1);
+          expect(hours).toBeLessThanOrEqual(12);
+          expect([0, 30]).toContain(minutes);
+          expect(problem.answer).toBe(hours * 100 + minutes);
+          expect(new Set(choiceValues(problem)).size).toBe(6);
+          choiceValues(problem).forEach((value) => {
+            expect([0, 30]).toContain(value % 100);
+          });
+        }
+      });
+
+      it('formats times for the answer buttons', () => {
+        const problem = generateProblem({ ...DEFAULT_MATH_CONFIG, operations: ['time'] });
+        expect(formatAnswer(problem, 330)).toBe('3:30');
+        expect(formatAnswer(problem, 1200)).toBe('12:00');
+      });
+    });
+
+    describe('coin problems', () => {
+      it('adds up coins worth no more than maxNumber cents', () => {
+        const { config } = setupTest({ operations: ['money'], maxNumber: 30 });
+        const rng = createRandom(15);
+
+        for (let i = 0; i < 20; i++) {
+          const problem = generateProblem(config, rng);
+          if (problem.kind !== 'coins') throw new Error('Expected coins');
+          const total = problem.coins.reduce((sum, coin) => sum + coin.value, 0);
+
+          expect(problem.answer).toBe(total);
+          expect(total).toBeLessThanOrEqual(30);
+          expect(choiceValues(problem)).toContain(total);
+        }
+      });
+
+      it('formats amounts in cents', () => {
+        const problem = generateProblem({ ...DEFAULT_MATH_CONFIG, operations: ['money'] });
+        expect(formatAnswer(problem, 37)).toBe('37¢');
+      });
+    });
+
+    it('mixes new families with equations', () => {
+      const { config } = setupTest({ operations: ['add', 'compare', 'skip-count'] });
+      const rng = createRandom(30);
+      const kinds = new Set(Array.from({ length: 40 }, () => generateProblem(config, rng).kind));
+
+      expect(kinds).toEqual(new Set(['symbolic', 'comparison', 'sequence']));
+    });
+
+    describe('misconception distractors', () => {
+      const misconceptionFor = (problem: MathProblem, value: number) =>
+        problem.choices.find((choice) => choice.value === value)?.misconception;
+
+      it('marks the correct answer with no misconception', () => {
+        const problem = generateProblem();
+        expect(misconceptionFor(problem, problem.answer)).toBeNull();
+      });
+
+      it('keeps wrong answers unique, positive and whole', () => {
+        const { config } = setupTest({
+          operations: ['add', 'subtract', 'multiply', 'divide', 'square'],
+          maxNumber: 12,
+        });
+        const rng = createRandom(7);
+
+        for (let i = 0; i < 100; i++) {
+          const problem = generateProblem(config, rng);
+          const values = choiceValues(problem);
+
+          expect(new Set(values).size).toBe(4);
+          values.forEach((value) => {
+            expect(Number.isInteger(value)).toBe(true);
+            expect(value).toBeGreaterThan(0);
+          });
+        }
+      });
+
+      it('offers the sum as a wrong answer to subtraction', () => {
+        const { config } = setupTest({ operations: ['subtract'], maxNumber: 20 });
+        const rng = createRandom(11);
+        let seen = 0;
+
+        for (let i = 0; i < 50; i++) {
+          const problem = generateEquationProblem(config, rng);
+          const [a, b] = problem.equation.operands;
+          if (misconceptionFor(problem, a + b) === 'wrong-operation') seen++;
+        }
+
+        expect(seen).toBeGreaterThan(0);
+      });
+
+      it('offers the base as a wrong answer to squares', () => {
+        const { config } = setupTest({ operations: ['square'], maxNumber: 10 });
+        const rng = createRandom(5);
+        let seen = 0;
+
+        for (let i = 0; i < 50; i++) {
+          const problem = generateEquationProblem(config, rng);
+          const base = problem.equation.operands[0];
+          if (base > 1 && misconceptionFor(problem, base) === 'forgot-square') seen++;
+        }
+
+        expect(seen).toBeGreaterThan(0);
+      });
+
+      it('offers neighbouring table facts as wrong answers to multiplication', () => {
+        const { config } = setupTest({ operations: ['multiply'], maxNumber: 10 });
+        const rng = createRandom(3);
+        const misconceptions = new Set<string | null>();
+
+        for (let i = 0; i < 50; i++) {
+          generateProblem(config, rng).choices.forEach((choice) =>
+            misconceptions.add(choice.misconception)
+          );
+        }
+
+        expect(misconceptions).toContain('wrong-factor');
+      });
+
+      it('only labels neighbouring values as off-by-one', () => {
+        const { config } = setupTest({ operations: ['add'], maxNumber: 20 });
+        const rng = createRandom(9);
+
+        for (let i = 0; i < 20; i++) {
+          const problem = generateProblem(config, rng);
+          problem.choices
+            .filter((choice) => choice.misconception === 'off-by-one')
+            .forEach((choice) => {
+              expect(Math.abs(choice.value - problem.answer)).toBe(1);
+            });
+        }
+      });
+    });
+
+    describe('problem history', () => {
+      it('avoids repeating facts within the window', () => {
+        const { config } = setupTest({ operations: ['add'], maxNumber: 10, repeatWindow: 8 });
+        const rng = createRandom(4);
+        const history = new ProblemHistory();
+        const keys = Array.from({ length: 30 }, () =>
+          getProblemKey(generateProblem(config, rng, history))
+        );
+
+        keys.forEach((key, index) => {
+          expect(keys.slice(Math.max(0, index - 8), index)).not.toContain(key);
+        });
+      });
+
+      it('carries over between races sharing a history', () => {
+        const { config } = setupTest({ operations: ['add'], maxNumber: 10, repeatWindow: 10 });
+        const history = new ProblemHistory();
+        const firstRace = Array.from({ length: 3 }, () =>
+          getProblemKey(generateProblem(config, createRandom(99), history))
+        );
+        const secondRace = Array.from({ length: 3 }, () =>
+          getProblemKey(generateProblem(config, createRandom(99), history))
+        );
+
+        expect(new Set([...firstRace, ...secondRace]).size).toBe(6);
+      });
+
+      it('still returns a problem when every fact is recent', () => {
+        const { config } = setupTest({ operations: ['add'], maxNumber: 1, repeatWindow: 10 });
+        const history = new ProblemHistory();
+        generateProblem(config, createRandom(1), history);
+
+        expect(generateProblem(config, createRandom(1), history).question).toBe('1 + 1 = ?');
+      });
+
+      it('allows repeats when the window is 0', () => {
+        const { config } = setupTest({ operations: ['add'], maxNumber: 10, repeatWindow: 0 });
+        const history = new ProblemHistory();
+        const first = generateProblem(config, createRandom(5), history);
+
+        expect(generateProblem(config, createRandom(5), history).question).toBe(first.question);
+      });
+    });
+
+    describe('seeded random source', () => {
+      it('generates identical problems for the same seed', () => {
+        const { config } = setupTest({
+          operations: ['add', 'subtract', 'multiply', 'divide', 'square'],
+        });
+        const rngA = createRandom(314);
+        const rngB = createRandom(314);
+
+        for (let i = 0; i < 10; i++) {
+          expect(generateProblem(config, rngA)).toEqual(generateProblem(config, rngB));
+        }
+      });
+    });
+
     describe('default configuration', () => {
       it('uses default config when none provided', () => {
         const problem = generateProblem();
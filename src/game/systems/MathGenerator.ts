@@ -3,50 +3,381 @@
  * Generates configurable math problems with multiple choice answers
  */
 
-export type Operation = 'add' | 'subtract' | 'multiply' | 'divide' | 'square';
+import { createRandom, type RandomSource } from './Random';
+import { HISTORY_CONFIG, type ProblemHistory } from './ProblemHistory';
+import {
+  buildClockChoices,
+  formatClockTime,
+  generateClockTime,
+  toClockValue,
+  type ClockTime,
+} from './ClockProblems';
+import {
+  formatCents,
+  generateCoins,
+  getCoinDistractors,
+  getCoinTotal,
+  type Coin,
+} from './CoinProblems';
+import { pickTimesTableFact, type TimesTableFacts } from './TimesTables';
+import { COUNTING_ITEMS, type CountingItem } from '../../data/countingItems';
+
+/** Operations written between two numbers */
+export type BinaryOperation = 'add' | 'subtract' | 'multiply' | 'divide';
+
+/** Operations that are asked as an equation such as 3 + 4 = ? */
+export type EquationOperation = BinaryOperation | 'square';
+
+/**
+ * Kinds of question the player can be asked
+ * - the arithmetic operations (add, subtract, multiply, divide, square)
+ * - 'compare': which of two numbers is bigger
+ * - 'skip-count': what comes next when counting by 2s, 5s or 10s
+ * - 'bonds': pairs that make 10 (7 + ? = 10)
+ * - 'before-after': the number just before or after another
+ * - 'time': reading o'clock and half past on an analog clock
+ * - 'money': adding up a handful of coins
+ */
+export type Operation =
+  | EquationOperation
+  | 'compare'
+  | 'skip-count'
+  | 'bonds'
+  | 'before-after'
+  | 'time'
+  | 'money';
+
+/**
+ * Where the blank goes in a problem
+ * - 'result': 3 + 4 = ?
+ * - 'missing-operand': 3 + ? = 7
+ */
+export type ProblemFormat = 'result' | 'missing-operand';
+
+/**
+ * Picture (counting) problems for pre-readers
+ * - 'off': always show written problems
+ * - 'number-choices': draw objects to count, answer with numbers
+ * - 'picture-choices': draw objects to count, answer with groups of objects
+ */
+export type PictureMode = 'off' | 'number-choices' | 'picture-choices';
+
+/**
+ * How operations combine within one problem
+ * - 'single': one operation per problem (3 + 4 + 2)
+ * - 'mixed': several operations, ordered by precedence (2 + 3 × 4)
+ * - 'parentheses': several operations, with grouping (2 × (3 + 4))
+ */
+export type ExpressionMode = 'single' | 'mixed' | 'parentheses';
+
+/** Number of answer buttons offered */
+export type ChoiceCount = 2 | 3 | 4 | 6;
+
+export const CHOICE_COUNTS: ChoiceCount[] = [2, 3, 4, 6];
+
+/**
+ * How the player answers
+ * - 'choices': tap one of the answer buttons
+ * - 'number-pad': type the answer on an on-screen number pad
+ * - 'voice': say the answer out loud, with the buttons to tap as a fallback
+ */
+export type AnswerMode = 'choices' | 'number-pad' | 'voice';
+
+/**
+ * Visual aid drawn under add/subtract questions up to 20
+ * - 'ten-frame': counters in frames of ten
+ * - 'number-line': hops along a number line
+ */
+export type VisualAid = 'off' | 'ten-frame' | 'number-line';
+
+/** When the visual aid appears: from the start, or once an answer has been missed */
+export type VisualAidTiming = 'always' | 'after-wrong';
 
 export interface MathConfig {
   operations: Operation[];
   maxNumber: number;
   numTerms: number;
+  /** Problem format per operation (operations not listed use 'result') */
+  formats: Partial<Record<Operation, ProblemFormat>>;
+  /** Picture mode for add/subtract problems */
+  pictureMode: PictureMode;
+  /** Whether problems mix +, −, × and ÷ (needs at least two of them enabled) */
+  expressionMode: ExpressionMode;
+  /** How many recent problems to avoid repeating when a history is passed (0 allows repeats) */
+  repeatWindow: number;
+  /**
+   * Number of answer choices, including the correct one
+   * ("which is bigger?" always offers its two numbers, whatever this is)
+   */
+  choiceCount: ChoiceCount;
+  answerMode: AnswerMode;
+  /** When true, wrong choices are greyed out and the player keeps trying */
+  retryUntilCorrect: boolean;
+  /** Misses before a hint is shown in retry mode */
+  hintAfterMisses: number;
+  visualAid: VisualAid;
+  visualAidTiming: VisualAidTiming;
+  /** Times tables to focus multiplication on, e.g. [3, 7] (empty = any two factors) */
+  timesTables: number[];
 }
 
-export interface MathProblem {
+/**
+ * Expression tree for the left-hand side of a problem
+ * - 'number': a single operand
+ * - 'binary': left (op) right, e.g. 3 + 4
+ * - 'square': operand², e.g. 5²
+ */
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'binary'; operation: BinaryOperation; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'square'; operand: ExpressionNode };
+
+/**
+ * Structured form of a problem: expression = result
+ */
+export interface MathEquation {
+  expression: ExpressionNode;
+  /** Number leaves of the expression, left to right */
+  operands: number[];
+  result: number;
+  /** The blank: an index into operands, or 'result' */
+  unknown: number | 'result';
+}
+
+/**
+ * How a group of counting objects is drawn
+ * - 'start': objects that were there from the beginning
+ * - 'added': objects that appear (addition)
+ * - 'removed': objects that get crossed out (subtraction)
+ */
+export type CountingGroupStyle = 'start' | 'added' | 'removed';
+
+export interface CountingGroup {
+  count: number;
+  style: CountingGroupStyle;
+}
+
+/**
+ * A set of countable objects shown instead of a written equation
+ */
+export interface CountingPicture {
+  item: CountingItem;
+  groups: CountingGroup[];
+  /** Whether answer choices are drawn as objects instead of numbers */
+  pictureChoices: boolean;
+}
+
+/**
+ * Common mistakes a wrong choice can represent
+ * - 'off-by-one': counting one too many or too few
+ * - 'wrong-operation': e.g. adding instead of subtracting
+ * - 'digit-reversal': writing 21 instead of 12
+ * - 'wrong-factor': multiplying by a neighbouring factor (4 × 6 instead of 4 × 5)
+ * - 'forgot-square': answering the base instead of its square
+ * - 'doubled-not-squared': doubling the base instead of squaring it
+ * - 'order-of-operations': working strictly left to right, ignoring × before + and parentheses
+ * - 'wrong-direction': counting back instead of on (or picking the smaller number)
+ * - 'wrong-step': counting on by one (or two steps) instead of one skip
+ * - 'wrong-hour': reading the hour the hour hand is nearest, not the one it has passed
+ * - 'wrong-hand': mixing up o'clock and half past
+ * - 'counted-coins': counting the coins instead of adding up their values
+ * - 'wrong-coin': swapping the values of nickels and dimes
+ */
+export type Misconception =
+  | 'off-by-one'
+  | 'wrong-operation'
+  | 'digit-reversal'
+  | 'wrong-factor'
+  | 'forgot-square'
+  | 'doubled-not-squared'
+  | 'order-of-operations'
+  | 'wrong-direction'
+  | 'wrong-step'
+  | 'wrong-hour'
+  | 'wrong-hand'
+  | 'counted-coins'
+  | 'wrong-coin';
+
+/**
+ * An answer choice; wrong choices record which mistake they represent
+ * (null for the correct answer and for plain random distractors)
+ */
+export interface MathChoice {
+  value: number;
+  misconception: Misconception | null;
+}
+
+/**
+ * A run of evenly spaced numbers with one left blank, e.g. 2, 4, 6, ?
+ */
+export interface NumberSequence {
+  terms: number[];
+  /** Index of the blank term */
+  unknown: number;
+  /** Difference between neighbouring terms */
+  step: number;
+}
+
+interface MathProblemBase {
+  /** Unique per generated problem, so repeats of the same question stay distinct */
+  id: string;
+  /** Display string, derived from the structured problem (or written words for pictures) */
   question: string;
   answer: number;
-  choices: number[];
+  choices: MathChoice[];
+  operation: Operation;
 }
 
-// Default configuration for easy difficulty
-export const DEFAULT_MATH_CONFIG: MathConfig = {
-  operations: ['add'],
-  maxNumber: 10,
-  numTerms: 2,
-};
+/** A written problem such as 3 + 4 = ? */
+export interface SymbolicProblem extends MathProblemBase {
+  kind: 'symbolic';
+  equation: MathEquation;
+}
+
+/** A counting problem drawn with pictures */
+export interface PictureProblem extends MathProblemBase {
+  kind: 'picture';
+  equation: MathEquation;
+  picture: CountingPicture;
+}
+
+/** "Which is bigger?" between two numbers; the choices are the numbers themselves */
+export interface ComparisonProblem extends MathProblemBase {
+  kind: 'comparison';
+  numbers: [number, number];
+}
+
+/** A number missing from a sequence (skip counting, or before/after) */
+export interface SequenceProblem extends MathProblemBase {
+  kind: 'sequence';
+  sequence: NumberSequence;
+}
+
+/** "What time is it?" on an analog clock; answers are times written as numbers (3:30 is 330) */
+export interface ClockProblem extends MathProblemBase {
+  kind: 'clock';
+  time: ClockTime;
+}
+
+/** "How much money?" for a handful of coins; answers are in cents */
+export interface CoinProblem extends MathProblemBase {
+  kind: 'coins';
+  coins: Coin[];
+}
+
+/** A fixed question from a problem pack, with its own choices and an optional picture */
+export interface PackProblem extends Omit<MathProblemBase, 'operation'> {
+  kind: 'pack';
+  /** Pack questions aren't tied to an operation, so they don't move adaptive difficulty */
+  operation: null;
+  /** Name of the pack the question came from */
+  packName: string;
+  /** Picture shown above the question */
+  image?: string;
+}
+
+/** Problems built from an equation tree */
+export type EquationProblem = SymbolicProblem | PictureProblem;
+
+export type MathProblem =
+  | SymbolicProblem
+  | PictureProblem
+  | ComparisonProblem
+  | SequenceProblem
+  | ClockProblem
+  | CoinProblem
+  | PackProblem;
 
 /**
- * Generates a random integer between min and max (inclusive)
+ * Whether a problem is an equation (and so can be drawn, hinted or spoken as one)
  */
-function randomInt(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+export function hasEquation(problem: MathProblem): problem is EquationProblem {
+  return problem.kind === 'symbolic' || problem.kind === 'picture';
 }
 
 /**
- * Shuffles an array in place using Fisher-Yates algorithm
+ * Formats an answer for this problem's buttons and feedback (3:30 for clocks, 37¢ for coins)
  */
-function shuffleArray<T>(array: T[]): T[] {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+export function formatAnswer(problem: MathProblem, value: number): string {
+  switch (problem.kind) {
+    case 'clock':
+      return formatClockTime(value);
+    case 'coins':
+      return formatCents(value);
+    default:
+      return value.toString();
   }
-  return shuffled;
 }
 
+/**
+ * A display token of a question (a number, an operator or the blank)
+ */
+export interface QuestionToken {
+  text: string;
+  unknown: boolean;
+  /** Text attached directly before this token (e.g. an opening parenthesis) */
+  prefix?: string;
+  /** Text attached directly after this token (e.g. ² for squares) */
+  suffix?: string;
+}
+
+// Default configuration for easy difficulty
+export const DEFAULT_MATH_CONFIG: MathConfig = {
+  operations: ['add'],
+  maxNumber: 10,
+  numTerms: 2,
+  formats: {},
+  pictureMode: 'off',
+  expressionMode: 'single',
+  repeatWindow: HISTORY_CONFIG.WINDOW_SIZE,
+  choiceCount: 4,
+  answerMode: 'choices',
+  retryUntilCorrect: false,
+  hintAfterMisses: 2,
+  visualAid: 'off',
+  visualAidTiming: 'always',
+  timesTables: [],
+};
+
+// Constants for picture (counting) problems
+export const PICTURE_CONFIG = {
+  MAX_OBJECTS: 10, // Most objects drawn at once, to keep counting manageable
+  OPERATIONS: ['add', 'subtract'] as Operation[], // Operations that can be drawn
+};
+
+// Constants for the non-equation problem families
+export const FAMILY_CONFIG = {
+  SKIP_STEPS: [2, 5, 10], // What skip counting counts by
+  SEQUENCE_LENGTH: 4, // Numbers shown in a skip-counting run, including the blank
+  MAX_SKIP_START: 5, // Skip counting starts at up to this many steps in
+  BOND_TOTAL: 10, // Number bonds make this number
+};
+
+/** Operations that can be mixed in one expression */
+const BINARY_OPERATIONS: BinaryOperation[] = ['add', 'subtract', 'multiply', 'divide'];
+
+// Constants for mixed-operation expressions
+export const MIXED_CONFIG = {
+  MIN_TERMS: 3, // Mixed expressions need at least two operators
+  MAX_FACTOR: 10, // Largest number multiplied or divided by, matching single-operation problems
+  MAX_ATTEMPTS: 50, // Tries at finding whole, non-negative values before falling back
+};
+
+// × and ÷ bind tighter than + and −
+const PRECEDENCE: Record<BinaryOperation, number> = {
+  add: 1,
+  subtract: 1,
+  multiply: 2,
+  divide: 2,
+};
+
+// Unseeded source used when callers don't need reproducible problems
+const defaultRandom = createRandom();
+
 /**
  * Gets the operator symbol for display
  */
-function getOperatorSymbol(operation: Operation): string {
+function getOperatorSymbol(operation: BinaryOperation): string {
   switch (operation) {
     case 'add':
       return '+';
@@ -56,15 +387,13 @@ function getOperatorSymbol(operation: Operation): string {
       return '×';
     case 'divide':
       return '÷';
-    case 'square':
-      return '²';
   }
 }
 
 /**
  * Performs the mathematical operation
  */
-function performOperation(a: number, b: number, operation: Operation): number {
+function performOperation(a: number, b: number, operation: BinaryOperation): number {
   switch (operation) {
     case 'add':
       return a + b;
@@ -74,27 +403,134 @@ function performOperation(a: number, b: number, operation: Operation): number {
       return a * b;
     case 'divide':
       return a / b;
+  }
+}
+
+/**
+ * Creates a unique problem id from the random source, so seeded runs get the same ids
+ */
+export function createProblemId(rng: RandomSource): string {
+  return `problem-${rng.int(0, 0xffffffff).toString(36)}${rng.int(0, 0xffffffff).toString(36)}`;
+}
+
+/**
+ * Evaluates an expression tree
+ */
+export function evaluateExpression(node: ExpressionNode): number {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'binary':
+      return performOperation(
+        evaluateExpression(node.left),
+        evaluateExpression(node.right),
+        node.operation
+      );
+    case 'square': {
+      const value = evaluateExpression(node.operand);
+      return value * value;
+    }
+  }
+}
+
+/**
+ * Lists the operators of an expression in reading order
+ */
+function getOperators(node: ExpressionNode): BinaryOperation[] {
+  switch (node.type) {
+    case 'number':
+      return [];
+    case 'binary':
+      return [...getOperators(node.left), node.operation, ...getOperators(node.right)];
     case 'square':
-      return a * a;
+      return getOperators(node.operand);
   }
 }
 
+/**
+ * Whether a sub-expression has to be wrapped in parentheses to read correctly
+ * Equal precedence reads left to right, so only a right-hand group needs them
+ */
+export function needsParentheses(
+  child: ExpressionNode,
+  parent: BinaryOperation,
+  side: 'left' | 'right'
+): boolean {
+  if (child.type !== 'binary') return false;
+  const childPrecedence = PRECEDENCE[child.operation];
+  const parentPrecedence = PRECEDENCE[parent];
+  if (childPrecedence !== parentPrecedence) return childPrecedence < parentPrecedence;
+  return side === 'right';
+}
+
+/**
+ * Lists the number leaves of an expression, left to right
+ */
+function getOperands(node: ExpressionNode): number[] {
+  switch (node.type) {
+    case 'number':
+      return [node.value];
+    case 'binary':
+      return [...getOperands(node.left), ...getOperands(node.right)];
+    case 'square':
+      return getOperands(node.operand);
+  }
+}
+
+/**
+ * Builds an equation from an expression tree
+ */
+function createEquation(
+  expression: ExpressionNode,
+  unknown: MathEquation['unknown'] = 'result'
+): MathEquation {
+  return {
+    expression,
+    operands: getOperands(expression),
+    result: evaluateExpression(expression),
+    unknown,
+  };
+}
+
+/**
+ * Builds an equation from an operation applied left to right across operands
+ * (a - b - c is read as (a - b) - c)
+ */
+export function buildEquation(
+  operation: EquationOperation,
+  operands: number[],
+  unknown: MathEquation['unknown'] = 'result'
+): MathEquation {
+  const leaves: ExpressionNode[] = operands.map((value) => ({ type: 'number', value }));
+  const expression: ExpressionNode =
+    operation === 'square'
+      ? { type: 'square', operand: leaves[0] }
+      : leaves.reduce((left, right) => ({ type: 'binary', operation, left, right }));
+
+  return createEquation(expression, unknown);
+}
+
 /**
  * Generates operands suitable for the given operation
  */
-function generateOperands(operation: Operation, maxNumber: number, numTerms: number): number[] {
+function generateOperands(
+  operation: EquationOperation,
+  maxNumber: number,
+  numTerms: number,
+  rng: RandomSource
+): number[] {
   const operands: number[] = [];
 
   if (operation === 'subtract') {
     // For subtraction, ensure result is positive (a >= b for 2 terms)
     // Generate largest number first, then smaller ones
-    const firstNum = randomInt(Math.ceil(maxNumber / 2), maxNumber);
+    const firstNum = rng.int(Math.ceil(maxNumber / 2), maxNumber);
     operands.push(firstNum);
 
     let remaining = firstNum;
     for (let i = 1; i < numTerms; i++) {
       const maxSubtract = Math.floor(remaining / (numTerms - i));
-      const num = randomInt(0, Math.min(maxSubtract, maxNumber));
+      const num = rng.int(0, Math.min(maxSubtract, maxNumber));
       operands.push(num);
       remaining -= num;
     }
@@ -102,7 +538,7 @@ function generateOperands(operation: Operation, maxNumber: number, numTerms: num
     // For multiplication, use smaller numbers to keep products manageable
     const multiplyMax = Math.min(maxNumber, 10);
     for (let i = 0; i < numTerms; i++) {
-      operands.push(randomInt(1, multiplyMax));
+      operands.push(rng.int(1, multiplyMax));
     }
   } else if (operation === 'divide') {
     const divisorMin = 1;
@@ -111,9 +547,9 @@ function generateOperands(operation: Operation, maxNumber: number, numTerms: num
     const maxAttempts = 50;
 
     while (attempts < maxAttempts) {
-      const divisor = randomInt(divisorMin, divisorMax);
+      const divisor = rng.int(divisorMin, divisorMax);
       const quotientMax = Math.max(1, Math.floor(maxNumber / divisor));
-      const quotient = randomInt(1, quotientMax);
+      const quotient = rng.int(1, quotientMax);
       const dividend = divisor * quotient;
       if (dividend <= maxNumber) {
         return [dividend, divisor];
@@ -121,14 +557,14 @@ function generateOperands(operation: Operation, maxNumber: number, numTerms: num
       attempts += 1;
     }
 
-    const fallbackDivisor = randomInt(divisorMin, divisorMax);
+    const fallbackDivisor = rng.int(divisorMin, divisorMax);
     return [fallbackDivisor, fallbackDivisor];
   } else if (operation === 'square') {
-    return [randomInt(1, maxNumber)];
+    return [rng.int(1, maxNumber)];
   } else {
     // Addition: any numbers within range
     for (let i = 0; i < numTerms; i++) {
-      operands.push(randomInt(1, maxNumber));
+      operands.push(rng.int(1, maxNumber));
     }
   }
 
@@ -136,92 +572,701 @@ function generateOperands(operation: Operation, maxNumber: number, numTerms: num
 }
 
 /**
- * Calculates the answer from operands and operation
+ * Splits a problem into display tokens, with the unknown slot marked
  */
-function calculateAnswer(operands: number[], operation: Operation): number {
-  if (operation === 'square') {
-    return operands[0] * operands[0];
-  }
-  return operands.reduce((acc, num, index) => {
-    if (index === 0) return num;
-    return performOperation(acc, num, operation);
+export function getQuestionTokens(problem: Pick<EquationProblem, 'equation'>): QuestionToken[] {
+  const { equation } = problem;
+  const numberToken = (value: number, isUnknown: boolean): QuestionToken => ({
+    text: isUnknown ? '?' : value.toString(),
+    unknown: isUnknown,
   });
+
+  // Operands are numbered left to right so the blank can be matched by index
+  let operandIndex = 0;
+  const expressionTokens = (node: ExpressionNode): QuestionToken[] => {
+    switch (node.type) {
+      case 'number': {
+        const index = operandIndex++;
+        return [numberToken(node.value, equation.unknown === index)];
+      }
+      case 'binary':
+        return [
+          ...groupTokens(node.left, node.operation, 'left'),
+          { text: getOperatorSymbol(node.operation), unknown: false },
+          ...groupTokens(node.right, node.operation, 'right'),
+        ];
+      case 'square': {
+        const tokens = expressionTokens(node.operand);
+        const last = tokens[tokens.length - 1];
+        tokens[tokens.length - 1] = { ...last, suffix: (last.suffix ?? '') + '²' };
+        return tokens;
+      }
+    }
+  };
+  const groupTokens = (
+    node: ExpressionNode,
+    parent: BinaryOperation,
+    side: 'left' | 'right'
+  ): QuestionToken[] => {
+    const tokens = expressionTokens(node);
+    if (!needsParentheses(node, parent, side)) return tokens;
+    const first = tokens[0];
+    const last = tokens[tokens.length - 1];
+    tokens[0] = { ...first, prefix: '(' + (first.prefix ?? '') };
+    tokens[tokens.length - 1] = { ...last, suffix: (last.suffix ?? '') + ')' };
+    return tokens;
+  };
+
+  return [
+    ...expressionTokens(equation.expression),
+    { text: '=', unknown: false },
+    numberToken(equation.result, equation.unknown === 'result'),
+  ];
+}
+
+/**
+ * Splits a sequence into display tokens (2, 4, 6, ?), with the blank marked
+ */
+export function getSequenceTokens(sequence: NumberSequence): QuestionToken[] {
+  return sequence.terms.map((value, index) => ({
+    text: index === sequence.unknown ? '?' : value.toString(),
+    unknown: index === sequence.unknown,
+    suffix: index < sequence.terms.length - 1 ? ',' : undefined,
+  }));
+}
+
+/**
+ * Joins display tokens into a question string
+ */
+function joinTokens(tokens: QuestionToken[]): string {
+  return tokens.map((token) => (token.prefix ?? '') + token.text + (token.suffix ?? '')).join(' ');
+}
+
+/**
+ * Builds the question string from the structured problem
+ */
+function buildQuestion(problem: Pick<EquationProblem, 'equation'>): string {
+  return joinTokens(getQuestionTokens(problem));
 }
 
 /**
- * Builds the question string from operands and operation
+ * Reverses the digits of a number (21 -> 12)
  */
-function buildQuestion(operands: number[], operation: Operation): string {
-  const symbol = getOperatorSymbol(operation);
+function reverseDigits(value: number): number {
+  return Number(value.toString().split('').reverse().join(''));
+}
+
+/**
+ * Lists wrong answers that match real mistakes for this equation
+ */
+function getMisconceptionDistractors(operation: Operation, equation: MathEquation): MathChoice[] {
+  const { operands, result, unknown } = equation;
+  const answer = unknown === 'result' ? result : operands[unknown];
+  const distractors: MathChoice[] = [
+    { value: answer + 1, misconception: 'off-by-one' },
+    { value: answer - 1, misconception: 'off-by-one' },
+  ];
+
+  if (answer >= 10 && answer % 10 !== 0) {
+    distractors.push({ value: reverseDigits(answer), misconception: 'digit-reversal' });
+  }
+
   if (operation === 'square') {
-    return `${operands[0]}${symbol} = ?`;
+    const base = operands[0];
+    if (unknown === 'result') {
+      distractors.push({ value: base, misconception: 'forgot-square' });
+      distractors.push({ value: base * 2, misconception: 'doubled-not-squared' });
+    } else {
+      // ?² = 16: answering 8 means halving instead of taking the root
+      distractors.push({ value: result / 2, misconception: 'doubled-not-squared' });
+    }
+    return distractors;
+  }
+
+  const operators = getOperators(equation.expression);
+  if (unknown === 'result' && new Set(operators).size > 1) {
+    // Working strictly left to right, e.g. 2 + 3 × 4 = 20
+    const leftToRight = operands.reduce((acc, operand, index) =>
+      index === 0 ? operand : performOperation(acc, operand, operators[index - 1])
+    );
+    distractors.push({ value: leftToRight, misconception: 'order-of-operations' });
+  }
+
+  if (operands.length !== 2) return distractors;
+  const [a, b] = operands;
+
+  if (unknown === 'result') {
+    switch (operation) {
+      case 'add':
+        distractors.push({ value: Math.abs(a - b), misconception: 'wrong-operation' });
+        break;
+      case 'subtract':
+        distractors.push({ value: a + b, misconception: 'wrong-operation' });
+        break;
+      case 'multiply':
+        distractors.push({ value: a + b, misconception: 'wrong-operation' });
+        distractors.push({ value: answer + a, misconception: 'wrong-factor' });
+        distractors.push({ value: answer - a, misconception: 'wrong-factor' });
+        distractors.push({ value: answer + b, misconception: 'wrong-factor' });
+        distractors.push({ value: answer - b, misconception: 'wrong-factor' });
+        break;
+      case 'divide':
+        distractors.push({ value: a - b, misconception: 'wrong-operation' });
+        break;
+    }
+    return distractors;
+  }
+
+  // Missing operand: the usual mistake is combining the numbers that are shown
+  const known = unknown === 0 ? b : a;
+  switch (operation) {
+    case 'add':
+    case 'bonds':
+      distractors.push({ value: result + known, misconception: 'wrong-operation' });
+      break;
+    case 'subtract':
+      distractors.push({
+        value: unknown === 0 ? result - known : known + result,
+        misconception: 'wrong-operation',
+      });
+      break;
+    case 'multiply':
+      distractors.push({ value: result - known, misconception: 'wrong-operation' });
+      break;
   }
-  return operands.join(` ${symbol} `) + ' = ?';
+  return distractors;
 }
 
 /**
- * Generates 3 wrong answers that are unique and positive
+ * Generates `count` wrong answers that are unique and positive
+ * Misconception-based answers are preferred; random nearby values fill any gaps
  */
-function generateWrongAnswers(correctAnswer: number): number[] {
-  const wrongAnswers: Set<number> = new Set();
+function generateWrongAnswers(
+  distractors: MathChoice[],
+  correctAnswer: number,
+  count: number,
+  rng: RandomSource
+): MathChoice[] {
+  const wrongAnswers: Map<number, MathChoice> = new Map();
+
+  // Start with answers that match real mistakes, in random order
+  rng.shuffle(distractors).forEach((choice) => {
+    if (
+      wrongAnswers.size < count &&
+      Number.isInteger(choice.value) &&
+      choice.value > 0 &&
+      choice.value !== correctAnswer &&
+      !wrongAnswers.has(choice.value)
+    ) {
+      wrongAnswers.set(choice.value, choice);
+    }
+  });
 
   // Generate wrong answers by adding/subtracting small random amounts
-  const attempts = 0;
+  let attempts = 0;
   const maxAttempts = 100;
 
-  while (wrongAnswers.size < 3 && attempts < maxAttempts) {
+  while (wrongAnswers.size < count && attempts < maxAttempts) {
+    attempts += 1;
     // Generate offsets that are close to the correct answer
-    const offset = randomInt(1, 5) * (Math.random() > 0.5 ? 1 : -1);
+    const offset = rng.int(1, 5) * (rng.next() > 0.5 ? 1 : -1);
     const wrongAnswer = correctAnswer + offset;
 
     // Ensure positive, unique, and not equal to correct answer
     if (wrongAnswer > 0 && wrongAnswer !== correctAnswer && !wrongAnswers.has(wrongAnswer)) {
-      wrongAnswers.add(wrongAnswer);
+      wrongAnswers.set(wrongAnswer, { value: wrongAnswer, misconception: null });
     }
   }
 
   // Fallback: if we couldn't generate enough unique wrong answers, use sequential values
   let fallbackOffset = 1;
-  while (wrongAnswers.size < 3) {
+  while (wrongAnswers.size < count) {
     const fallbackAnswer = correctAnswer + fallbackOffset;
     if (
       fallbackAnswer > 0 &&
       fallbackAnswer !== correctAnswer &&
       !wrongAnswers.has(fallbackAnswer)
     ) {
-      wrongAnswers.add(fallbackAnswer);
+      wrongAnswers.set(fallbackAnswer, { value: fallbackAnswer, misconception: null });
     }
     fallbackOffset = fallbackOffset > 0 ? -fallbackOffset : -fallbackOffset + 1;
   }
 
-  return Array.from(wrongAnswers);
+  return Array.from(wrongAnswers.values());
 }
 
 /**
- * Generates a math problem based on the provided configuration
+ * Combines the correct answer with wrong answers in random order
  */
-export function generateProblem(config: MathConfig = DEFAULT_MATH_CONFIG): MathProblem {
-  // Pick a random operation from the available ones
-  const operations =
-    config.operations.length > 0 ? config.operations : DEFAULT_MATH_CONFIG.operations;
-  const operation = operations[randomInt(0, operations.length - 1)];
+function buildChoices(
+  distractors: MathChoice[],
+  answer: number,
+  choiceCount: ChoiceCount,
+  rng: RandomSource
+): MathChoice[] {
+  const wrongAnswers = generateWrongAnswers(distractors, answer, choiceCount - 1, rng);
+  return rng.shuffle([{ value: answer, misconception: null }, ...wrongAnswers]);
+}
 
-  // Generate operands suitable for the operation
-  const operands = generateOperands(operation, config.maxNumber, config.numTerms);
+/**
+ * Groups a flat run of numbers and operators by precedence: × and ÷ first,
+ * then + and − left to right (2 + 3 × 4 becomes 2 + (3 × 4))
+ */
+function buildPrecedenceTree(
+  leaves: ExpressionNode[],
+  operators: BinaryOperation[]
+): ExpressionNode {
+  const terms: ExpressionNode[] = [leaves[0]];
+  const termOperators: BinaryOperation[] = [];
 
-  // Calculate the correct answer
-  const answer = calculateAnswer(operands, operation);
+  operators.forEach((operation, index) => {
+    const right = leaves[index + 1];
+    if (PRECEDENCE[operation] > PRECEDENCE.add) {
+      const left = terms[terms.length - 1];
+      terms[terms.length - 1] = { type: 'binary', operation, left, right };
+    } else {
+      termOperators.push(operation);
+      terms.push(right);
+    }
+  });
+
+  return terms.reduce((left, right, index) => ({
+    type: 'binary',
+    operation: termOperators[index - 1],
+    left,
+    right,
+  }));
+}
+
+/**
+ * Groups numbers and operators into a random tree, keeping their reading order
+ * A ÷ always divides by a single number so its divisor can be picked to divide evenly
+ */
+function buildGroupedTree(
+  leaves: ExpressionNode[],
+  operators: BinaryOperation[],
+  rng: RandomSource
+): ExpressionNode {
+  if (leaves.length === 1) return leaves[0];
+
+  const splits = operators
+    .map((_, index) => index + 1)
+    .filter((split) => operators[split - 1] !== 'divide' || split === leaves.length - 1);
+  const split = rng.pick(splits);
+
+  return {
+    type: 'binary',
+    operation: operators[split - 1],
+    left: buildGroupedTree(leaves.slice(0, split), operators.slice(0, split - 1), rng),
+    right: buildGroupedTree(leaves.slice(split), operators.slice(split), rng),
+  };
+}
+
+/**
+ * Picks numbers for an expression tree so every step stays a whole, non-negative number
+ * Returns null when the shape can't be filled this time (the caller retries)
+ */
+function fillExpression(
+  shape: ExpressionNode,
+  maxNumber: number,
+  rng: RandomSource
+): ExpressionNode | null {
+  const maxFactor = Math.min(maxNumber, MIXED_CONFIG.MAX_FACTOR);
+
+  if (shape.type === 'number') return { type: 'number', value: rng.int(1, maxNumber) };
+  if (shape.type === 'square') return null; // Squares are never mixed
+
+  const operandMax = PRECEDENCE[shape.operation] > PRECEDENCE.add ? maxFactor : maxNumber;
+  const left = fillExpression(shape.left, operandMax, rng);
+  if (!left) return null;
+  const leftValue = evaluateExpression(left);
+
+  if (shape.operation === 'divide') {
+    // Divide by a single number that goes in evenly (1 only if nothing else does)
+    const divisors = Array.from({ length: maxFactor - 1 }, (_, index) => index + 2).filter(
+      (divisor) => leftValue % divisor === 0
+    );
+    const divisor = divisors.length > 0 ? rng.pick(divisors) : 1;
+    return { ...shape, left, right: { type: 'number', value: divisor } };
+  }
+
+  let right = fillExpression(shape.right, operandMax, rng);
+  if (!right) return null;
+  const rightValue = evaluateExpression(right);
+  if (shape.operation === 'subtract' && rightValue > leftValue) {
+    // Take away a smaller single number, or start from a bigger one (still within
+    // maxNumber); start over if both sides are groups or the group is too big
+    if (right.type === 'number') {
+      right = { type: 'number', value: rng.int(0, leftValue) };
+    } else if (left.type === 'number' && rightValue <= maxNumber) {
+      return {
+        ...shape,
+        left: { type: 'number', value: rng.int(rightValue, maxNumber) },
+        right,
+      };
+    } else {
+      return null;
+    }
+  }
+
+  return { ...shape, left, right };
+}
+
+/**
+ * Generates an equation that mixes operations, e.g. 2 + 3 × 4 = ? or (2 + 3) × 4 = ?
+ * Returns null if no valid numbers were found
+ */
+function generateMixedEquation(
+  operations: BinaryOperation[],
+  config: MathConfig,
+  rng: RandomSource
+): MathEquation | null {
+  const numTerms = Math.max(MIXED_CONFIG.MIN_TERMS, config.numTerms);
+  const leaves: ExpressionNode[] = Array.from({ length: numTerms }, () => ({
+    type: 'number',
+    value: 0,
+  }));
+
+  for (let attempt = 0; attempt < MIXED_CONFIG.MAX_ATTEMPTS; attempt++) {
+    // Pick operators, making sure at least two different ones appear
+    const operators = Array.from({ length: numTerms - 1 }, () => rng.pick(operations));
+    if (new Set(operators).size === 1) {
+      const index = rng.int(0, operators.length - 1);
+      operators[index] = rng.pick(operations.filter((operation) => operation !== operators[index]));
+    }
+
+    const shape =
+      config.expressionMode === 'parentheses'
+        ? buildGroupedTree(leaves, operators, rng)
+        : buildPrecedenceTree(leaves, operators);
+    const expression = fillExpression(shape, config.maxNumber, rng);
+    if (expression) return createEquation(expression);
+  }
+  return null;
+}
+
+/**
+ * Builds a written problem from its equation
+ */
+function buildSymbolicProblem(
+  operation: Operation,
+  equation: MathEquation,
+  config: MathConfig,
+  rng: RandomSource
+): SymbolicProblem {
+  const { operands, result, unknown } = equation;
+  const answer = unknown === 'result' ? result : operands[unknown];
 
   // Build the question string
-  const question = buildQuestion(operands, operation);
+  const question = buildQuestion({ equation });
 
   // Generate wrong answers and combine with correct answer
-  const wrongAnswers = generateWrongAnswers(answer);
-  const choices = shuffleArray([answer, ...wrongAnswers]);
+  const distractors = getMisconceptionDistractors(operation, equation);
+  const choices = buildChoices(distractors, answer, config.choiceCount, rng);
 
   return {
+    kind: 'symbolic',
+    id: createProblemId(rng),
     question,
     answer,
     choices,
+    operation,
+    equation,
+  };
+}
+
+/**
+ * Generates a math problem based on the provided configuration
+ * Pass a seeded random source to make the problem reproducible, a history
+ * to avoid repeating any of the last config.repeatWindow problems, and the
+ * missed times-table facts to bring back when config.timesTables is set
+ */
+export function generateProblem(
+  config: MathConfig = DEFAULT_MATH_CONFIG,
+  rng: RandomSource = defaultRandom,
+  history?: ProblemHistory,
+  timesTableFacts?: TimesTableFacts
+): MathProblem {
+  let problem = generateCandidate(config, rng, timesTableFacts);
+  if (!history) return problem;
+
+  // Small configs may not have enough distinct facts, so give up after a few tries.
+  // Missed times-table facts are meant to come back, so the repeat window doesn't hold them off.
+  for (
+    let attempt = 1;
+    attempt < HISTORY_CONFIG.MAX_ATTEMPTS &&
+    history.has(problem, config.repeatWindow) &&
+    !isMissedTimesTableFact(problem, config, timesTableFacts);
+    attempt++
+  ) {
+    problem = generateCandidate(config, rng, timesTableFacts);
+  }
+  history.record(problem);
+  return problem;
+}
+
+/**
+ * Whether a problem asks a times-table fact that hasn't been learned yet
+ */
+function isMissedTimesTableFact(
+  problem: MathProblem,
+  config: MathConfig,
+  timesTableFacts?: TimesTableFacts
+): boolean {
+  if (!timesTableFacts || config.timesTables.length === 0) return false;
+  if (problem.operation !== 'multiply' || !hasEquation(problem)) return false;
+  const { operands } = problem.equation;
+  return operands.length === 2 && timesTableFacts.getMissCount([operands[0], operands[1]]) > 0;
+}
+
+/**
+ * Generates one problem, without checking the history
+ */
+function generateCandidate(
+  config: MathConfig,
+  rng: RandomSource,
+  timesTableFacts?: TimesTableFacts
+): MathProblem {
+  const operations =
+    config.operations.length > 0 ? config.operations : DEFAULT_MATH_CONFIG.operations;
+
+  // Mixed expressions need at least two of +, −, × and ÷
+  const binaryOperations = BINARY_OPERATIONS.filter((operation) => operations.includes(operation));
+  if (config.expressionMode !== 'single' && new Set(binaryOperations).size > 1) {
+    const equation = generateMixedEquation(binaryOperations, config, rng);
+    if (equation?.expression.type === 'binary') {
+      // The operation applied last describes the problem as a whole
+      return buildSymbolicProblem(equation.expression.operation, equation, config, rng);
+    }
+  }
+
+  // Pick a random operation from the available ones
+  const operation = rng.pick(operations);
+
+  switch (operation) {
+    case 'compare':
+      return generateComparisonProblem(config, rng);
+    case 'skip-count':
+      return generateSkipCountProblem(config, rng);
+    case 'before-after':
+      return generateBeforeAfterProblem(config, rng);
+    case 'bonds':
+      return generateBondProblem(config, rng);
+    case 'time':
+      return generateClockProblem(config, rng);
+    case 'money':
+      return generateCoinProblem(config, rng);
+  }
+
+  if (config.pictureMode !== 'off' && PICTURE_CONFIG.OPERATIONS.includes(operation)) {
+    return generatePictureProblem(operation, config, rng);
+  }
+
+  // Generate operands suitable for the operation (one factor from a chosen table in focus mode)
+  const operands =
+    operation === 'multiply' && config.timesTables.length > 0
+      ? pickTimesTableFact(config.timesTables, rng, timesTableFacts)
+      : generateOperands(operation, config.maxNumber, config.numTerms, rng);
+
+  // Pick which slot is blank based on the operation's format
+  const format = config.formats[operation] ?? 'result';
+  const unknown = format === 'missing-operand' ? rng.int(0, operands.length - 1) : 'result';
+  return buildSymbolicProblem(operation, buildEquation(operation, operands, unknown), config, rng);
+}
+
+/**
+ * Generates a counting problem: objects appear (add) or get crossed out (subtract)
+ */
+function generatePictureProblem(
+  operation: EquationOperation,
+  config: MathConfig,
+  rng: RandomSource
+): PictureProblem {
+  const maxObjects = Math.min(config.maxNumber, PICTURE_CONFIG.MAX_OBJECTS);
+  // For addition both groups are drawn, so each gets half the room
+  const operandMax = operation === 'add' ? Math.floor(maxObjects / 2) : maxObjects;
+  const operands = generateOperands(operation, Math.max(1, operandMax), 2, rng);
+  const equation = buildEquation(operation, operands);
+  const { result } = equation;
+
+  const item = rng.pick(COUNTING_ITEMS);
+  const groups: CountingGroup[] =
+    operation === 'add'
+      ? [
+          { count: operands[0], style: 'start' },
+          { count: operands[1], style: 'added' },
+        ]
+      : [
+          { count: result, style: 'start' },
+          { count: operands[1], style: 'removed' },
+        ];
+  const question =
+    operation === 'add'
+      ? `How many ${item.pluralName} now?`
+      : `How many ${item.pluralName} are left?`;
+
+  const distractors = getMisconceptionDistractors(operation, equation);
+  const choices = buildChoices(distractors, result, config.choiceCount, rng);
+
+  return {
+    kind: 'picture',
+    id: createProblemId(rng),
+    question,
+    answer: result,
+    choices,
+    operation,
+    equation,
+    picture: {
+      item,
+      groups,
+      pictureChoices: config.pictureMode === 'picture-choices',
+    },
+  };
+}
+
+/**
+ * Generates a "which is bigger?" problem between two different numbers
+ * The two numbers are the only choices, so config.choiceCount doesn't apply
+ */
+function generateComparisonProblem(config: MathConfig, rng: RandomSource): ComparisonProblem {
+  const max = Math.max(2, config.maxNumber);
+  const first = rng.int(1, max);
+  let second = rng.int(1, max - 1);
+  if (second >= first) second += 1; // Skip over the first number so the two always differ
+  const answer = Math.max(first, second);
+
+  return {
+    kind: 'comparison',
+    id: createProblemId(rng),
+    question: `Which is bigger: ${first} or ${second}?`,
+    answer,
+    choices: [
+      { value: first, misconception: first === answer ? null : 'wrong-direction' },
+      { value: second, misconception: second === answer ? null : 'wrong-direction' },
+    ],
+    operation: 'compare',
+    numbers: [first, second],
+  };
+}
+
+/**
+ * Builds a sequence problem, with choices around the missing term
+ */
+function buildSequenceProblem(
+  operation: Operation,
+  sequence: NumberSequence,
+  distractors: MathChoice[],
+  choiceCount: ChoiceCount,
+  rng: RandomSource
+): SequenceProblem {
+  const answer = sequence.terms[sequence.unknown];
+  return {
+    kind: 'sequence',
+    id: createProblemId(rng),
+    question: joinTokens(getSequenceTokens(sequence)),
+    answer,
+    choices: buildChoices(distractors, answer, choiceCount, rng),
+    operation,
+    sequence,
+  };
+}
+
+/**
+ * Generates a "what comes next?" skip-counting run, e.g. 5, 10, 15, ?
+ * Runs start on a multiple of the step, the way counting by 2s, 5s and 10s is taught,
+ * and end within maxNumber (counting on in 1s when even 2s would go past it)
+ */
+function generateSkipCountProblem(config: MathConfig, rng: RandomSource): SequenceProblem {
+  const span = FAMILY_CONFIG.SEQUENCE_LENGTH - 1;
+  const steps = FAMILY_CONFIG.SKIP_STEPS.filter((step) => step * span <= config.maxNumber);
+  const step = steps.length > 0 ? rng.pick(steps) : 1;
+  const maxStart = Math.floor((config.maxNumber - step * span) / step);
+  const start = step * rng.int(0, Math.max(0, Math.min(FAMILY_CONFIG.MAX_SKIP_START, maxStart)));
+  const terms = Array.from(
+    { length: FAMILY_CONFIG.SEQUENCE_LENGTH },
+    (_, index) => start + index * step
+  );
+  const unknown = terms.length - 1;
+  const answer = terms[unknown];
+  const last = terms[unknown - 1];
+
+  return buildSequenceProblem(
+    'skip-count',
+    { terms, unknown, step },
+    [
+      { value: last + 1, misconception: 'wrong-step' },
+      { value: answer + step, misconception: 'wrong-step' },
+      { value: answer + 1, misconception: 'off-by-one' },
+      { value: answer - 1, misconception: 'off-by-one' },
+    ],
+    config.choiceCount,
+    rng
+  );
+}
+
+/**
+ * Generates "what comes before/after n?", shown as n, ? or ?, n
+ * "Before" shows at least 2, so neither the answer nor the off-by-one choice drops below 1
+ */
+function generateBeforeAfterProblem(config: MathConfig, rng: RandomSource): SequenceProblem {
+  const max = Math.max(2, config.maxNumber);
+  const after = rng.next() < 0.5;
+  const shown = rng.int(after ? 1 : 2, max);
+  const sequence: NumberSequence = after
+    ? { terms: [shown, shown + 1], unknown: 1, step: 1 }
+    : { terms: [shown - 1, shown], unknown: 0, step: 1 };
+  const answer = sequence.terms[sequence.unknown];
+
+  return buildSequenceProblem(
+    'before-after',
+    sequence,
+    [
+      { value: after ? shown - 1 : shown + 1, misconception: 'wrong-direction' },
+      { value: after ? answer + 1 : answer - 1, misconception: 'off-by-one' },
+    ],
+    config.choiceCount,
+    rng
+  );
+}
+
+/**
+ * Generates a number bond to 10 as a written problem, e.g. 7 + ? = 10
+ */
+function generateBondProblem(config: MathConfig, rng: RandomSource): SymbolicProblem {
+  const part = rng.int(1, FAMILY_CONFIG.BOND_TOTAL - 1);
+  const equation = buildEquation('add', [part, FAMILY_CONFIG.BOND_TOTAL - part], rng.int(0, 1));
+  return buildSymbolicProblem('bonds', equation, config, rng);
+}
+
+/**
+ * Generates a "what time is it?" problem for an analog clock
+ */
+function generateClockProblem(config: MathConfig, rng: RandomSource): ClockProblem {
+  const time = generateClockTime(rng);
+  return {
+    kind: 'clock',
+    id: createProblemId(rng),
+    question: 'What time is it?',
+    answer: toClockValue(time),
+    choices: buildClockChoices(time, config.choiceCount, rng),
+    operation: 'time',
+    time,
+  };
+}
+
+/**
+ * Generates a "how much money?" problem, with coins worth up to maxNumber cents
+ */
+function generateCoinProblem(config: MathConfig, rng: RandomSource): CoinProblem {
+  const coins = generateCoins(config.maxNumber, rng);
+  const answer = getCoinTotal(coins);
+  return {
+    kind: 'coins',
+    id: createProblemId(rng),
+    question: 'How much money?',
+    answer,
+    choices: buildChoices(getCoinDistractors(coins), answer, config.choiceCount, rng),
+    operation: 'money',
+    coins,
   };
 }
@@ -0,0 +1,115 @@
+import { getHint, getVisualAid, HINT_CONFIG } from './MathHints';
+import { buildEquation, type BinaryOperation } from './MathGenerator';
+
+const problemFor = (
+  operation: BinaryOperation,
+  operands: number[],
+  unknown: 'result' | number = 'result'
+) => ({ operation, equation: buildEquation(operation, operands, unknown) });
+
+describe('getHint', () => {
+  it('draws small sums as two groups of dots', () => {
+    expect(getHint(problemFor('add', [3, 4]))).toEqual({
+      type: 'dots',
+      groups: [
+        { count: 3, style: 'start' },
+        { count: 4, style: 'added' },
+      ],
+    });
+  });
+
+  it('draws small differences with the taken-away dots crossed out', () => {
+    expect(getHint(problemFor('subtract', [7, 2]))).toEqual({
+      type: 'dots',
+      groups: [
+        { count: 5, style: 'start' },
+        { count: 2, style: 'removed' },
+      ],
+    });
+  });
+
+  it('draws small products as equal groups', () => {
+    const hint = getHint(problemFor('multiply', [4, 3]));
+    expect(hint?.type).toBe('dots');
+    expect(hint?.type === 'dots' && hint.groups).toEqual([
+      { count: 4, style: 'start' },
+      { count: 4, style: 'start' },
+      { count: 4, style: 'start' },
+    ]);
+  });
+
+  it('uses a number line with hops for sums up to 20', () => {
+    expect(getHint(problemFor('add', [9, 6]))).toEqual({
+      type: 'number-line',
+      max: HINT_CONFIG.MAX_NUMBER_LINE,
+      start: 9,
+      end: 15,
+      showHops: true,
+    });
+  });
+
+  it('counts up from the result when the first number is missing', () => {
+    expect(getHint(problemFor('subtract', [14, 5], 0))).toEqual({
+      type: 'number-line',
+      max: HINT_CONFIG.MAX_NUMBER_LINE,
+      start: 9,
+      end: 14,
+      showHops: true,
+    });
+  });
+
+  it('marks the shown numbers without hops when the jump is missing', () => {
+    expect(getHint(problemFor('add', [3, 4], 1))).toEqual({
+      type: 'number-line',
+      max: HINT_CONFIG.SHORT_NUMBER_LINE,
+      start: 3,
+      end: 7,
+      showHops: false,
+    });
+  });
+
+  it('has no hint for division, big numbers or mixed operations', () => {
+    expect(getHint(problemFor('divide', [12, 3]))).toBeNull();
+    expect(getHint(problemFor('add', [15, 12]))).toBeNull();
+    expect(getHint(problemFor('multiply', [8, 7]))).toBeNull();
+    expect(getHint(problemFor('add', [2, 3, 4]))).toBeNull();
+  });
+});
+
+describe('getVisualAid', () => {
+  it('lays sums out in ten-frames from the operands', () => {
+    expect(getVisualAid(problemFor('add', [8, 7]), 'ten-frame')).toEqual({
+      type: 'ten-frame',
+      groups: [
+        { count: 8, style: 'start' },
+        { count: 7, style: 'added' },
+      ],
+    });
+  });
+
+  it('crosses out the taken-away counters for differences', () => {
+    expect(getVisualAid(problemFor('subtract', [13, 4]), 'ten-frame')).toEqual({
+      type: 'ten-frame',
+      groups: [
+        { count: 9, style: 'start' },
+        { count: 4, style: 'removed' },
+      ],
+    });
+  });
+
+  it('draws a number line even for small sums', () => {
+    expect(getVisualAid(problemFor('add', [2, 3]), 'number-line')).toEqual({
+      type: 'number-line',
+      max: HINT_CONFIG.SHORT_NUMBER_LINE,
+      start: 2,
+      end: 5,
+      showHops: true,
+    });
+  });
+
+  it('has no aid when off, over 20 or not add/subtract', () => {
+    expect(getVisualAid(problemFor('add', [2, 3]), 'off')).toBeNull();
+    expect(getVisualAid(problemFor('add', [12, 9]), 'ten-frame')).toBeNull();
+    expect(getVisualAid(problemFor('multiply', [2, 3]), 'number-line')).toBeNull();
+  });
+});
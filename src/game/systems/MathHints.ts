@@ -0,0 +1,136 @@
+/**
+ * Hints and visual aids for checkpoint problems
+ * Picks a visual that helps count towards the answer: dots for small sums,
+ * differences and products, a number line or ten-frames for add/subtract up to 20.
+ */
+
+import type { CountingItem } from '../../data/countingItems';
+import type { CountingGroup, EquationProblem, VisualAid } from './MathGenerator';
+
+/**
+ * A hint drawn next to the question
+ * - 'dots': groups of dots to count (crossed-out dots are taken away)
+ * - 'ten-frame': the same groups laid out in frames of ten
+ * - 'number-line': a line from 0 to max with start and end marked; hops are
+ *   drawn from start to end when the jump size is part of the question
+ */
+export type MathHint =
+  | { type: 'dots'; groups: CountingGroup[] }
+  | { type: 'ten-frame'; groups: CountingGroup[] }
+  | { type: 'number-line'; max: number; start: number; end: number; showHops: boolean };
+
+// Limits for each kind of hint
+export const HINT_CONFIG = {
+  MAX_DOTS: 10, // Largest add/subtract problem drawn with dots
+  MAX_PRODUCT_DOTS: 30, // Largest product drawn as equal groups of dots
+  MAX_NUMBER_LINE: 20, // Longest number line, and the most ten-frames can hold
+  SHORT_NUMBER_LINE: 10, // Number line length used when everything fits
+};
+
+/** What dot hints are drawn with */
+export const DOT_ITEM: CountingItem = { id: 'dot', name: 'dot', pluralName: 'dots', emoji: '🔵' };
+
+type Problem = Pick<EquationProblem, 'operation' | 'equation'>;
+
+interface AddSubtractParts {
+  operation: 'add' | 'subtract';
+  operands: [number, number];
+  result: number;
+  unknown: EquationProblem['equation']['unknown'];
+  /** Biggest number in the problem (the sum, or the number subtracted from) */
+  largest: number;
+}
+
+/**
+ * The numbers of a simple two-number add or subtract problem, or null for anything else
+ */
+function getAddSubtractParts(problem: Problem): AddSubtractParts | null {
+  const { expression, operands, result, unknown } = problem.equation;
+  if (expression.type !== 'binary' || operands.length !== 2) return null;
+  const operation = expression.operation;
+  if (operation !== 'add' && operation !== 'subtract') return null;
+  const [a, b] = operands;
+  return {
+    operation,
+    operands: [a, b],
+    result,
+    unknown,
+    largest: operation === 'add' ? result : a,
+  };
+}
+
+/**
+ * Counters for an add/subtract problem: the first number then the added ones,
+ * or what is left then the ones taken away
+ */
+function getCountingGroups({ operation, operands, result }: AddSubtractParts): CountingGroup[] {
+  return operation === 'add'
+    ? [
+        { count: operands[0], style: 'start' },
+        { count: operands[1], style: 'added' },
+      ]
+    : [
+        { count: result, style: 'start' },
+        { count: operands[1], style: 'removed' },
+      ];
+}
+
+function getNumberLine(parts: AddSubtractParts): MathHint {
+  const { operation, operands, result, unknown, largest } = parts;
+  const [a, b] = operands;
+  const max =
+    largest <= HINT_CONFIG.SHORT_NUMBER_LINE
+      ? HINT_CONFIG.SHORT_NUMBER_LINE
+      : HINT_CONFIG.MAX_NUMBER_LINE;
+
+  if (unknown === 'result') {
+    return { type: 'number-line', max, start: a, end: result, showHops: true };
+  }
+  // ? - b = result: count up b from the result
+  if (operation === 'subtract' && unknown === 0) {
+    return { type: 'number-line', max, start: result, end: a, showHops: true };
+  }
+  // Otherwise mark the two numbers that are shown and count the gap between them
+  const known = operation === 'add' ? (unknown === 0 ? b : a) : result;
+  const end = operation === 'add' ? result : a;
+  return { type: 'number-line', max, start: known, end, showHops: false };
+}
+
+/**
+ * Picks a hint for a problem, or null if none fits (e.g. division or mixed operations)
+ */
+export function getHint(problem: Problem): MathHint | null {
+  const { expression, operands, result, unknown } = problem.equation;
+
+  if (expression.type === 'binary' && expression.operation === 'multiply') {
+    if (operands.length !== 2 || unknown !== 'result') return null;
+    if (result > HINT_CONFIG.MAX_PRODUCT_DOTS) return null;
+    // b equal groups of a
+    const [a, b] = operands;
+    return {
+      type: 'dots',
+      groups: Array.from({ length: b }, () => ({ count: a, style: 'start' as const })),
+    };
+  }
+
+  const parts = getAddSubtractParts(problem);
+  if (!parts) return null;
+  if (parts.unknown === 'result' && parts.largest <= HINT_CONFIG.MAX_DOTS) {
+    return { type: 'dots', groups: getCountingGroups(parts) };
+  }
+  if (parts.largest > HINT_CONFIG.MAX_NUMBER_LINE) return null;
+  return getNumberLine(parts);
+}
+
+/**
+ * Draws an add/subtract problem up to 20 as ten-frames or a number line, or
+ * null if the problem is anything else
+ */
+export function getVisualAid(problem: Problem, aid: VisualAid): MathHint | null {
+  if (aid === 'off') return null;
+  const parts = getAddSubtractParts(problem);
+  if (!parts || parts.largest > HINT_CONFIG.MAX_NUMBER_LINE) return null;
+  return aid === 'ten-frame'
+    ? { type: 'ten-frame', groups: getCountingGroups(parts) }
+    : getNumberLine(parts);
+}
@@ -0,0 +1,76 @@
+import { numberToWords, parseNumberWords } from './NumberWords';
+
+describe('numberToWords', () => {
+  it.each([
+    [0, 'zero'],
+    [7, 'seven'],
+    [13, 'thirteen'],
+    [20, 'twenty'],
+    [42, 'forty-two'],
+    [100, 'one hundred'],
+    [305, 'three hundred five'],
+    [1000, 'one thousand'],
+    [2019, 'two thousand nineteen'],
+    [9999, 'nine thousand nine hundred ninety-nine'],
+  ])('spells %i as "%s"', (value, words) => {
+    expect(numberToWords(value)).toBe(words);
+  });
+
+  it('falls back to digits for numbers it cannot spell', () => {
+    expect(numberToWords(-3)).toBe('-3');
+    expect(numberToWords(2.5)).toBe('2.5');
+  });
+});
+
+describe('parseNumberWords', () => {
+  it.each([
+    ['seven', 7],
+    ['Twelve', 12],
+    ['twenty-one', 21],
+    ['twenty one', 21],
+    ['forty', 40],
+    ['one hundred and five', 105],
+    ['two thousand nineteen', 2019],
+    ['zero', 0],
+  ])('reads "%s" as %i', (text, value) => {
+    expect(parseNumberWords(text)).toBe(value);
+  });
+
+  it('reads digits from the recogniser', () => {
+    expect(parseNumberWords('12')).toBe(12);
+    expect(parseNumberWords("it's 7.")).toBe(7);
+  });
+
+  it('finds the number inside a sentence', () => {
+    expect(parseNumberWords('I think it is nine')).toBe(9);
+    expect(parseNumberWords('um eight please')).toBe(8);
+  });
+
+  it('stops at the first number when several are said', () => {
+    expect(parseNumberWords('two three')).toBe(2);
+    expect(parseNumberWords('fifteen six')).toBe(15);
+    expect(parseNumberWords('ten four')).toBe(10);
+    expect(parseNumberWords('twenty thirty')).toBe(20);
+  });
+
+  it('accepts sound-alikes said on their own', () => {
+    expect(parseNumberWords('for')).toBe(4);
+    expect(parseNumberWords('too')).toBe(2);
+    expect(parseNumberWords('ate')).toBe(8);
+  });
+
+  it('ignores sound-alikes inside a sentence', () => {
+    expect(parseNumberWords('I want to say six')).toBe(6);
+  });
+
+  it('returns null when no number is heard', () => {
+    expect(parseNumberWords('')).toBeNull();
+    expect(parseNumberWords('banana')).toBeNull();
+  });
+
+  it('does not mistake object property names for numbers', () => {
+    expect(parseNumberWords('constructor')).toBeNull();
+    expect(parseNumberWords('twenty constructor')).toBe(20);
+    expect(parseNumberWords('toString')).toBeNull();
+  });
+});
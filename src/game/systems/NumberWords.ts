@@ -0,0 +1,115 @@
+/**
+ * Number words
+ * Spells whole numbers out the way they are read aloud ("twenty-one"), and reads
+ * them back from what speech recognition heard, so questions can be spoken and
+ * answered without reading.
+ */
+
+const ONES = [
+  'zero',
+  'one',
+  'two',
+  'three',
+  'four',
+  'five',
+  'six',
+  'seven',
+  'eight',
+  'nine',
+  'ten',
+  'eleven',
+  'twelve',
+  'thirteen',
+  'fourteen',
+  'fifteen',
+  'sixteen',
+  'seventeen',
+  'eighteen',
+  'nineteen',
+];
+
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+/**
+ * Spells out a whole number from 0 to 999,999 (e.g. 342 → "three hundred forty-two").
+ * Anything else is returned as digits.
+ */
+export function numberToWords(value: number): string {
+  if (!Number.isInteger(value) || value < 0 || value >= 1_000_000) {
+    return value.toString();
+  }
+  if (value < 20) return ONES[value];
+  if (value < 100) {
+    const ones = value % 10;
+    return TENS[Math.floor(value / 10)] + (ones > 0 ? `-${ONES[ones]}` : '');
+  }
+  if (value < 1000) {
+    const rest = value % 100;
+    return `${ONES[Math.floor(value / 100)]} hundred` + (rest > 0 ? ` ${numberToWords(rest)}` : '');
+  }
+  const rest = value % 1000;
+  return (
+    `${numberToWords(Math.floor(value / 1000))} thousand` +
+    (rest > 0 ? ` ${numberToWords(rest)}` : '')
+  );
+}
+
+const WORD_VALUES = new Map<string, number>([
+  ...ONES.map((word, value): [string, number] => [word, value]),
+  ...TENS.map((word, index): [string, number] => [word, index * 10]).filter(([word]) => word),
+]);
+
+// Words speech recognition often hears instead of a number said on its own
+const SOUNDALIKES = new Map<string, number>([
+  ['oh', 0],
+  ['won', 1],
+  ['to', 2],
+  ['too', 2],
+  ['tree', 3],
+  ['for', 4],
+  ['fore', 4],
+  ['ate', 8],
+]);
+
+/**
+ * Reads the first number out of something said aloud, written as digits ("7")
+ * or words ("twenty-one", "one hundred and five", "it's seven").
+ * Returns null if no number is found.
+ */
+export function parseNumberWords(text: string): number | null {
+  const words = text
+    .toLowerCase()
+    .replace(/[-,]/g, ' ')
+    .replace(/[^a-z0-9\s]/g, '')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const digits = words.find((word) => /^\d+$/.test(word));
+  if (digits !== undefined) return Number(digits);
+
+  if (words.length === 1 && SOUNDALIKES.has(words[0])) return SOUNDALIKES.get(words[0])!;
+
+  let total = 0;
+  let current = 0;
+  let started = false;
+  for (const word of words) {
+    const value = WORD_VALUES.get(word);
+    if (value !== undefined) {
+      const lastTwo = current % 100;
+      // Only a tens word can take a ones word after it; "two three" is two numbers
+      if (started && (lastTwo % 10 !== 0 || lastTwo === 10 || (lastTwo > 0 && value >= 10))) {
+        break;
+      }
+      current += value;
+      started = true;
+    } else if (started && word === 'hundred') {
+      current = (current || 1) * 100;
+    } else if (started && word === 'thousand') {
+      total += (current || 1) * 1000;
+      current = 0;
+    } else if (started && word !== 'and') {
+      break;
+    }
+  }
+  return started ? total + current : null;
+}
@@ -0,0 +1,116 @@
+import { ProblemHistory, getProblemKey, HISTORY_CONFIG } from './ProblemHistory';
+import { buildEquation, type MathEquation } from './MathGenerator';
+
+describe('ProblemHistory', () => {
+  const problem = (equation: MathEquation) => ({ equation });
+
+  describe('getProblemKey', () => {
+    it('treats commutative forms as the same fact', () => {
+      expect(getProblemKey(problem(buildEquation('add', [3, 4])))).toBe(
+        getProblemKey(problem(buildEquation('add', [4, 3])))
+      );
+      expect(getProblemKey(problem(buildEquation('multiply', [2, 3, 4])))).toBe(
+        getProblemKey(problem(buildEquation('multiply', [4, 2, 3])))
+      );
+    });
+
+    it('keeps order for subtraction and division', () => {
+      expect(getProblemKey(problem(buildEquation('subtract', [7, 3])))).not.toBe(
+        getProblemKey(problem(buildEquation('subtract', [3, 7])))
+      );
+    });
+
+    it('ignores which slot is blank', () => {
+      expect(getProblemKey(problem(buildEquation('add', [3, 4], 1)))).toBe(
+        getProblemKey(problem(buildEquation('add', [3, 4])))
+      );
+    });
+
+    it('tells different operations apart', () => {
+      expect(getProblemKey(problem(buildEquation('add', [2, 2])))).not.toBe(
+        getProblemKey(problem(buildEquation('multiply', [2, 2])))
+      );
+    });
+
+    it('treats a comparison either way round as the same fact', () => {
+      expect(getProblemKey({ numbers: [7, 4] })).toBe(getProblemKey({ numbers: [4, 7] }));
+    });
+
+    it('treats the same coins in any order as the same fact', () => {
+      const dime = { name: 'dime', value: 10 } as const;
+      const penny = { name: 'penny', value: 1 } as const;
+      expect(getProblemKey({ coins: [dime, penny] })).toBe(getProblemKey({ coins: [penny, dime] }));
+      expect(getProblemKey({ time: { hours: 3, minutes: 30 } })).not.toBe(
+        getProblemKey({ time: { hours: 3, minutes: 0 } })
+      );
+    });
+
+    it('keys pack questions by pack and question', () => {
+      expect(getProblemKey({ packName: 'Lalo', question: 'How many legs?' })).toBe(
+        'pack:Lalo:How many legs?'
+      );
+    });
+
+    it('tells before and after the same number apart', () => {
+      expect(getProblemKey({ sequence: { terms: [13, 14], unknown: 0, step: 1 } })).not.toBe(
+        getProblemKey({ sequence: { terms: [14, 15], unknown: 1, step: 1 } })
+      );
+    });
+  });
+
+  describe('has', () => {
+    it('finds a recorded problem and its commutative twin', () => {
+      const history = new ProblemHistory();
+      history.record(problem(buildEquation('add', [3, 4])));
+
+      expect(history.has(problem(buildEquation('add', [4, 3])), 5)).toBe(true);
+      expect(history.has(problem(buildEquation('add', [3, 5])), 5)).toBe(false);
+    });
+
+    it('only looks back over the window', () => {
+      const history = new ProblemHistory();
+      history.record(problem(buildEquation('add', [3, 4])));
+      history.record(problem(buildEquation('add', [1, 1])));
+      history.record(problem(buildEquation('add', [2, 2])));
+
+      expect(history.has(problem(buildEquation('add', [3, 4])), 3)).toBe(true);
+      expect(history.has(problem(buildEquation('add', [3, 4])), 2)).toBe(false);
+      expect(history.has(problem(buildEquation('add', [2, 2])), 0)).toBe(false);
+    });
+  });
+
+  describe('record', () => {
+    it('remembers at most the largest window', () => {
+      const history = new ProblemHistory();
+      for (let i = 0; i < HISTORY_CONFIG.MAX_WINDOW_SIZE + 5; i++) {
+        history.record(problem(buildEquation('add', [i, 1])));
+      }
+
+      expect(history.size).toBe(HISTORY_CONFIG.MAX_WINDOW_SIZE);
+    });
+  });
+
+  describe('clone', () => {
+    it('copies the history without sharing later records', () => {
+      const history = new ProblemHistory();
+      history.record(problem(buildEquation('add', [3, 4])));
+      const copy = history.clone();
+
+      copy.record(problem(buildEquation('add', [5, 1])));
+
+      expect(copy.has(problem(buildEquation('add', [3, 4])), 5)).toBe(true);
+      expect(history.has(problem(buildEquation('add', [5, 1])), 5)).toBe(false);
+    });
+  });
+
+  describe('clear', () => {
+    it('forgets all problems', () => {
+      const history = new ProblemHistory();
+      history.record(problem(buildEquation('add', [3, 4])));
+      history.clear();
+
+      expect(history.size).toBe(0);
+      expect(history.has(problem(buildEquation('add', [3, 4])), 5)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Recent-problem history for math checkpoints
+ * Remembers which facts were asked lately so the generator can avoid repeats,
+ * counting commutative forms (3 + 4 and 4 + 3) as the same fact.
+ */
+
+import type {
+  ClockProblem,
+  CoinProblem,
+  ComparisonProblem,
+  ExpressionNode,
+  MathEquation,
+  PackProblem,
+  SequenceProblem,
+} from './MathGenerator';
+
+/** The parts of a problem its key is built from */
+export type KeyedProblem =
+  | { equation: MathEquation }
+  | Pick<ComparisonProblem, 'numbers'>
+  | Pick<SequenceProblem, 'sequence'>
+  | Pick<ClockProblem, 'time'>
+  | Pick<CoinProblem, 'coins'>
+  | Pick<PackProblem, 'packName' | 'question'>;
+
+// Tuning for repeat avoidance
+export const HISTORY_CONFIG = {
+  WINDOW_SIZE: 10, // Default number of recent problems that won't be repeated
+  MAX_WINDOW_SIZE: 30, // Most problems remembered (and the largest window offered)
+  MAX_ATTEMPTS: 20, // Tries at a fresh problem before accepting a repeat
+  REPLAY_SEEDS: 20, // Recent races whose starting history is kept for seeded replays
+};
+
+const SYMBOLS = {
+  add: '+',
+  subtract: '-',
+  multiply: '×',
+  divide: '÷',
+} as const;
+
+/**
+ * Canonical text for an expression: the terms of + and × chains are sorted,
+ * so 4 + 3 and 3 + 4 (or 2 × 3 × 4 and 4 × 2 × 3) give the same key
+ */
+function getExpressionKey(node: ExpressionNode): string {
+  switch (node.type) {
+    case 'number':
+      return node.value.toString();
+    case 'square':
+      return `(${getExpressionKey(node.operand)})²`;
+    case 'binary': {
+      const { operation } = node;
+      if (operation === 'subtract' || operation === 'divide') {
+        return `(${getExpressionKey(node.left)}${SYMBOLS[operation]}${getExpressionKey(node.right)})`;
+      }
+      // Flatten chains of the same operation before sorting their terms
+      const terms: ExpressionNode[] = [];
+      const collect = (child: ExpressionNode) => {
+        if (child.type === 'binary' && child.operation === operation) {
+          collect(child.left);
+          collect(child.right);
+        } else {
+          terms.push(child);
+        }
+      };
+      collect(node);
+      return `(${terms.map(getExpressionKey).sort().join(SYMBOLS[operation])})`;
+    }
+  }
+}
+
+/**
+ * Key identifying the fact behind a problem, whichever slot is blank
+ * (comparisons of the same two numbers count as one fact, in either order,
+ * and so do the same coins however they're laid out)
+ */
+export function getProblemKey(problem: KeyedProblem): string {
+  if ('packName' in problem) {
+    return `pack:${problem.packName}:${problem.question}`;
+  }
+  if ('numbers' in problem) {
+    return `compare:${[...problem.numbers].sort((a, b) => a - b).join(',')}`;
+  }
+  if ('sequence' in problem) {
+    const { terms, unknown } = problem.sequence;
+    return `sequence:${terms.map((term, index) => (index === unknown ? '?' : term)).join(',')}`;
+  }
+  if ('time' in problem) {
+    return `time:${problem.time.hours}:${problem.time.minutes}`;
+  }
+  if ('coins' in problem) {
+    const values = problem.coins.map((coin) => coin.value).sort((a, b) => b - a);
+    return `coins:${values.join(',')}`;
+  }
+  return `${getExpressionKey(problem.equation.expression)}=${problem.equation.result}`;
+}
+
+/**
+ * ProblemHistory - The most recent problem keys, newest last.
+ * Pure TypeScript so it can be unit tested without React or Phaser.
+ */
+export class ProblemHistory {
+  private keys: string[] = [];
+
+  /** Whether the problem (or a commutative twin) was among the last `windowSize` problems */
+  has(problem: KeyedProblem, windowSize: number): boolean {
+    if (windowSize <= 0) return false;
+    return this.keys.slice(-windowSize).includes(getProblemKey(problem));
+  }
+
+  /** Remember a problem that was shown */
+  record(problem: KeyedProblem): void {
+    this.keys = [...this.keys, getProblemKey(problem)].slice(-HISTORY_CONFIG.MAX_WINDOW_SIZE);
+  }
+
+  /** A separate copy (later records to either don't affect the other) */
+  clone(): ProblemHistory {
+    const copy = new ProblemHistory();
+    copy.keys = [...this.keys];
+    return copy;
+  }
+
+  /** Number of problems remembered */
+  get size(): number {
+    return this.keys.length;
+  }
+
+  /** Forget all problems */
+  clear(): void {
+    this.keys = [];
+  }
+}
+
+export default ProblemHistory;
@@ -0,0 +1,160 @@
+import {
+  generatePackProblem,
+  parseProblemPack,
+  shouldUsePack,
+  validateProblemPack,
+  PACK_CONFIG,
+  type ProblemPack,
+} from './ProblemPacks';
+import { ProblemHistory } from './ProblemHistory';
+import { createRandom } from './Random';
+import { BUILT_IN_PACKS } from '../../data/problemPacks';
+
+const pack: ProblemPack = {
+  name: 'Lalo',
+  questions: [
+    {
+      question: 'How many legs does Lalo have?',
+      answer: 4,
+      choices: [2, 4, 6, 8],
+      image: 'assets/lalo-sprite.png',
+    },
+    { question: 'How many tails does Lalo have?', answer: 1, choices: [1, 2] },
+  ],
+};
+
+const errorsFor = (data: unknown) => {
+  const result = validateProblemPack(data);
+  return result.ok ? [] : result.errors;
+};
+
+describe('ProblemPacks', () => {
+  describe('validateProblemPack', () => {
+    it('accepts a well-formed pack', () => {
+      expect(validateProblemPack(pack)).toEqual({ ok: true, pack });
+    });
+
+    it('accepts the built-in packs', () => {
+      BUILT_IN_PACKS.forEach((builtIn) => {
+        expect(errorsFor(builtIn)).toEqual([]);
+      });
+    });
+
+    it('rejects anything that is not an object', () => {
+      expect(errorsFor([pack])).toEqual(['A pack must be an object with "name" and "questions"']);
+    });
+
+    it('needs a name and at least one question', () => {
+      expect(errorsFor({ name: ' ', questions: [] })).toEqual([
+        'Pack: "name" must be some text',
+        'Pack: "questions" must be a list with at least one question',
+      ]);
+    });
+
+    it('points out unknown fields, which are usually typos', () => {
+      const errors = errorsFor({
+        ...pack,
+        questions: [{ question: 'How many?', answer: 2, choice: [1, 2] }],
+      });
+
+      expect(errors).toContain(
+        'Question 1: unknown field "choice" (expected question, answer, choices, image)'
+      );
+      expect(errors).toContain('Question 1: "choices" must be a list of numbers, like [2, 4, 6]');
+    });
+
+    it('numbers questions from 1 and explains what is wrong with them', () => {
+      const errors = errorsFor({
+        ...pack,
+        questions: [
+          pack.questions[0],
+          { question: 'How many ears?', answer: 2.5, choices: [2, 2, 'three'] },
+          { question: 'How many noses?', answer: 1, choices: [2, 3] },
+        ],
+      });
+
+      expect(errors).toEqual([
+        'Question 2: "answer" must be a whole number, 0 or more',
+        'Question 2: choice 2 is listed more than once',
+        'Question 2: choice 3 must be a whole number, 0 or more',
+        'Question 3: "choices" must include the answer (1)',
+      ]);
+    });
+
+    it('limits how many choices a question can have', () => {
+      const errors = errorsFor({
+        name: 'Too many',
+        questions: [{ question: 'Pick one', answer: 1, choices: [1, 2, 3, 4, 5, 6, 7] }],
+      });
+
+      expect(errors).toEqual([
+        `Question 1: "choices" must have ${PACK_CONFIG.MIN_CHOICES} to ${PACK_CONFIG.MAX_CHOICES} numbers (it has 7)`,
+      ]);
+    });
+
+    it('sums up long lists of errors', () => {
+      const questions = Array.from({ length: 15 }, () => ({
+        question: '',
+        answer: 1,
+        choices: [1, 2],
+      }));
+      const errors = errorsFor({ name: 'Blank', questions });
+
+      expect(errors).toHaveLength(PACK_CONFIG.MAX_ERRORS + 1);
+      expect(errors[errors.length - 1]).toBe('…and 5 more');
+    });
+  });
+
+  describe('parseProblemPack', () => {
+    it('parses and validates pack files', () => {
+      expect(parseProblemPack(JSON.stringify(pack))).toEqual({ ok: true, pack });
+    });
+
+    it('explains files that are not JSON', () => {
+      const result = parseProblemPack('{ "name": "Lalo", }');
+
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.errors[0]).toMatch(/^The file isn't valid JSON: /);
+    });
+  });
+
+  describe('generatePackProblem', () => {
+    it('asks a question from the pack with its own choices', () => {
+      const problem = generatePackProblem(pack, { repeatWindow: 0 }, createRandom(1));
+      const question = pack.questions.find((candidate) => candidate.question === problem.question);
+
+      expect(question).toBeDefined();
+      expect(problem.kind).toBe('pack');
+      expect(problem.answer).toBe(question?.answer);
+      expect(problem.image).toBe(question?.image);
+      expect(problem.choices.map((choice) => choice.value).sort()).toEqual(
+        [...(question?.choices ?? [])].sort()
+      );
+    });
+
+    it('avoids repeating recent questions', () => {
+      const rng = createRandom(2);
+      const history = new ProblemHistory();
+      let previous = generatePackProblem(pack, { repeatWindow: 1 }, rng, history);
+
+      for (let i = 0; i < 10; i++) {
+        const next = generatePackProblem(pack, { repeatWindow: 1 }, rng, history);
+        expect(next.question).not.toBe(previous.question);
+        previous = next;
+      }
+    });
+  });
+
+  describe('shouldUsePack', () => {
+    it('always uses the pack instead of generated problems', () => {
+      const rng = createRandom(3);
+      expect(Array.from({ length: 10 }, () => shouldUsePack('instead', rng))).not.toContain(false);
+    });
+
+    it('mixes pack questions in alongside generated problems', () => {
+      const rng = createRandom(4);
+      const picks = new Set(Array.from({ length: 20 }, () => shouldUsePack('alongside', rng)));
+      expect(picks).toEqual(new Set([true, false]));
+    });
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Problem packs for Rosie Races checkpoints
+ * A pack is a JSON file of fixed questions, each with its own choices and an
+ * optional picture, asked instead of (or mixed in with) generated problems.
+ * Packs are written by hand, so validation explains every problem it finds.
+ */
+
+import { createProblemId, type MathConfig, type PackProblem } from './MathGenerator';
+import { HISTORY_CONFIG, type ProblemHistory } from './ProblemHistory';
+import type { RandomSource } from './Random';
+
+export interface PackQuestion {
+  question: string;
+  answer: number;
+  /** Every answer button, including the right answer */
+  choices: number[];
+  /** Picture shown above the question: a URL, or a path in public/ (assets/lalo-sprite.png) */
+  image?: string;
+}
+
+export interface ProblemPack {
+  /** Shown in settings; loading a pack with the same name replaces it */
+  name: string;
+  description?: string;
+  questions: PackQuestion[];
+}
+
+/**
+ * How pack questions are used at checkpoints
+ * - 'instead': only questions from the pack
+ * - 'alongside': pack questions mixed in with generated problems
+ */
+export type PackUsage = 'instead' | 'alongside';
+
+export type ProblemPackResult = { ok: true; pack: ProblemPack } | { ok: false; errors: string[] };
+
+// Constants for problem packs
+export const PACK_CONFIG = {
+  MIN_CHOICES: 2,
+  MAX_CHOICES: 6, // Matches the most answer buttons the modal lays out
+  ALONGSIDE_SHARE: 0.5, // Share of checkpoints asking a pack question in 'alongside' mode
+  MAX_ERRORS: 10, // Errors listed before the rest are summed up
+};
+
+/**
+ * JSON Schema (draft-07) for pack files, for editors that check JSON as it's written.
+ * validateProblemPack enforces the same rules, plus that the answer is one of the choices.
+ */
+export const PROBLEM_PACK_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'Rosie Races problem pack',
+  type: 'object',
+  required: ['name', 'questions'],
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    questions: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['question', 'answer', 'choices'],
+        additionalProperties: false,
+        properties: {
+          question: { type: 'string', minLength: 1 },
+          answer: { type: 'integer', minimum: 0 },
+          choices: {
+            type: 'array',
+            minItems: PACK_CONFIG.MIN_CHOICES,
+            maxItems: PACK_CONFIG.MAX_CHOICES,
+            uniqueItems: true,
+            items: { type: 'integer', minimum: 0 },
+          },
+          image: { type: 'string', minLength: 1 },
+        },
+      },
+    },
+  },
+} as const;
+
+const PACK_FIELDS = Object.keys(PROBLEM_PACK_SCHEMA.properties);
+const QUESTION_FIELDS = Object.keys(PROBLEM_PACK_SCHEMA.properties.questions.items.properties);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isWholeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Lists fields that aren't part of the format (usually a typo, e.g. "choice" for "choices")
+ */
+function getUnknownFieldErrors(
+  data: Record<string, unknown>,
+  fields: string[],
+  where: string
+): string[] {
+  return Object.keys(data)
+    .filter((field) => !fields.includes(field))
+    .map((field) => `${where}: unknown field "${field}" (expected ${fields.join(', ')})`);
+}
+
+/**
+ * Checks one question, numbering it from 1 the way the pack's author counts
+ */
+function getQuestionErrors(data: unknown, index: number): string[] {
+  const where = `Question ${index + 1}`;
+  if (!isObject(data)) {
+    return [`${where} must be an object with "question", "answer" and "choices"`];
+  }
+
+  const errors = getUnknownFieldErrors(data, QUESTION_FIELDS, where);
+  const { question, answer, choices, image } = data;
+
+  if (!isText(question)) errors.push(`${where}: "question" must be some text`);
+  if (!isWholeNumber(answer)) errors.push(`${where}: "answer" must be a whole number, 0 or more`);
+  if (image !== undefined && !isText(image)) {
+    errors.push(`${where}: "image" must be a picture's URL or path`);
+  }
+
+  if (!Array.isArray(choices)) {
+    errors.push(`${where}: "choices" must be a list of numbers, like [2, 4, 6]`);
+    return errors;
+  }
+  const { MIN_CHOICES, MAX_CHOICES } = PACK_CONFIG;
+  if (choices.length < MIN_CHOICES || choices.length > MAX_CHOICES) {
+    errors.push(
+      `${where}: "choices" must have ${MIN_CHOICES} to ${MAX_CHOICES} numbers (it has ${choices.length})`
+    );
+  }
+  choices.forEach((choice, choiceIndex) => {
+    if (!isWholeNumber(choice)) {
+      errors.push(`${where}: choice ${choiceIndex + 1} must be a whole number, 0 or more`);
+    } else if (choices.indexOf(choice) !== choiceIndex) {
+      errors.push(`${where}: choice ${choice} is listed more than once`);
+    }
+  });
+  if (isWholeNumber(answer) && !choices.includes(answer)) {
+    errors.push(`${where}: "choices" must include the answer (${answer})`);
+  }
+  return errors;
+}
+
+/**
+ * Checks parsed JSON against the pack format
+ */
+export function validateProblemPack(data: unknown): ProblemPackResult {
+  if (!isObject(data)) {
+    return { ok: false, errors: ['A pack must be an object with "name" and "questions"'] };
+  }
+
+  const errors = getUnknownFieldErrors(data, PACK_FIELDS, 'Pack');
+  const { name, description, questions } = data;
+
+  if (!isText(name)) errors.push('Pack: "name" must be some text');
+  if (description !== undefined && typeof description !== 'string') {
+    errors.push('Pack: "description" must be text');
+  }
+  if (!Array.isArray(questions) || questions.length === 0) {
+    errors.push('Pack: "questions" must be a list with at least one question');
+  } else {
+    questions.forEach((question, index) => errors.push(...getQuestionErrors(question, index)));
+  }
+
+  if (errors.length > 0) {
+    const { MAX_ERRORS } = PACK_CONFIG;
+    return {
+      ok: false,
+      errors:
+        errors.length > MAX_ERRORS
+          ? [...errors.slice(0, MAX_ERRORS), `…and ${errors.length - MAX_ERRORS} more`]
+          : errors,
+    };
+  }
+  return { ok: true, pack: data as unknown as ProblemPack };
+}
+
+/**
+ * Parses and validates the text of a pack file
+ */
+export function parseProblemPack(text: string): ProblemPackResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { ok: false, errors: [`The file isn't valid JSON: ${reason}`] };
+  }
+  return validateProblemPack(data);
+}
+
+/**
+ * Whether a checkpoint should ask a pack question rather than a generated one
+ */
+export function shouldUsePack(usage: PackUsage, rng: RandomSource): boolean {
+  return usage === 'instead' || rng.next() < PACK_CONFIG.ALONGSIDE_SHARE;
+}
+
+/**
+ * Builds a problem from one pack question, with its choices in random order
+ */
+function buildPackProblem(
+  pack: ProblemPack,
+  question: PackQuestion,
+  rng: RandomSource
+): PackProblem {
+  return {
+    kind: 'pack',
+    id: createProblemId(rng),
+    question: question.question,
+    answer: question.answer,
+    choices: rng.shuffle(question.choices).map((value) => ({ value, misconception: null })),
+    operation: null,
+    packName: pack.name,
+    image: question.image,
+  };
+}
+
+/**
+ * Picks a question from the pack, avoiding the last config.repeatWindow problems
+ * when a history is passed (as generateProblem does)
+ */
+export function generatePackProblem(
+  pack: ProblemPack,
+  config: Pick<MathConfig, 'repeatWindow'>,
+  rng: RandomSource,
+  history?: ProblemHistory
+): PackProblem {
+  let problem = buildPackProblem(pack, rng.pick(pack.questions), rng);
+  if (!history) return problem;
+
+  // Small packs run out of fresh questions, so give up after a few tries
+  for (
+    let attempt = 1;
+    attempt < HISTORY_CONFIG.MAX_ATTEMPTS && history.has(problem, config.repeatWindow);
+    attempt++
+  ) {
+    problem = buildPackProblem(pack, rng.pick(pack.questions), rng);
+  }
+  history.record(problem);
+  return problem;
+}
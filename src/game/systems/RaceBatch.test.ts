@@ -0,0 +1,115 @@
+import {
+  simulateRaces,
+  formatRaceBatchReport,
+  getTapRate,
+  runScriptedRace,
+  RACE_BATCH_CONFIG,
+} from './RaceBatch';
+import { RaceSimulation, getTrackLayout } from './RaceSimulation';
+import { createRandom } from './Random';
+import { FAMILY_MEMBERS } from '../../data/familyMembers';
+
+describe('RaceBatch', () => {
+  describe('getTapRate', () => {
+    it('keeps a single pace over the whole track', () => {
+      expect(getTapRate([4], 0)).toBe(4);
+      expect(getTapRate([4], 1)).toBe(4);
+    });
+
+    it('spreads a profile evenly from start to finish', () => {
+      const profile = [5, 4, 3];
+
+      expect(getTapRate(profile, 0.1)).toBe(5);
+      expect(getTapRate(profile, 0.5)).toBe(4);
+      expect(getTapRate(profile, 0.9)).toBe(3);
+      expect(getTapRate(profile, 1.2)).toBe(3);
+      expect(getTapRate(profile, -0.1)).toBe(5);
+    });
+
+    it('does not tap without a profile', () => {
+      expect(getTapRate([], 0.5)).toBe(0);
+    });
+  });
+
+  describe('runScriptedRace', () => {
+    it("leaves the family's race alone when only Rosie's accuracy changes", () => {
+      const layout = getTrackLayout(RACE_BATCH_CONFIG.TRACK_WIDTH);
+      const familyFinishTimes = (accuracy: number) => {
+        const simulation = new RaceSimulation({
+          layout,
+          racers: FAMILY_MEMBERS.slice(0, 5),
+          rng: createRandom(3),
+        });
+        const rosie = { tapsPerSecond: [4], accuracy, answerTimeMs: 1000 };
+        runScriptedRace(simulation, layout, rosie, createRandom(4));
+        return simulation.getSnapshot().competitors.map(({ finishTime }) => finishTime);
+      };
+
+      expect(familyFinishTimes(0)).toEqual(familyFinishTimes(1));
+    });
+  });
+
+  describe('simulateRaces', () => {
+    it('places Rosie once per race and enters the family as in the game', () => {
+      const report = simulateRaces({ races: 10 });
+
+      expect(report.races).toBe(10);
+      expect(report.rosiePositions).toHaveLength(RACE_BATCH_CONFIG.RACER_COUNT + 1);
+      expect(report.rosiePositions.reduce((sum, count) => sum + count, 0)).toBe(10);
+      expect(report.rosieWinRate).toBe(report.rosiePositions[0] / 10);
+
+      expect(report.family.map((entry) => entry.id)).toEqual(FAMILY_MEMBERS.map(({ id }) => id));
+      const entries = report.family.reduce((sum, entry) => sum + entry.races, 0);
+      expect(entries).toBe(10 * RACE_BATCH_CONFIG.RACER_COUNT);
+      const familyWins = report.family.reduce((sum, entry) => sum + entry.wins, 0);
+      expect(familyWins + report.rosiePositions[0]).toBe(10);
+    });
+
+    it('wins more often the faster Rosie taps', () => {
+      const slow = simulateRaces({ races: 10, rosie: { tapsPerSecond: [2] } });
+      const fast = simulateRaces({ races: 10, rosie: { tapsPerSecond: [6] } });
+
+      expect(fast.rosieWinRate).toBeGreaterThan(slow.rosieWinRate);
+      expect(fast.averageMarginMs!).toBeGreaterThan(slow.averageMarginMs!);
+      expect(fast.averageWinMarginMs!).toBeGreaterThan(0);
+      expect(slow.averageLossMarginMs!).toBeGreaterThan(0);
+    });
+
+    it('does better answering right than answering wrong', () => {
+      const right = simulateRaces({ races: 10, rosie: { accuracy: 1 } });
+      const wrong = simulateRaces({ races: 10, rosie: { accuracy: 0 } });
+
+      expect(right.averageMarginMs!).toBeGreaterThan(wrong.averageMarginMs!);
+    });
+
+    it('keeps a slow Rosie closer to the family with catch-up on', () => {
+      const off = simulateRaces({ races: 10, rosie: { tapsPerSecond: [2] } });
+      const on = simulateRaces({ races: 10, rosie: { tapsPerSecond: [2] }, catchUpStrength: 1 });
+
+      expect(Math.abs(on.averageMarginMs!)).toBeLessThan(Math.abs(off.averageMarginMs!));
+    });
+
+    it('counts a Rosie who never taps as unfinished and last', () => {
+      const report = simulateRaces({ races: 2, rosie: { tapsPerSecond: [0] } });
+
+      expect(report.unfinished).toBe(2);
+      expect(report.rosiePositions[RACE_BATCH_CONFIG.RACER_COUNT]).toBe(2);
+      expect(report.averageMarginMs).toBeNull();
+    });
+
+    it('reports the same batch from the same seed', () => {
+      expect(simulateRaces({ races: 5, seed: 9 })).toEqual(simulateRaces({ races: 5, seed: 9 }));
+    });
+  });
+
+  describe('formatRaceBatchReport', () => {
+    it("summarises Rosie's places and the family's wins", () => {
+      const text = formatRaceBatchReport(simulateRaces({ races: 5 }));
+
+      expect(text).toMatch(/^Rosie won \d+\.\d% of 5 races/);
+      expect(text).toContain('1st: ');
+      expect(text).toContain('6th: ');
+      FAMILY_MEMBERS.forEach(({ name }) => expect(text).toContain(`${name}: `));
+    });
+  });
+});
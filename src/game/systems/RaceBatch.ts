@@ -0,0 +1,253 @@
+/**
+ * Headless batch races for tuning
+ * Runs many seeded races against a scripted Rosie (a tapping pace, an answer
+ * accuracy and an answer time) and reports how she places and how often each
+ * family member wins. Used by scripts/simulate-races.js to tune SPEED_CONFIG,
+ * the family's base speeds and AI_CONFIG against targets like "Rosie wins about
+ * 60% at 4 taps a second".
+ */
+
+import { RaceSimulation, getTrackLayout, type TrackLayout } from './RaceSimulation';
+import { getRacePreset, type RacePresetId } from './RacePresets';
+import { createRandom, type RandomSource } from './Random';
+import { FAMILY_MEMBERS, SPEED_CONFIG, getRandomRacers } from '../../data/familyMembers';
+
+// Defaults for batch runs
+export const RACE_BATCH_CONFIG = {
+  RACES: 1000, // Races run by default
+  TRACK_WIDTH: 1280, // Canvas width raced on (the desktop game fits to 1280 wide)
+  FRAME_MS: 1000 / 60, // Time between the script's looks at the race
+  MAX_RACE_MS: 5 * 60 * 1000, // A race still going after this is stopped (Rosie counts as last)
+  RACER_COUNT: 5, // Family members in each race, as in the game
+  TAPS_PER_SECOND: 4,
+  ACCURACY: 0.9,
+  ANSWER_TIME_MS: 3000,
+  // Rosie's answers draw from their own stream (the race seed mixed with this), so changing
+  // her accuracy doesn't change the family's speed changes
+  ROSIE_SEED_SALT: 0x9e3779b9,
+};
+
+/** How the scripted Rosie plays */
+export interface ScriptedRosie {
+  /**
+   * Taps per second, spread evenly over the track: [4] keeps a steady pace,
+   * [5, 4, 3] starts fast and tires over the last third
+   */
+  tapsPerSecond: number[];
+  /** Chance of answering a checkpoint question right (0-1) */
+  accuracy: number;
+  /** How long she takes over each question (ms) */
+  answerTimeMs: number;
+}
+
+export interface RaceBatchOptions {
+  /** Number of races to run */
+  races?: number;
+  /** Seed of the first race; race i uses seed + i */
+  seed?: number;
+  rosie?: Partial<ScriptedRosie>;
+  presetId?: RacePresetId;
+  speedScale?: number;
+  /** Family catch-up strength (0 = off) */
+  catchUpStrength?: number;
+  trackWidth?: number;
+}
+
+export interface FamilyWinRate {
+  id: string;
+  name: string;
+  /** Races they were picked for */
+  races: number;
+  wins: number;
+  /** Wins per race entered (0-1) */
+  winRate: number;
+}
+
+export interface RaceBatchReport {
+  races: number;
+  /** Races Rosie didn't finish within RACE_BATCH_CONFIG.MAX_RACE_MS */
+  unfinished: number;
+  /** How many races Rosie finished in each place (index 0 = 1st) */
+  rosiePositions: number[];
+  rosieWinRate: number;
+  /** Average lead over the fastest family member (ms; negative = behind) */
+  averageMarginMs: number | null;
+  /** Average lead over 2nd place in the races she won (ms) */
+  averageWinMarginMs: number | null;
+  /** Average time behind the winner in the races she lost (ms) */
+  averageLossMarginMs: number | null;
+  family: FamilyWinRate[];
+}
+
+/**
+ * The scripted tap rate at a point on the track
+ * @param progress How far Rosie is from her start to the finish (0-1)
+ */
+export function getTapRate(tapsPerSecond: number[], progress: number): number {
+  if (tapsPerSecond.length === 0) return 0;
+  const index = Math.floor(Math.min(Math.max(progress, 0), 1) * tapsPerSecond.length);
+  return tapsPerSecond[Math.min(index, tapsPerSecond.length - 1)];
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Race one race to the end with the scripted Rosie
+ * @param rosieRng Decides her answers (keep it apart from the simulation's random source)
+ */
+export function runScriptedRace(
+  simulation: RaceSimulation,
+  layout: TrackLayout,
+  rosie: ScriptedRosie,
+  rosieRng: RandomSource
+): void {
+  const { FRAME_MS, MAX_RACE_MS } = RACE_BATCH_CONFIG;
+  let time = 0;
+  let nextTapTime = 0;
+  let pausedFor = 0;
+
+  simulation.start();
+  while (simulation.getPhase() !== 'finished' && time < MAX_RACE_MS) {
+    const { rosie: state } = simulation.getSnapshot();
+    if (state.isPaused) {
+      pausedFor += FRAME_MS;
+      if (pausedFor >= rosie.answerTimeMs) {
+        // A wrong answer stands for her last try, so she moves on without a boost
+        const correct = rosieRng.next() < rosie.accuracy;
+        simulation.answer({ correct, timeTaken: rosie.answerTimeMs });
+        pausedFor = 0;
+        nextTapTime = time;
+      }
+    } else if (state.finishTime === null) {
+      const progress = (state.x - layout.rosieStartX) / (layout.finishX - layout.rosieStartX);
+      const tapRate = getTapRate(rosie.tapsPerSecond, progress);
+      if (tapRate <= 0) {
+        nextTapTime = time + FRAME_MS;
+      }
+      for (; tapRate > 0 && nextTapTime <= time; nextTapTime += 1000 / tapRate) {
+        simulation.tap();
+      }
+    }
+    simulation.step(FRAME_MS);
+    time += FRAME_MS;
+  }
+}
+
+/**
+ * Run a batch of seeded races and summarise how Rosie and the family did
+ */
+export function simulateRaces(options: RaceBatchOptions = {}): RaceBatchReport {
+  const races = options.races ?? RACE_BATCH_CONFIG.RACES;
+  const seed = options.seed ?? 1;
+  const rosie: ScriptedRosie = {
+    tapsPerSecond: options.rosie?.tapsPerSecond ?? [RACE_BATCH_CONFIG.TAPS_PER_SECOND],
+    accuracy: options.rosie?.accuracy ?? RACE_BATCH_CONFIG.ACCURACY,
+    answerTimeMs: options.rosie?.answerTimeMs ?? RACE_BATCH_CONFIG.ANSWER_TIME_MS,
+  };
+  const layout = getTrackLayout(options.trackWidth ?? RACE_BATCH_CONFIG.TRACK_WIDTH);
+  const preset = getRacePreset(options.presetId);
+
+  const rosiePositions: number[] = new Array(RACE_BATCH_CONFIG.RACER_COUNT + 1).fill(0);
+  const family = new Map<string, FamilyWinRate>(
+    FAMILY_MEMBERS.map(({ id, name }) => [id, { id, name, races: 0, wins: 0, winRate: 0 }])
+  );
+  const margins: number[] = [];
+  const winMargins: number[] = [];
+  const lossMargins: number[] = [];
+  let unfinished = 0;
+
+  for (let race = 0; race < races; race++) {
+    const rng = createRandom(seed + race);
+    const simulation = new RaceSimulation({
+      layout,
+      racers: getRandomRacers(RACE_BATCH_CONFIG.RACER_COUNT, rng),
+      rng,
+      speedScale: options.speedScale ?? SPEED_CONFIG.SPEED_SCALE,
+      preset,
+      catchUpStrength: options.catchUpStrength,
+    });
+    const rosieRng = createRandom((seed + race) ^ RACE_BATCH_CONFIG.ROSIE_SEED_SALT);
+    runScriptedRace(simulation, layout, rosie, rosieRng);
+
+    const { rosie: rosieState, competitors } = simulation.getSnapshot();
+    competitors.forEach(({ familyMember, finishPosition }) => {
+      const entry = family.get(familyMember.id)!;
+      entry.races++;
+      if (finishPosition === 1) entry.wins++;
+    });
+
+    if (rosieState.finishTime === null) {
+      unfinished++;
+      rosiePositions[competitors.length]++;
+      continue;
+    }
+    rosiePositions[(rosieState.finishPosition ?? competitors.length + 1) - 1]++;
+
+    const familyTimes = competitors
+      .map((competitor) => competitor.finishTime)
+      .filter((finishTime): finishTime is number => finishTime !== null)
+      .sort((a, b) => a - b);
+    if (familyTimes.length === 0) continue;
+    const margin = familyTimes[0] - rosieState.finishTime;
+    margins.push(margin);
+    if (rosieState.finishPosition === 1) {
+      winMargins.push(margin);
+    } else {
+      lossMargins.push(-margin);
+    }
+  }
+
+  return {
+    races,
+    unfinished,
+    rosiePositions,
+    rosieWinRate: races > 0 ? rosiePositions[0] / races : 0,
+    averageMarginMs: average(margins),
+    averageWinMarginMs: average(winMargins),
+    averageLossMarginMs: average(lossMargins),
+    family: [...family.values()].map((entry) => ({
+      ...entry,
+      winRate: entry.races > 0 ? entry.wins / entry.races : 0,
+    })),
+  };
+}
+
+function formatPercent(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+function formatSeconds(ms: number | null): string {
+  return ms === null ? '-' : `${(ms / 1000).toFixed(2)}s`;
+}
+
+/**
+ * A readable summary of a batch report, one fact per line
+ */
+export function formatRaceBatchReport(report: RaceBatchReport): string {
+  const places = ['1st', '2nd', '3rd'];
+  const positions = report.rosiePositions.map((count, index) => {
+    const place = places[index] ?? `${index + 1}th`;
+    return `  ${place}: ${count} (${formatPercent(report.races > 0 ? count / report.races : 0)})`;
+  });
+  const family = [...report.family]
+    .sort((a, b) => b.winRate - a.winRate)
+    .map(
+      ({ name, wins, races, winRate }) =>
+        `  ${name}: ${wins}/${races} wins (${formatPercent(winRate)})`
+    );
+
+  return [
+    `Rosie won ${formatPercent(report.rosieWinRate)} of ${report.races} races` +
+      (report.unfinished > 0 ? ` (${report.unfinished} unfinished)` : ''),
+    'Rosie finished:',
+    ...positions,
+    `Average margin over the fastest family member: ${formatSeconds(report.averageMarginMs)}`,
+    `Average lead when winning: ${formatSeconds(report.averageWinMarginMs)}`,
+    `Average deficit when losing: ${formatSeconds(report.averageLossMarginMs)}`,
+    'Family win rates:',
+    ...family,
+  ].join('\n');
+}
@@ -0,0 +1,41 @@
+import {
+  getCheckpointRatios,
+  getRacePreset,
+  DEFAULT_RACE_PRESET_ID,
+  RACE_PRESETS,
+} from './RacePresets';
+
+describe('RacePresets', () => {
+  describe('RACE_PRESETS', () => {
+    it('has Sprint, Classic and Marathon, shortest first', () => {
+      expect(RACE_PRESETS.map((preset) => preset.id)).toEqual(['sprint', 'classic', 'marathon']);
+      const lengths = RACE_PRESETS.map((preset) => preset.trackLength);
+      expect(lengths).toEqual([...lengths].sort((a, b) => a - b));
+    });
+
+    it('gives Sprint no checkpoints and Marathon more checkpoints with a slower field', () => {
+      const classic = getRacePreset('classic');
+      const marathon = getRacePreset('marathon');
+
+      expect(getRacePreset('sprint').checkpointCount).toBe(0);
+      expect(classic.checkpointCount).toBe(2);
+      expect(marathon.checkpointCount).toBeGreaterThanOrEqual(4);
+      expect(marathon.aiSpeedFactor).toBeLessThan(classic.aiSpeedFactor);
+    });
+  });
+
+  describe('getRacePreset', () => {
+    it('falls back to Classic', () => {
+      expect(DEFAULT_RACE_PRESET_ID).toBe('classic');
+      expect(getRacePreset(undefined).id).toBe('classic');
+    });
+  });
+
+  describe('getCheckpointRatios', () => {
+    it('spreads checkpoints evenly between start and finish', () => {
+      expect(getCheckpointRatios(getRacePreset('classic'))).toEqual([1 / 3, 2 / 3]);
+      expect(getCheckpointRatios(getRacePreset('marathon'))).toEqual([0.2, 0.4, 0.6, 0.8]);
+      expect(getCheckpointRatios(getRacePreset('sprint'))).toEqual([]);
+    });
+  });
+});
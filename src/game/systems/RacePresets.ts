@@ -0,0 +1,71 @@
+/**
+ * Race presets for Rosie Races
+ * Named race shapes ("Sprint", "Classic", "Marathon") setting how long the track
+ * is, how many checkpoints it has and how fast the family races on it.
+ */
+
+export type RacePresetId = 'sprint' | 'classic' | 'marathon';
+
+export interface RacePreset {
+  id: RacePresetId;
+  name: string;
+  /** One line for the settings menu */
+  description: string;
+  /** Track length relative to Classic (2 = twice as far, so everyone takes twice as long) */
+  trackLength: number;
+  /** Checkpoints, spread evenly between the start and finish lines */
+  checkpointCount: number;
+  /** Multiplier on the family's speeds (below 1 for a slower, steadier field) */
+  aiSpeedFactor: number;
+}
+
+/** Presets, shortest first */
+export const RACE_PRESETS: RacePreset[] = [
+  {
+    id: 'sprint',
+    name: 'Sprint',
+    description: 'A short dash with no questions',
+    trackLength: 0.75,
+    checkpointCount: 0,
+    aiSpeedFactor: 1,
+  },
+  {
+    id: 'classic',
+    name: 'Classic',
+    description: 'One track with 2 questions along the way',
+    trackLength: 1,
+    checkpointCount: 2,
+    aiSpeedFactor: 1,
+  },
+  {
+    id: 'marathon',
+    name: 'Marathon',
+    description: 'A long race with 4 questions and a slower field',
+    trackLength: 2,
+    checkpointCount: 4,
+    aiSpeedFactor: 0.85,
+  },
+];
+
+export const DEFAULT_RACE_PRESET_ID: RacePresetId = 'classic';
+
+/**
+ * Gets a preset by ID, falling back to Classic
+ */
+export function getRacePreset(id: RacePresetId | undefined): RacePreset {
+  return (
+    RACE_PRESETS.find((preset) => preset.id === id) ??
+    RACE_PRESETS.find((preset) => preset.id === DEFAULT_RACE_PRESET_ID)!
+  );
+}
+
+/**
+ * Checkpoint positions as ratios of track length (0 = start line, 1 = finish line),
+ * e.g. [1/3, 2/3] for two checkpoints
+ */
+export function getCheckpointRatios(preset: RacePreset): number[] {
+  return Array.from(
+    { length: preset.checkpointCount },
+    (_, index) => (index + 1) / (preset.checkpointCount + 1)
+  );
+}
@@ -0,0 +1,388 @@
+import {
+  RaceSimulation,
+  AI_CONFIG,
+  ANSWER_BOOST_CONFIG,
+  MOVEMENT_CONFIG,
+  type RaceEvent,
+  type RaceSimulationOptions,
+} from './RaceSimulation';
+import { getRacePreset } from './RacePresets';
+import { createRandom } from './Random';
+import { FAMILY_MEMBERS, getMaxSpeed, getMinSpeed } from '../../data/familyMembers';
+
+const LAYOUT = { startX: 100, finishX: 900, rosieStartX: 50 };
+
+function createSimulation(options: Partial<RaceSimulationOptions> = {}): RaceSimulation {
+  return new RaceSimulation({
+    layout: LAYOUT,
+    racers: FAMILY_MEMBERS.slice(0, 5),
+    rng: createRandom(1),
+    ...options,
+  });
+}
+
+/**
+ * Runs a whole race: a tap every 100ms and a fast right answer at each checkpoint
+ */
+function runRace(simulation: RaceSimulation): RaceEvent[] {
+  const events: RaceEvent[] = [];
+  simulation.start();
+  for (let step = 0; step < 10000 && simulation.getPhase() !== 'finished'; step++) {
+    if (simulation.getSnapshot().rosie.isPaused) {
+      simulation.answer({ correct: true, timeTaken: 1000 });
+    }
+    simulation.tap();
+    events.push(...simulation.step(100));
+  }
+  return events;
+}
+
+describe('RaceSimulation', () => {
+  describe('before the start', () => {
+    it('lines everyone up and ignores taps and steps', () => {
+      const simulation = createSimulation();
+
+      expect(simulation.tap()).toBe(false);
+      expect(simulation.step(1000)).toEqual([]);
+
+      const snapshot = simulation.getSnapshot();
+      expect(snapshot.phase).toBe('ready');
+      expect(snapshot.rosie.x).toBe(LAYOUT.rosieStartX);
+      snapshot.competitors.forEach((competitor) => {
+        expect(competitor.x).toBe(LAYOUT.rosieStartX);
+      });
+    });
+
+    it('starts each competitor within their speed range', () => {
+      const simulation = createSimulation({ speedScale: 1 });
+
+      simulation.getSnapshot().competitors.forEach(({ familyMember, speed }) => {
+        expect(speed).toBeGreaterThanOrEqual(getMinSpeed(familyMember, 1));
+        expect(speed).toBeLessThanOrEqual(getMaxSpeed(familyMember, 1));
+      });
+    });
+  });
+
+  describe('tap', () => {
+    it('adds velocity up to the maximum', () => {
+      const simulation = createSimulation();
+      simulation.start();
+
+      expect(simulation.tap()).toBe(true);
+      expect(simulation.getSnapshot().rosie.velocity).toBe(MOVEMENT_CONFIG.TAP_VELOCITY_BOOST);
+
+      for (let i = 0; i < 100; i++) simulation.tap();
+      expect(simulation.getSnapshot().rosie.velocity).toBe(MOVEMENT_CONFIG.MAX_VELOCITY);
+    });
+
+    it('moves Rosie forward and lets friction slow her down', () => {
+      const simulation = createSimulation();
+      simulation.start();
+      simulation.tap();
+
+      simulation.step(100);
+      const { rosie } = simulation.getSnapshot();
+      expect(rosie.x).toBeGreaterThan(LAYOUT.rosieStartX);
+      expect(rosie.velocity).toBeLessThan(MOVEMENT_CONFIG.TAP_VELOCITY_BOOST);
+    });
+  });
+
+  describe('checkpoints', () => {
+    const runToCheckpoint = (simulation: RaceSimulation): RaceEvent[] => {
+      simulation.start();
+      for (let step = 0; step < 1000; step++) {
+        simulation.tap();
+        const events = simulation.step(100);
+        if (events.length > 0) return events;
+      }
+      return [];
+    };
+
+    it('pauses Rosie at the first checkpoint until the question is answered', () => {
+      const simulation = createSimulation();
+
+      expect(runToCheckpoint(simulation)).toEqual([{ type: 'checkpoint', checkpointIndex: 0 }]);
+      const { rosie, passedCheckpoints } = simulation.getSnapshot();
+      expect(rosie.isPaused).toBe(true);
+      expect(rosie.velocity).toBe(0);
+      expect(passedCheckpoints).toEqual([true, false]);
+
+      // Taps don't count and Rosie stays put, but the family keeps racing
+      expect(simulation.tap()).toBe(false);
+      const before = simulation.getSnapshot();
+      simulation.step(100);
+      const after = simulation.getSnapshot();
+      expect(after.rosie.x).toBe(before.rosie.x);
+      expect(after.competitors[0].x).toBeGreaterThan(before.competitors[0].x);
+    });
+
+    it('boosts Rosie more for a fast right answer than a slow one', () => {
+      const fast = createSimulation();
+      runToCheckpoint(fast);
+      fast.answer({ correct: true, timeTaken: 1000 });
+
+      const slow = createSimulation();
+      runToCheckpoint(slow);
+      slow.answer({ correct: true, timeTaken: ANSWER_BOOST_CONFIG.FAST_ANSWER_THRESHOLD });
+
+      expect(fast.getSnapshot().rosie.velocity).toBe(ANSWER_BOOST_CONFIG.FAST_ANSWER_BOOST);
+      expect(slow.getSnapshot().rosie.velocity).toBe(ANSWER_BOOST_CONFIG.SLOW_ANSWER_BOOST);
+    });
+
+    it('resumes without a boost after a wrong answer', () => {
+      const simulation = createSimulation();
+      runToCheckpoint(simulation);
+
+      simulation.answer({ correct: false, timeTaken: 1000 });
+
+      const { rosie, activeCheckpointIndex } = simulation.getSnapshot();
+      expect(rosie.isPaused).toBe(false);
+      expect(rosie.velocity).toBe(0);
+      expect(activeCheckpointIndex).toBeNull();
+    });
+
+    it("uses the checkpoint's own fast answer boost, shared over the tries", () => {
+      const simulation = createSimulation({ fastAnswerBoosts: [80] });
+      runToCheckpoint(simulation);
+
+      simulation.answer({ correct: true, timeTaken: 1000, attempts: 2 });
+
+      expect(simulation.getSnapshot().rosie.velocity).toBe(40);
+    });
+
+    it("spreads the preset's checkpoints along the track", () => {
+      const simulation = createSimulation({ preset: getRacePreset('marathon') });
+
+      expect(simulation.getSnapshot().checkpointPositions).toEqual([260, 420, 580, 740]);
+
+      simulation.setPreset(getRacePreset('sprint'));
+      expect(simulation.getSnapshot().checkpointPositions).toEqual([]);
+    });
+  });
+
+  describe('finishing', () => {
+    it('gives everyone a finish position and ends the race once all are over the line', () => {
+      const simulation = createSimulation();
+
+      const events = runRace(simulation);
+
+      const snapshot = simulation.getSnapshot();
+      expect(snapshot.phase).toBe('finished');
+      expect(events.filter((event) => event.type === 'racer-finished')).toHaveLength(5);
+      expect(events.filter((event) => event.type === 'rosie-finished')).toHaveLength(1);
+      expect(events[events.length - 1]).toEqual({ type: 'all-finished' });
+
+      const positions = [
+        snapshot.rosie.finishPosition,
+        ...snapshot.competitors.map((competitor) => competitor.finishPosition),
+      ];
+      expect([...positions].sort()).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+
+    it('lists results by finish position', () => {
+      const simulation = createSimulation();
+      runRace(simulation);
+
+      const results = simulation.getResults();
+
+      expect(results).toHaveLength(6);
+      expect(results.map((result) => result.position)).toEqual([1, 2, 3, 4, 5, 6]);
+      const rosie = results.find((result) => result.isRosie)!;
+      expect(rosie.name).toBe('Rosie');
+      expect(rosie.finishTime).toBe(simulation.getSnapshot().rosie.finishTime);
+    });
+
+    it('lists racers still running after the finishers', () => {
+      const simulation = createSimulation();
+      simulation.start();
+      simulation.step(100);
+
+      expect(simulation.getResults().every((result) => result.finishTime === null)).toBe(true);
+    });
+
+    it('plays out the same race from the same seed and taps', () => {
+      const first = createSimulation({ rng: createRandom(42) });
+      const second = createSimulation({ rng: createRandom(42) });
+
+      runRace(first);
+      runRace(second);
+
+      expect(second.getResults()).toEqual(first.getResults());
+    });
+  });
+
+  describe('frame rate', () => {
+    /**
+     * Runs a race drawn at the given frames per second: a tap every 100ms of race time
+     * and a right answer 1 second after reaching each checkpoint
+     */
+    const raceAt = (framesPerSecond: number): RaceSimulation => {
+      const simulation = createSimulation({ rng: createRandom(7) });
+      const frameMs = 1000 / framesPerSecond;
+      let time = 0;
+      let nextTapTime = 0;
+      let pausedSince: number | null = null;
+      simulation.start();
+      while (simulation.getPhase() !== 'finished' && time < 120000) {
+        if (simulation.getSnapshot().rosie.isPaused) {
+          pausedSince ??= time;
+          if (time - pausedSince >= 1000) {
+            simulation.answer({ correct: true, timeTaken: 1000 });
+            pausedSince = null;
+          }
+        }
+        for (; nextTapTime <= time; nextTapTime += 100) simulation.tap();
+        simulation.step(frameMs);
+        time += frameMs;
+      }
+      return simulation;
+    };
+
+    it('slows Rosie down the same at any frame rate', () => {
+      const velocityAfterOneSecond = (framesPerSecond: number) => {
+        const simulation = createSimulation();
+        simulation.start();
+        simulation.tap();
+        for (let frame = 0; frame < framesPerSecond; frame++) {
+          simulation.step(1000 / framesPerSecond);
+        }
+        return simulation.getSnapshot().rosie;
+      };
+
+      const at60 = velocityAfterOneSecond(60);
+      [30, 120, 144].forEach((framesPerSecond) => {
+        const rosie = velocityAfterOneSecond(framesPerSecond);
+        expect(rosie.velocity).toBeCloseTo(at60.velocity);
+        expect(rosie.x).toBeCloseTo(at60.x);
+      });
+    });
+
+    it('finishes the same race at the same times at 30, 60 and 120 fps', () => {
+      const [at30, at60, at120] = [30, 60, 120].map(raceAt);
+      const finishOrder = (simulation: RaceSimulation) =>
+        simulation.getResults().map(({ name }) => name);
+
+      expect(at60.getPhase()).toBe('finished');
+      [at30, at120].forEach((simulation) => {
+        // The family doesn't depend on input, so their race is identical
+        expect(simulation.getSnapshot().competitors).toEqual(at60.getSnapshot().competitors);
+
+        // Rosie's taps and answers only land on a frame, so each of the two checkpoints
+        // and the final taps can cost her up to one 30fps frame
+        const rosieFinish = simulation.getSnapshot().rosie.finishTime!;
+        expect(Math.abs(rosieFinish - at60.getSnapshot().rosie.finishTime!)).toBeLessThanOrEqual(
+          3 * (1000 / 30)
+        );
+        expect(finishOrder(simulation)).toEqual(finishOrder(at60));
+      });
+    });
+
+    it('carries part of a step over to the next frame', () => {
+      const simulation = createSimulation();
+      simulation.start();
+      simulation.tap();
+
+      simulation.step(MOVEMENT_CONFIG.STEP_MS / 2);
+      expect(simulation.getSnapshot().rosie.x).toBe(LAYOUT.rosieStartX);
+
+      simulation.step(MOVEMENT_CONFIG.STEP_MS / 2);
+      expect(simulation.getSnapshot().rosie.x).toBeGreaterThan(LAYOUT.rosieStartX);
+      expect(simulation.getSnapshot().elapsedMs).toBeCloseTo(MOVEMENT_CONFIG.STEP_MS);
+    });
+  });
+
+  describe('catch-up mode', () => {
+    it('leaves the family to race as usual when off', () => {
+      const usual = createSimulation({ rng: createRandom(5) });
+      const off = createSimulation({ rng: createRandom(5), catchUpStrength: 0 });
+
+      runRace(usual);
+      runRace(off);
+
+      expect(off.getResults()).toEqual(usual.getResults());
+    });
+
+    it('eases the family down to their bottom speed when well ahead of Rosie', () => {
+      const simulation = createSimulation({ speedScale: 1, catchUpStrength: 1 });
+      simulation.start();
+
+      // Rosie never taps, so the family pulls away
+      simulation.step(20000);
+
+      simulation.getSnapshot().competitors.forEach(({ familyMember, speed }) => {
+        expect(speed).toBeCloseTo(getMinSpeed(familyMember, 1));
+      });
+    });
+
+    it('lets the family push up to their top speed when well behind Rosie', () => {
+      const simulation = createSimulation({ speedScale: 1, catchUpStrength: 1 });
+      simulation.start();
+
+      // Rosie sprints to the first checkpoint and waits there, far ahead
+      for (let step = 0; step < 1000 && !simulation.getSnapshot().rosie.isPaused; step++) {
+        for (let tap = 0; tap < 5; tap++) simulation.tap();
+        simulation.step(100);
+      }
+      simulation.step(AI_CONFIG.SPEED_VARIATION_INTERVAL);
+
+      const { rosie, competitors } = simulation.getSnapshot();
+      expect(rosie.isPaused).toBe(true);
+      competitors.forEach(({ familyMember, speed }) => {
+        expect(speed).toBeCloseTo(getMaxSpeed(familyMember, 1));
+      });
+    });
+
+    it('pulls gently at a low strength', () => {
+      const gentle = createSimulation({ speedScale: 1, catchUpStrength: 0.2 });
+      gentle.start();
+      gentle.step(2000);
+      const strong = createSimulation({ speedScale: 1 });
+      strong.setCatchUpStrength(1);
+      expect(strong.getCatchUpStrength()).toBe(1);
+      strong.start();
+      strong.step(2000);
+
+      gentle.getSnapshot().competitors.forEach(({ speed }, index) => {
+        expect(speed).toBeGreaterThanOrEqual(strong.getSnapshot().competitors[index].speed);
+      });
+    });
+  });
+
+  describe('settings', () => {
+    it('keeps competitor speeds inside a new speed range', () => {
+      const simulation = createSimulation({ speedScale: 1.4 });
+
+      simulation.setSpeedScale(0.4);
+
+      simulation.getSnapshot().competitors.forEach(({ familyMember, speed }) => {
+        expect(speed).toBeLessThanOrEqual(getMaxSpeed(familyMember, 0.4));
+      });
+    });
+
+    it('moves racers across the screen more slowly on a longer track', () => {
+      const distanceAfterOneSecond = (presetId: 'classic' | 'marathon') => {
+        const simulation = createSimulation({ preset: getRacePreset(presetId) });
+        simulation.start();
+        simulation.tap();
+        simulation.step(1000);
+        return simulation.getSnapshot().rosie.x - LAYOUT.rosieStartX;
+      };
+
+      expect(distanceAfterOneSecond('marathon')).toBeCloseTo(distanceAfterOneSecond('classic') / 2);
+    });
+  });
+
+  describe('getSnapshot', () => {
+    it('returns copies that later steps do not change', () => {
+      const simulation = createSimulation();
+      simulation.start();
+      simulation.tap();
+      const snapshot = simulation.getSnapshot();
+
+      simulation.step(100);
+
+      expect(snapshot.rosie.x).toBe(LAYOUT.rosieStartX);
+      expect(snapshot.competitors[0].x).toBe(LAYOUT.rosieStartX);
+    });
+  });
+});
@@ -0,0 +1,527 @@
+/**
+ * Race simulation for Rosie Races
+ * The rules of a race without any drawing: Rosie's tap-driven movement, the
+ * family's AI speeds, checkpoints that pause Rosie for a question, and finish
+ * positions. RaceScene renders it; tests and other front ends can step it directly.
+ */
+
+import type { RacerResult } from '../events';
+import {
+  getCheckpointRatios,
+  getRacePreset,
+  DEFAULT_RACE_PRESET_ID,
+  type RacePreset,
+} from './RacePresets';
+import type { RandomSource } from './Random';
+import {
+  getMinSpeed,
+  getMaxSpeed,
+  SPEED_CONFIG,
+  type FamilyMember,
+} from '../../data/familyMembers';
+
+// Constants for movement physics
+export const MOVEMENT_CONFIG = {
+  TAP_VELOCITY_BOOST: 15, // Velocity added per tap
+  MAX_VELOCITY: 300, // Maximum velocity cap
+  FRICTION: 0.98, // Velocity multiplier per physics step (decay)
+  STEP_MS: 1000 / 60, // Physics runs in steps this long, whatever the display's refresh rate
+};
+
+// Leftover time this close to a whole step counts as one (absorbs floating-point error)
+const STEP_EPSILON_MS = 1e-6;
+
+// Constants for AI competitor behavior
+export const AI_CONFIG = {
+  SPEED_VARIATION_INTERVAL: 2000, // Time between speed changes (ms)
+  SPEED_VARIATION_AMOUNT: 5, // Max speed change per variation (+/-)
+  // Catch-up mode: at each speed change the family leans toward their top speed when
+  // behind Rosie and their bottom speed when ahead, harder the bigger the gap
+  CATCH_UP_FULL_GAP: 0.2, // Gap to Rosie (fraction of the track) that gets the full pull
+  DEFAULT_CATCH_UP_STRENGTH: 0, // Off unless chosen in settings
+};
+
+// Velocity boosts for correct answers at checkpoints
+export const ANSWER_BOOST_CONFIG = {
+  FAST_ANSWER_THRESHOLD: 3000, // 3 seconds in ms
+  FAST_ANSWER_BOOST: 50,
+  SLOW_ANSWER_BOOST: 20,
+};
+
+// How Rosie appears in race results
+export const ROSIE_RACER = {
+  name: 'Rosie',
+  color: 0xff69b4, // Pink
+  avatar: 'assets/rosie-sprite.png', // In public/, relative for the correct base URL
+};
+
+/** Where the race runs, in pixels across the track */
+export interface TrackLayout {
+  startX: number;
+  finishX: number;
+  /** Where everyone lines up (a little before the start line) */
+  rosieStartX: number;
+}
+
+// Where the lines sit, as ratios of the canvas width
+export const TRACK_LAYOUT_RATIOS = {
+  START_LINE_RATIO: 0.065, //  from left
+  FINISH_LINE_RATIO: 0.85, // from left -  leaves space for TAP button overlay
+  ROSIE_START_RATIO: 0.03, // from left
+};
+
+/**
+ * The track layout for a canvas this many pixels wide
+ */
+export function getTrackLayout(width: number): TrackLayout {
+  return {
+    startX: width * TRACK_LAYOUT_RATIOS.START_LINE_RATIO,
+    finishX: width * TRACK_LAYOUT_RATIOS.FINISH_LINE_RATIO,
+    rosieStartX: width * TRACK_LAYOUT_RATIOS.ROSIE_START_RATIO,
+  };
+}
+
+/**
+ * Race phase
+ * - 'ready': lined up, waiting for start()
+ * - 'racing': running (including while Rosie is paused at a checkpoint)
+ * - 'finished': Rosie and every competitor are over the line
+ */
+export type RacePhase = 'ready' | 'racing' | 'finished';
+
+/** An AI racer's state */
+export interface CompetitorState {
+  familyMember: FamilyMember;
+  x: number;
+  speed: number; // Current speed (pixels per second)
+  lastSpeedChangeTime: number; // Race time when speed was last varied (ms)
+  finishTime: number | null; // Race time when crossed finish line (ms)
+  finishPosition: number | null; // Position when finished (1st, 2nd, etc.)
+}
+
+export interface RosieState {
+  x: number;
+  velocity: number;
+  /** Stopped at a checkpoint until the question is answered */
+  isPaused: boolean;
+  finishTime: number | null;
+  finishPosition: number | null;
+}
+
+export interface RacePosition {
+  name: string;
+  x: number;
+  position: number;
+}
+
+/** Everything a renderer needs for one frame (copies, safe to keep) */
+export interface RaceSnapshot {
+  phase: RacePhase;
+  /** Race time since start() (ms) */
+  elapsedMs: number;
+  rosie: RosieState;
+  competitors: CompetitorState[];
+  checkpointPositions: number[];
+  passedCheckpoints: boolean[];
+  /** Checkpoint whose question is showing */
+  activeCheckpointIndex: number | null;
+  /** Everyone by distance covered, leader first */
+  positions: RacePosition[];
+}
+
+/**
+ * Something that happened during a step, for the renderer to react to
+ * - 'checkpoint': Rosie reached a checkpoint and is waiting for an answer
+ * - 'racer-finished': a competitor crossed the line
+ * - 'rosie-finished': Rosie crossed the line
+ * - 'all-finished': the last racer crossed the line; the race is over
+ */
+export type RaceEvent =
+  | { type: 'checkpoint'; checkpointIndex: number }
+  | { type: 'racer-finished'; name: string }
+  | { type: 'rosie-finished' }
+  | { type: 'all-finished' };
+
+export interface CheckpointAnswer {
+  correct: boolean;
+  timeTaken: number; // ms
+  /** Tries it took; the boost is shared out over them */
+  attempts?: number;
+}
+
+export interface RaceSimulationOptions {
+  layout: TrackLayout;
+  racers: FamilyMember[];
+  /** Draws the competitors' starting speeds and their speed changes */
+  rng: RandomSource;
+  speedScale?: number;
+  preset?: RacePreset;
+  /** Per-checkpoint fast answer boosts (the default boost if empty) */
+  fastAnswerBoosts?: number[];
+  /** How hard the family leans toward Rosie's pace (0 = off, 1 = straight to the target speed) */
+  catchUpStrength?: number;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * RaceSimulation - One race, advanced with step().
+ * Pure TypeScript so race rules can be unit tested without Phaser.
+ */
+export class RaceSimulation {
+  private layout: TrackLayout;
+  private rng: RandomSource;
+  private speedScale: number;
+  private preset: RacePreset;
+  private fastAnswerBoosts: number[];
+  private catchUpStrength: number;
+
+  private phase: RacePhase = 'ready';
+  private elapsedMs: number = 0;
+  private unsteppedMs: number = 0; // Time passed but not yet simulated (less than one step)
+  private rosie: RosieState;
+  private competitors: CompetitorState[];
+  private checkpointPositions: number[] = [];
+  private passedCheckpoints: boolean[] = [];
+  private activeCheckpointIndex: number | null = null;
+  private nextFinishPosition: number = 1;
+
+  constructor(options: RaceSimulationOptions) {
+    this.layout = options.layout;
+    this.rng = options.rng;
+    this.speedScale = options.speedScale ?? SPEED_CONFIG.SPEED_SCALE;
+    this.preset = options.preset ?? getRacePreset(DEFAULT_RACE_PRESET_ID);
+    this.fastAnswerBoosts = options.fastAnswerBoosts ?? [];
+    this.catchUpStrength = clamp(
+      options.catchUpStrength ?? AI_CONFIG.DEFAULT_CATCH_UP_STRENGTH,
+      0,
+      1
+    );
+
+    this.rosie = {
+      x: this.layout.rosieStartX,
+      velocity: 0,
+      isPaused: false,
+      finishTime: null,
+      finishPosition: null,
+    };
+    // Each competitor starts at a random speed within their range
+    this.competitors = options.racers.map((familyMember) => ({
+      familyMember,
+      x: this.layout.rosieStartX,
+      speed: this.rng.float(
+        getMinSpeed(familyMember, this.getAiSpeedScale()),
+        getMaxSpeed(familyMember, this.getAiSpeedScale())
+      ),
+      lastSpeedChangeTime: 0,
+      finishTime: null,
+      finishPosition: null,
+    }));
+    this.layoutCheckpoints();
+  }
+
+  /** Start racing (after the countdown) */
+  start(): void {
+    if (this.phase === 'ready') this.phase = 'racing';
+  }
+
+  /**
+   * A tap on the run button; returns false when it didn't count
+   * (before the start, paused at a checkpoint, or over the line)
+   */
+  tap(): boolean {
+    if (this.phase !== 'racing' || this.rosie.isPaused || this.rosie.finishTime !== null) {
+      return false;
+    }
+    this.rosie.velocity = Math.min(
+      this.rosie.velocity + MOVEMENT_CONFIG.TAP_VELOCITY_BOOST,
+      MOVEMENT_CONFIG.MAX_VELOCITY
+    );
+    return true;
+  }
+
+  /**
+   * The answer to the current checkpoint's question: Rosie carries on, with a
+   * boost for a right answer (bigger when it was fast)
+   */
+  answer({ correct, timeTaken, attempts }: CheckpointAnswer): void {
+    this.rosie.isPaused = false;
+    if (correct) {
+      const boost =
+        timeTaken < ANSWER_BOOST_CONFIG.FAST_ANSWER_THRESHOLD
+          ? this.getFastAnswerBoost()
+          : ANSWER_BOOST_CONFIG.SLOW_ANSWER_BOOST;
+      this.rosie.velocity = boost / Math.max(1, attempts ?? 1);
+    }
+    // Wrong answers: no boost, just resume
+    this.activeCheckpointIndex = null;
+  }
+
+  /**
+   * Advance the race by dtMs; returns what happened, in order.
+   * Runs whole physics steps (MOVEMENT_CONFIG.STEP_MS) and carries the remainder
+   * to the next call, so a race plays out the same at 30, 60 or 120 frames a second.
+   */
+  step(dtMs: number): RaceEvent[] {
+    if (this.phase !== 'racing') return [];
+
+    const events: RaceEvent[] = [];
+    const { STEP_MS } = MOVEMENT_CONFIG;
+    this.unsteppedMs += dtMs;
+    while (this.phase === 'racing' && this.unsteppedMs >= STEP_MS - STEP_EPSILON_MS) {
+      this.unsteppedMs = Math.max(0, this.unsteppedMs - STEP_MS);
+      this.fixedStep(events);
+    }
+    return events;
+  }
+
+  /** Change the family's speed scale, pulling current speeds inside the new range */
+  setSpeedScale(speedScale: number): void {
+    this.speedScale = speedScale;
+    this.clampCompetitorSpeeds();
+  }
+
+  setFastAnswerBoosts(fastAnswerBoosts: number[]): void {
+    this.fastAnswerBoosts = fastAnswerBoosts;
+  }
+
+  setCatchUpStrength(catchUpStrength: number): void {
+    this.catchUpStrength = clamp(catchUpStrength, 0, 1);
+  }
+
+  /**
+   * Switch preset: moves the checkpoints (none passed) and the family's speed range.
+   * Meant for before the race starts.
+   */
+  setPreset(preset: RacePreset): void {
+    this.preset = preset;
+    this.layoutCheckpoints();
+    this.clampCompetitorSpeeds();
+  }
+
+  getPhase(): RacePhase {
+    return this.phase;
+  }
+
+  getCatchUpStrength(): number {
+    return this.catchUpStrength;
+  }
+
+  getSnapshot(): RaceSnapshot {
+    return {
+      phase: this.phase,
+      elapsedMs: this.elapsedMs,
+      rosie: { ...this.rosie },
+      competitors: this.competitors.map((competitor) => ({ ...competitor })),
+      checkpointPositions: [...this.checkpointPositions],
+      passedCheckpoints: [...this.passedCheckpoints],
+      activeCheckpointIndex: this.activeCheckpointIndex,
+      positions: this.getRacePositions(),
+    };
+  }
+
+  /**
+   * Everyone by distance covered (leader first)
+   */
+  getRacePositions(): RacePosition[] {
+    const racers = [
+      { name: ROSIE_RACER.name, x: this.rosie.x },
+      ...this.competitors.map((c) => ({ name: c.familyMember.name, x: c.x })),
+    ];
+
+    // Sort by x position (descending - furthest ahead is first)
+    racers.sort((a, b) => b.x - a.x);
+    return racers.map((racer, index) => ({ ...racer, position: index + 1 }));
+  }
+
+  /**
+   * Results so far: finished racers by position, then those still racing
+   */
+  getResults(): RacerResult[] {
+    const rosie: RacerResult = {
+      name: ROSIE_RACER.name,
+      color: ROSIE_RACER.color,
+      finishTime: this.rosie.finishTime,
+      position: this.rosie.finishPosition,
+      isRosie: true,
+      avatar: ROSIE_RACER.avatar,
+    };
+    const competitors: RacerResult[] = this.competitors.map((competitor) => ({
+      name: competitor.familyMember.name,
+      color: competitor.familyMember.color,
+      finishTime: competitor.finishTime,
+      position: competitor.finishPosition,
+      isRosie: false,
+      avatar: `assets/${competitor.familyMember.sprite}`,
+    }));
+
+    const all = [rosie, ...competitors];
+    const finished = all.filter((result) => result.finishTime !== null);
+    const stillRacing = all.filter((result) => result.finishTime === null);
+    finished.sort((a, b) => (a.position ?? 999) - (b.position ?? 999));
+    return [...finished, ...stillRacing];
+  }
+
+  /**
+   * One physics step of MOVEMENT_CONFIG.STEP_MS
+   */
+  private fixedStep(events: RaceEvent[]): void {
+    const deltaSeconds = MOVEMENT_CONFIG.STEP_MS / 1000;
+    this.elapsedMs += MOVEMENT_CONFIG.STEP_MS;
+
+    // Competitors move even when Rosie is paused at a checkpoint
+    this.updateCompetitors(deltaSeconds);
+    this.checkCompetitorFinishes(events);
+
+    if (!this.rosie.isPaused && this.rosie.finishTime === null) {
+      this.updateRosie(deltaSeconds, events);
+    }
+
+    if (this.rosie.finishTime !== null && this.competitors.every((c) => c.finishTime !== null)) {
+      this.phase = 'finished';
+      events.push({ type: 'all-finished' });
+    }
+  }
+
+  /**
+   * Speed scale for the family: the settings scale times the preset's AI speed factor
+   */
+  private getAiSpeedScale(): number {
+    return this.speedScale * this.preset.aiSpeedFactor;
+  }
+
+  /**
+   * Fast answer boost for the current checkpoint
+   * Checkpoints beyond the configured list reuse its last entry
+   */
+  private getFastAnswerBoost(): number {
+    if (this.activeCheckpointIndex === null || this.fastAnswerBoosts.length === 0) {
+      return ANSWER_BOOST_CONFIG.FAST_ANSWER_BOOST;
+    }
+    const index = Math.min(this.activeCheckpointIndex, this.fastAnswerBoosts.length - 1);
+    return this.fastAnswerBoosts[index];
+  }
+
+  /**
+   * Place the preset's checkpoints between the start and finish lines, none passed yet
+   */
+  private layoutCheckpoints(): void {
+    const { startX, finishX } = this.layout;
+    this.checkpointPositions = getCheckpointRatios(this.preset).map(
+      (ratio) => startX + (finishX - startX) * ratio
+    );
+    this.passedCheckpoints = this.checkpointPositions.map(() => false);
+    this.activeCheckpointIndex = null;
+  }
+
+  private clampCompetitorSpeeds(): void {
+    this.competitors.forEach((competitor) => {
+      competitor.speed = clamp(
+        competitor.speed,
+        getMinSpeed(competitor.familyMember, this.getAiSpeedScale()),
+        getMaxSpeed(competitor.familyMember, this.getAiSpeedScale())
+      );
+    });
+  }
+
+  /**
+   * How far a competitor is ahead of Rosie for catch-up mode, from -1 (well behind)
+   * to 1 (well ahead); 0 when level
+   */
+  private getLeadOverRosie(competitor: CompetitorState): number {
+    const trackWidth = this.layout.finishX - this.layout.startX;
+    if (trackWidth <= 0) return 0;
+    const gap = (competitor.x - this.rosie.x) / trackWidth;
+    return clamp(gap / AI_CONFIG.CATCH_UP_FULL_GAP, -1, 1);
+  }
+
+  /**
+   * Move the competitors, varying their speeds every so often for realism
+   * (they don't stop for checkpoints)
+   */
+  private updateCompetitors(deltaSeconds: number): void {
+    this.competitors.forEach((competitor) => {
+      if (competitor.finishTime !== null) return;
+
+      if (this.elapsedMs - competitor.lastSpeedChangeTime >= AI_CONFIG.SPEED_VARIATION_INTERVAL) {
+        const minSpeed = getMinSpeed(competitor.familyMember, this.getAiSpeedScale());
+        const maxSpeed = getMaxSpeed(competitor.familyMember, this.getAiSpeedScale());
+        competitor.lastSpeedChangeTime = this.elapsedMs;
+        competitor.speed += this.rng.float(
+          -AI_CONFIG.SPEED_VARIATION_AMOUNT,
+          AI_CONFIG.SPEED_VARIATION_AMOUNT
+        );
+        // Once Rosie is over the line there's nobody left to pace against
+        // Close racers are left to race; the further off Rosie, the harder the pull
+        if (this.catchUpStrength > 0 && this.rosie.finishTime === null) {
+          const lead = this.getLeadOverRosie(competitor);
+          const target = lead > 0 ? minSpeed : maxSpeed;
+          competitor.speed += (target - competitor.speed) * Math.abs(lead) * this.catchUpStrength;
+        }
+        competitor.speed = clamp(competitor.speed, minSpeed, maxSpeed);
+      }
+
+      // Slower across the track on longer presets
+      competitor.x = clamp(
+        competitor.x + (competitor.speed * deltaSeconds) / this.preset.trackLength,
+        this.layout.rosieStartX,
+        this.layout.finishX
+      );
+    });
+  }
+
+  private checkCompetitorFinishes(events: RaceEvent[]): void {
+    this.competitors.forEach((competitor) => {
+      if (competitor.finishTime !== null || competitor.x < this.layout.finishX) return;
+      competitor.finishTime = this.elapsedMs;
+      competitor.finishPosition = this.nextFinishPosition++;
+      events.push({ type: 'racer-finished', name: competitor.familyMember.name });
+    });
+  }
+
+  /**
+   * Apply friction, move Rosie, then check checkpoints and the finish line
+   */
+  private updateRosie(deltaSeconds: number, events: RaceEvent[]): void {
+    const rosie = this.rosie;
+    rosie.velocity *= MOVEMENT_CONFIG.FRICTION;
+
+    // Clamp very small velocities to 0 to prevent eternal drift
+    if (Math.abs(rosie.velocity) < 0.1) {
+      rosie.velocity = 0;
+    }
+    if (rosie.velocity <= 0) return;
+
+    rosie.x = clamp(
+      rosie.x + (rosie.velocity * deltaSeconds) / this.preset.trackLength,
+      this.layout.rosieStartX,
+      this.layout.finishX
+    );
+
+    this.checkForCheckpoint(events);
+
+    if (rosie.x >= this.layout.finishX) {
+      rosie.finishTime = this.elapsedMs;
+      rosie.finishPosition = this.nextFinishPosition++;
+      rosie.velocity = 0;
+      events.push({ type: 'rosie-finished' });
+    }
+  }
+
+  /**
+   * Pause Rosie at the first checkpoint she has just crossed
+   */
+  private checkForCheckpoint(events: RaceEvent[]): void {
+    this.checkpointPositions.forEach((checkpointX, index) => {
+      if (!this.passedCheckpoints[index] && this.rosie.x >= checkpointX) {
+        this.passedCheckpoints[index] = true;
+        this.activeCheckpointIndex = index;
+        this.rosie.isPaused = true;
+        this.rosie.velocity = 0; // Stop momentum while paused
+        events.push({ type: 'checkpoint', checkpointIndex: index });
+      }
+    });
+  }
+}
@@ -0,0 +1,81 @@
+import { createRandom, createSeed } from './Random';
+
+describe('Random', () => {
+  describe('createRandom', () => {
+    it('produces the same sequence for the same seed', () => {
+      const a = createRandom(1234);
+      const b = createRandom(1234);
+
+      for (let i = 0; i < 20; i++) {
+        expect(a.next()).toBe(b.next());
+      }
+    });
+
+    it('produces different sequences for different seeds', () => {
+      const a = createRandom(1);
+      const b = createRandom(2);
+      const seqA = Array.from({ length: 5 }, () => a.next());
+      const seqB = Array.from({ length: 5 }, () => b.next());
+
+      expect(seqA).not.toEqual(seqB);
+    });
+
+    it('exposes the seed it was created from', () => {
+      expect(createRandom(42).seed).toBe(42);
+    });
+
+    it('returns floats in [0, 1)', () => {
+      const rng = createRandom(7);
+      for (let i = 0; i < 1000; i++) {
+        const value = rng.next();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+
+    it('returns integers within an inclusive range', () => {
+      const rng = createRandom(99);
+      const seen = new Set<number>();
+      for (let i = 0; i < 500; i++) {
+        const value = rng.int(1, 4);
+        expect(Number.isInteger(value)).toBe(true);
+        seen.add(value);
+      }
+
+      expect([...seen].sort()).toEqual([1, 2, 3, 4]);
+    });
+
+    it('returns floats within a range', () => {
+      const rng = createRandom(5);
+      for (let i = 0; i < 100; i++) {
+        const value = rng.float(10, 20);
+        expect(value).toBeGreaterThanOrEqual(10);
+        expect(value).toBeLessThan(20);
+      }
+    });
+
+    it('picks an element from the array', () => {
+      const rng = createRandom(3);
+      const items = ['a', 'b', 'c'];
+      expect(items).toContain(rng.pick(items));
+    });
+
+    it('shuffles without mutating or losing elements', () => {
+      const rng = createRandom(11);
+      const items = [1, 2, 3, 4, 5, 6];
+      const shuffled = rng.shuffle(items);
+
+      expect(items).toEqual([1, 2, 3, 4, 5, 6]);
+      expect([...shuffled].sort()).toEqual(items);
+    });
+  });
+
+  describe('createSeed', () => {
+    it('returns an unsigned 32-bit integer', () => {
+      const seed = createSeed();
+      expect(Number.isInteger(seed)).toBe(true);
+      expect(seed).toBeGreaterThanOrEqual(0);
+      expect(seed).toBeLessThan(0x100000000);
+    });
+  });
+});
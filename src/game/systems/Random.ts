@@ -0,0 +1,61 @@
+/**
+ * Seedable random source for Rosie Races
+ * Problems, racer selection and AI speed changes all draw from one of these,
+ * so a race can be replayed exactly from its seed.
+ */
+
+export interface RandomSource {
+  /** Seed this source was created from */
+  readonly seed: number;
+  /** Returns a float in [0, 1) */
+  next(): number;
+  /** Returns an integer between min and max (inclusive) */
+  int(min: number, max: number): number;
+  /** Returns a float between min and max */
+  float(min: number, max: number): number;
+  /** Returns a random element of a non-empty array */
+  pick<T>(items: readonly T[]): T;
+  /** Returns a shuffled copy of the array (Fisher-Yates) */
+  shuffle<T>(items: readonly T[]): T[];
+}
+
+/**
+ * Creates a new 32-bit seed from Math.random
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Creates a deterministic random source using the mulberry32 algorithm
+ */
+export function createRandom(seed: number = createSeed()): RandomSource {
+  const initialSeed = seed >>> 0;
+  let state = initialSeed;
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+
+  const int = (min: number, max: number): number => Math.floor(next() * (max - min + 1)) + min;
+
+  return {
+    seed: initialSeed,
+    next,
+    int,
+    float: (min, max) => min + next() * (max - min),
+    pick: (items) => items[int(0, items.length - 1)],
+    shuffle: (items) => {
+      const shuffled = [...items];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = int(0, i);
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return shuffled;
+    },
+  };
+}
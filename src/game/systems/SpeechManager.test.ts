@@ -0,0 +1,77 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { AudioManager } from './AudioManager';
+import { SpeechManager, type SpeechEngine } from './SpeechManager';
+
+const createFakeEngine = () => ({
+  speak: jest.fn<SpeechEngine['speak']>(),
+  cancel: jest.fn<SpeechEngine['cancel']>(),
+});
+
+describe('SpeechManager', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    AudioManager.resetInstance();
+    SpeechManager.resetInstance();
+  });
+
+  it('returns the same instance', () => {
+    expect(SpeechManager.getInstance()).toBe(SpeechManager.getInstance());
+  });
+
+  it('is unavailable without speech synthesis', () => {
+    // jsdom has no window.speechSynthesis
+    const speech = SpeechManager.getInstance();
+    expect(speech.isAvailable()).toBe(false);
+    expect(() => speech.speak('hello')).not.toThrow();
+  });
+
+  it('reads text at the audio volume', () => {
+    const engine = createFakeEngine();
+    const speech = SpeechManager.getInstance();
+    speech.setEngine(engine);
+    AudioManager.getInstance().setVolume(0.5);
+
+    speech.speak('three plus four');
+
+    expect(speech.isAvailable()).toBe(true);
+    expect(engine.speak).toHaveBeenCalledWith('three plus four', 0.5);
+  });
+
+  it('cuts off the previous phrase before reading a new one', () => {
+    const engine = createFakeEngine();
+    const speech = SpeechManager.getInstance();
+    speech.setEngine(engine);
+
+    speech.speak('one');
+    speech.speak('two');
+
+    expect(engine.cancel).toHaveBeenCalledTimes(2);
+    expect(engine.speak).toHaveBeenLastCalledWith('two', expect.any(Number));
+  });
+
+  it('stays quiet while muted', () => {
+    const engine = createFakeEngine();
+    const speech = SpeechManager.getInstance();
+    speech.setEngine(engine);
+    AudioManager.getInstance().setMuted(true);
+
+    speech.speak('three plus four');
+
+    expect(engine.speak).not.toHaveBeenCalled();
+  });
+
+  it('stops reading as soon as it is muted', () => {
+    const engine = createFakeEngine();
+    const speech = SpeechManager.getInstance();
+    speech.setEngine(engine);
+    speech.speak('three plus four');
+    engine.cancel.mockClear();
+
+    AudioManager.getInstance().toggleMute();
+    expect(engine.cancel).toHaveBeenCalledTimes(1);
+
+    // Unmuting doesn't need to cut anything off
+    AudioManager.getInstance().setMuted(false);
+    expect(engine.cancel).toHaveBeenCalledTimes(1);
+  });
+});
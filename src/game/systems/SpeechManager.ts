@@ -0,0 +1,92 @@
+import { AudioManager } from './AudioManager';
+
+/**
+ * Something that can read text aloud. The browser's speech synthesis is used
+ * by default; tests swap in a fake with SpeechManager.setEngine.
+ */
+export interface SpeechEngine {
+  /** Start reading text aloud at the given volume (0-1) */
+  speak(text: string, volume: number): void;
+  /** Stop anything currently being read */
+  cancel(): void;
+}
+
+// Slightly slower than normal so young listeners can follow
+const SPEECH_RATE = 0.9;
+
+/**
+ * Speech engine backed by window.speechSynthesis, or null where the browser
+ * has no speech synthesis
+ */
+export function createBrowserSpeechEngine(): SpeechEngine | null {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) return null;
+  const synth = window.speechSynthesis;
+  return {
+    speak(text, volume) {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.rate = SPEECH_RATE;
+      utterance.volume = volume;
+      synth.speak(utterance);
+    },
+    cancel() {
+      synth.cancel();
+    },
+  };
+}
+
+/**
+ * Singleton SpeechManager for reading questions aloud.
+ * Follows the AudioManager's mute and volume so one speaker button controls everything.
+ */
+export class SpeechManager {
+  private static instance: SpeechManager | null = null;
+  private engine: SpeechEngine | null;
+
+  private constructor() {
+    this.engine = createBrowserSpeechEngine();
+    // Muting cuts off a question that's already being read, not just the next one
+    AudioManager.getInstance().onMuteChange((muted) => {
+      if (muted) this.cancel();
+    });
+  }
+
+  /** Get the singleton instance of SpeechManager */
+  static getInstance(): SpeechManager {
+    if (!SpeechManager.instance) {
+      SpeechManager.instance = new SpeechManager();
+    }
+    return SpeechManager.instance;
+  }
+
+  /** Reset the singleton (useful for testing) */
+  static resetInstance(): void {
+    SpeechManager.instance = null;
+  }
+
+  /** Replace the speech engine (null turns speech off) */
+  setEngine(engine: SpeechEngine | null): void {
+    this.engine?.cancel();
+    this.engine = engine;
+  }
+
+  /** Whether anything can be read aloud on this device */
+  isAvailable(): boolean {
+    return this.engine !== null;
+  }
+
+  /** Read text aloud, cutting off anything still being read. Does nothing while muted. */
+  speak(text: string): void {
+    if (!this.engine) return;
+    this.engine.cancel();
+    const audioManager = AudioManager.getInstance();
+    if (audioManager.isMuted()) return;
+    this.engine.speak(text, audioManager.getVolume());
+  }
+
+  /** Stop reading */
+  cancel(): void {
+    this.engine?.cancel();
+  }
+}
+
+export default SpeechManager;
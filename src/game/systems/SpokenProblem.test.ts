@@ -0,0 +1,230 @@
+import {
+  getSpokenAnswer,
+  getSpokenChoices,
+  getSpokenProblem,
+  getSpokenQuestion,
+} from './SpokenProblem';
+import {
+  buildEquation,
+  type ExpressionNode,
+  type MathChoice,
+  type MathEquation,
+  type MathProblem,
+  type Operation,
+} from './MathGenerator';
+
+const toChoices = (values: number[]): MathChoice[] =>
+  values.map((value) => ({ value, misconception: null }));
+
+const symbolic = (equation: MathEquation, operation: Operation = 'add'): MathProblem => ({
+  kind: 'symbolic',
+  id: 'problem-1',
+  question: '',
+  answer: equation.result,
+  choices: toChoices([equation.result, equation.result + 1]),
+  operation,
+  equation,
+});
+
+const num = (value: number): ExpressionNode => ({ type: 'number', value });
+
+describe('SpokenProblem', () => {
+  describe('getSpokenQuestion', () => {
+    it('reads a simple sum with the blank as "what"', () => {
+      expect(getSpokenQuestion(symbolic(buildEquation('add', [3, 4])))).toBe(
+        'three plus four equals what?'
+      );
+    });
+
+    it('reads a missing operand', () => {
+      expect(getSpokenQuestion(symbolic(buildEquation('subtract', [12, 5], 1), 'subtract'))).toBe(
+        'twelve minus what equals seven?'
+      );
+    });
+
+    it('reads multiplication, division and squares', () => {
+      expect(getSpokenQuestion(symbolic(buildEquation('multiply', [6, 7]), 'multiply'))).toBe(
+        'six times seven equals what?'
+      );
+      expect(getSpokenQuestion(symbolic(buildEquation('divide', [20, 4]), 'divide'))).toBe(
+        'twenty divided by four equals what?'
+      );
+      expect(getSpokenQuestion(symbolic(buildEquation('square', [9]), 'square'))).toBe(
+        'nine squared equals what?'
+      );
+    });
+
+    it('reads grouped sub-expressions with brackets', () => {
+      const expression: ExpressionNode = {
+        type: 'binary',
+        operation: 'multiply',
+        left: { type: 'binary', operation: 'add', left: num(2), right: num(3) },
+        right: num(4),
+      };
+      const equation: MathEquation = {
+        expression,
+        operands: [2, 3, 4],
+        result: 20,
+        unknown: 'result',
+      };
+
+      expect(getSpokenQuestion(symbolic(equation, 'multiply'))).toBe(
+        'open bracket, two plus three, close bracket, times four equals what?'
+      );
+    });
+
+    it('describes picture problems in words', () => {
+      const problem: MathProblem = {
+        kind: 'picture',
+        id: 'problem-2',
+        question: 'How many apples are left?',
+        answer: 3,
+        choices: toChoices([3, 4]),
+        operation: 'subtract',
+        equation: buildEquation('subtract', [5, 2]),
+        picture: {
+          item: { id: 'apple', name: 'apple', pluralName: 'apples', emoji: '🍎' },
+          groups: [
+            { count: 3, style: 'start' },
+            { count: 2, style: 'removed' },
+          ],
+          pictureChoices: false,
+        },
+      };
+
+      expect(getSpokenQuestion(problem)).toBe(
+        'five apples. Take away two. How many apples are left?'
+      );
+    });
+  });
+
+  describe('other problem families', () => {
+    it('names both numbers in a comparison', () => {
+      const problem: MathProblem = {
+        kind: 'comparison',
+        id: 'problem-3',
+        question: 'Which is bigger: 7 or 4?',
+        answer: 7,
+        choices: toChoices([7, 4]),
+        operation: 'compare',
+        numbers: [7, 4],
+      };
+
+      expect(getSpokenQuestion(problem)).toBe('Which is bigger, seven or four?');
+      // The choices were just named, so they aren't read again
+      expect(getSpokenProblem(problem, 'choices')).toBe('Which is bigger, seven or four?');
+    });
+
+    it('reads a clock question and its choices as times', () => {
+      const problem: MathProblem = {
+        kind: 'clock',
+        id: 'problem-5',
+        question: 'What time is it?',
+        answer: 330,
+        choices: toChoices([330, 400]),
+        operation: 'time',
+        time: { hours: 3, minutes: 30 },
+      };
+
+      expect(getSpokenProblem(problem, 'choices')).toBe(
+        "What time does the clock show? Is it half past three or four o'clock?"
+      );
+    });
+
+    it('names the coins and reads the choices in cents', () => {
+      const problem: MathProblem = {
+        kind: 'coins',
+        id: 'problem-6',
+        question: 'How much money?',
+        answer: 27,
+        choices: toChoices([27, 1]),
+        operation: 'money',
+        coins: [
+          { name: 'quarter', value: 25 },
+          { name: 'penny', value: 1 },
+          { name: 'penny', value: 1 },
+        ],
+      };
+
+      expect(getSpokenQuestion(problem)).toBe('A quarter and two pennies. How much money is that?');
+      expect(getSpokenAnswer(problem, 1)).toBe('one cent');
+      expect(getSpokenProblem(problem, 'choices')).toMatch(
+        /Is it twenty-seven cents or one cent\?$/
+      );
+    });
+
+    it("reads a pack question as it's written", () => {
+      const problem: MathProblem = {
+        kind: 'pack',
+        id: 'problem-7',
+        question: 'How many legs does Lalo have?',
+        answer: 4,
+        choices: toChoices([2, 4]),
+        operation: null,
+        packName: 'Family questions',
+      };
+
+      expect(getSpokenProblem(problem, 'choices')).toBe(
+        'How many legs does Lalo have? Is it two or four?'
+      );
+    });
+
+    const sequence = (
+      operation: Operation,
+      terms: number[],
+      unknown: number,
+      step: number
+    ): MathProblem => ({
+      kind: 'sequence',
+      id: 'problem-4',
+      question: '',
+      answer: terms[unknown],
+      choices: toChoices([terms[unknown]]),
+      operation,
+      sequence: { terms, unknown, step },
+    });
+
+    it('reads a skip-counting run and asks what comes next', () => {
+      expect(getSpokenQuestion(sequence('skip-count', [5, 10, 15, 20], 3, 5))).toBe(
+        'five, ten, fifteen. What comes next?'
+      );
+    });
+
+    it('asks what comes before or after', () => {
+      expect(getSpokenQuestion(sequence('before-after', [14, 15], 1, 1))).toBe(
+        'What number comes after fourteen?'
+      );
+      expect(getSpokenQuestion(sequence('before-after', [13, 14], 0, 1))).toBe(
+        'What number comes before fourteen?'
+      );
+    });
+  });
+
+  describe('getSpokenChoices', () => {
+    it('joins two choices with "or"', () => {
+      expect(getSpokenChoices(toChoices([8, 6]))).toBe('Is it eight or six?');
+    });
+
+    it('lists longer sets of choices', () => {
+      expect(getSpokenChoices(toChoices([8, 6, 9, 7]))).toBe('Is it eight, six, nine, or seven?');
+    });
+  });
+
+  describe('getSpokenProblem', () => {
+    const problem = symbolic(buildEquation('add', [3, 4]));
+
+    it('reads the choices when there are buttons', () => {
+      expect(getSpokenProblem(problem, 'choices')).toBe(
+        'three plus four equals what? Is it seven or eight?'
+      );
+    });
+
+    it('reads the choices when answering by voice', () => {
+      expect(getSpokenProblem(problem, 'voice')).toContain('Is it seven or eight?');
+    });
+
+    it('reads only the question for the number pad', () => {
+      expect(getSpokenProblem(problem, 'number-pad')).toBe('three plus four equals what?');
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Spoken problems
+ * Builds the sentence read aloud for a problem from its equation tree
+ * ("three plus four equals what?"), rather than from the symbol string.
+ */
+
+import {
+  needsParentheses,
+  type AnswerMode,
+  type BinaryOperation,
+  type ExpressionNode,
+  type MathChoice,
+  type MathProblem,
+} from './MathGenerator';
+import { numberToWords } from './NumberWords';
+import { fromClockValue } from './ClockProblems';
+import type { Coin, CoinName } from './CoinProblems';
+
+const OPERATION_WORDS: Record<BinaryOperation, string> = {
+  add: 'plus',
+  subtract: 'minus',
+  multiply: 'times',
+  divide: 'divided by',
+};
+
+// Said in place of the blank
+const UNKNOWN_WORD = 'what';
+
+const COIN_PLURALS: Record<CoinName, string> = {
+  penny: 'pennies',
+  nickel: 'nickels',
+  dime: 'dimes',
+  quarter: 'quarters',
+};
+
+/**
+ * Names a time the way it's read off a clock, e.g. "half past three"
+ */
+function speakTime(value: number): string {
+  const { hours, minutes } = fromClockValue(value);
+  if (minutes === 0) return `${numberToWords(hours)} o'clock`;
+  if (minutes === 30) return `half past ${numberToWords(hours)}`;
+  return `${numberToWords(hours)} ${numberToWords(minutes)}`;
+}
+
+/**
+ * Names a handful of coins, biggest first, e.g. "a quarter, a dime and two pennies"
+ */
+function speakCoins(coins: Coin[]): string {
+  const counts = new Map<CoinName, number>();
+  coins.forEach((coin) => counts.set(coin.name, (counts.get(coin.name) ?? 0) + 1));
+  const words = Array.from(counts, ([name, count]) =>
+    count === 1 ? `a ${name}` : `${numberToWords(count)} ${COIN_PLURALS[name]}`
+  );
+  if (words.length === 1) return words[0];
+  return `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}`;
+}
+
+/**
+ * An answer to this problem as words, e.g. "half past three" or "seven cents"
+ */
+export function getSpokenAnswer(problem: MathProblem, value: number): string {
+  switch (problem.kind) {
+    case 'clock':
+      return speakTime(value);
+    case 'coins':
+      return `${numberToWords(value)} ${value === 1 ? 'cent' : 'cents'}`;
+    default:
+      return numberToWords(value);
+  }
+}
+
+/**
+ * The question as a sentence, e.g. "three plus what equals seven?"
+ */
+export function getSpokenQuestion(problem: MathProblem): string {
+  if (problem.kind === 'comparison') {
+    const [first, second] = problem.numbers;
+    return `Which is bigger, ${numberToWords(first)} or ${numberToWords(second)}?`;
+  }
+
+  // Pack questions are written out in full by whoever made the pack
+  if (problem.kind === 'pack') {
+    return problem.question;
+  }
+
+  if (problem.kind === 'clock') {
+    return 'What time does the clock show?';
+  }
+
+  if (problem.kind === 'coins') {
+    const coins = speakCoins(problem.coins);
+    return `${coins.charAt(0).toUpperCase()}${coins.slice(1)}. How much money is that?`;
+  }
+
+  if (problem.kind === 'sequence') {
+    const { terms, unknown } = problem.sequence;
+    if (problem.operation === 'before-after') {
+      return unknown === 0
+        ? `What number comes before ${numberToWords(terms[1])}?`
+        : `What number comes after ${numberToWords(terms[0])}?`;
+    }
+    if (unknown === terms.length - 1) {
+      return `${terms.slice(0, -1).map(numberToWords).join(', ')}. What comes next?`;
+    }
+    const words = terms.map((term, index) =>
+      index === unknown ? UNKNOWN_WORD : numberToWords(term)
+    );
+    return `${words.join(', ')}?`;
+  }
+
+  const { equation } = problem;
+  if (problem.kind === 'picture') {
+    const [start, change] = equation.operands;
+    const { item } = problem.picture;
+    const things = (count: number) =>
+      `${numberToWords(count)} ${count === 1 ? item.name : item.pluralName}`;
+    return problem.operation === 'add'
+      ? `${things(start)}, and ${numberToWords(change)} more. How many ${item.pluralName} now?`
+      : `${things(start)}. Take away ${numberToWords(change)}. How many ${item.pluralName} are left?`;
+  }
+
+  // Operands are numbered left to right, as in getQuestionTokens
+  let operandIndex = 0;
+  const speak = (node: ExpressionNode): string => {
+    switch (node.type) {
+      case 'number':
+        return equation.unknown === operandIndex++ ? UNKNOWN_WORD : numberToWords(node.value);
+      case 'binary':
+        return [
+          speakGroup(node.left, node.operation, 'left'),
+          OPERATION_WORDS[node.operation],
+          speakGroup(node.right, node.operation, 'right'),
+        ].join(' ');
+      case 'square':
+        return `${speak(node.operand)} squared`;
+    }
+  };
+  const speakGroup = (
+    node: ExpressionNode,
+    parent: BinaryOperation,
+    side: 'left' | 'right'
+  ): string => {
+    const words = speak(node);
+    return needsParentheses(node, parent, side) ? `open bracket, ${words}, close bracket,` : words;
+  };
+
+  const expression = speak(equation.expression).replace(/,$/, '');
+  const result = equation.unknown === 'result' ? UNKNOWN_WORD : numberToWords(equation.result);
+  return `${expression} equals ${result}?`;
+}
+
+/**
+ * The choices as a question, e.g. "Is it eight, six, or nine?"
+ * Pass sayValue to name answers that aren't plain numbers (times, amounts of money)
+ */
+export function getSpokenChoices(
+  choices: MathChoice[],
+  sayValue: (value: number) => string = numberToWords
+): string {
+  const words = choices.map((choice) => sayValue(choice.value));
+  if (words.length <= 2) return `Is it ${words.join(' or ')}?`;
+  return `Is it ${words.slice(0, -1).join(', ')}, or ${words[words.length - 1]}?`;
+}
+
+/**
+ * Everything read aloud when a problem is shown; choices are only read when
+ * there are buttons to pick from (or say), and comparisons already name them
+ */
+export function getSpokenProblem(problem: MathProblem, answerMode: AnswerMode): string {
+  const question = getSpokenQuestion(problem);
+  return answerMode === 'number-pad' || problem.kind === 'comparison'
+    ? question
+    : `${question} ${getSpokenChoices(problem.choices, (value) => getSpokenAnswer(problem, value))}`;
+}
@@ -0,0 +1,80 @@
+import { pickTimesTableFact, TimesTableFacts, TIMES_TABLE_CONFIG } from './TimesTables';
+import { createRandom } from './Random';
+
+describe('TimesTables', () => {
+  describe('TimesTableFacts', () => {
+    it('counts misses the same either way round', () => {
+      const facts = new TimesTableFacts();
+      facts.record([3, 7], false);
+      facts.record([7, 3], false);
+
+      expect(facts.getMissCount([3, 7])).toBe(2);
+      expect(facts.getMissCount([7, 3])).toBe(2);
+    });
+
+    it('takes a miss off for each right answer until the fact is learned', () => {
+      const facts = new TimesTableFacts();
+      facts.record([6, 8], false);
+      facts.record([6, 8], false);
+      facts.record([6, 8], true);
+
+      expect(facts.getMissed([6])).toEqual([[6, 8]]);
+
+      facts.record([8, 6], true);
+      expect(facts.getMissed([6])).toEqual([]);
+    });
+
+    it('ignores right answers to facts that were never missed', () => {
+      const facts = new TimesTableFacts();
+      facts.record([2, 2], true);
+
+      expect(facts.getMissCount([2, 2])).toBe(0);
+    });
+
+    it('caps the misses remembered per fact', () => {
+      const facts = new TimesTableFacts();
+      for (let i = 0; i < 10; i++) facts.record([4, 9], false);
+
+      expect(facts.getMissCount([4, 9])).toBe(TIMES_TABLE_CONFIG.MAX_MISSES);
+    });
+
+    it('lists missed facts from the chosen tables, most missed first', () => {
+      const facts = new TimesTableFacts();
+      facts.record([3, 4], false);
+      facts.record([7, 8], false);
+      facts.record([7, 8], false);
+      facts.record([5, 6], false);
+
+      expect(facts.getMissed([3, 7])).toEqual([
+        [7, 8],
+        [3, 4],
+      ]);
+    });
+  });
+
+  describe('pickTimesTableFact', () => {
+    it('keeps one factor in the chosen tables', () => {
+      const rng = createRandom(5);
+
+      for (let i = 0; i < 50; i++) {
+        const [a, b] = pickTimesTableFact([3, 7], rng);
+        expect([3, 7].includes(a) || [3, 7].includes(b)).toBe(true);
+        expect(Math.max(a, b)).toBeLessThanOrEqual(TIMES_TABLE_CONFIG.MAX_FACTOR);
+        expect(Math.min(a, b)).toBeGreaterThanOrEqual(1);
+      }
+    });
+
+    it('brings missed facts back more often', () => {
+      const facts = new TimesTableFacts();
+      facts.record([7, 8], false);
+      const count = (withFacts?: TimesTableFacts) => {
+        const rng = createRandom(6);
+        return Array.from({ length: 200 }, () => pickTimesTableFact([3, 7], rng, withFacts)).filter(
+          ([a, b]) => a * b === 56
+        ).length;
+      };
+
+      expect(count(facts)).toBeGreaterThan(count() * 3);
+    });
+  });
+});
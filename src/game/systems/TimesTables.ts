@@ -0,0 +1,87 @@
+/**
+ * Times-table focus for multiplication problems
+ * Fixes one factor to the tables being practised (×3 and ×7, say) and keeps
+ * track of missed facts so they come back more often until they're learned.
+ */
+
+import type { RandomSource } from './Random';
+
+// Tuning for times-table focus
+export const TIMES_TABLE_CONFIG = {
+  TABLES: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10], // Tables that can be picked
+  MAX_FACTOR: 10, // Each table runs from ×1 to ×10
+  RESURFACE_SHARE: 0.4, // Chance of asking a missed fact again, when there is one
+  MAX_MISSES: 3, // Misses remembered per fact (each right answer takes one off)
+};
+
+/** A multiplication fact as its two factors, e.g. [3, 7] for 3 × 7 */
+export type TimesTableFact = [number, number];
+
+/**
+ * Key for a fact, the same either way round (3 × 7 and 7 × 3)
+ */
+function getFactKey([a, b]: TimesTableFact): string {
+  return `${Math.min(a, b)}×${Math.max(a, b)}`;
+}
+
+/**
+ * TimesTableFacts - Misses per multiplication fact.
+ * A miss counts up and a right answer counts down, so a fact that was missed twice
+ * has to be answered right twice before it stops coming back.
+ * Pure TypeScript so it can be unit tested without React or Phaser.
+ */
+export class TimesTableFacts {
+  private misses: Map<string, { fact: TimesTableFact; count: number }> = new Map();
+
+  /** Record an answer to a fact */
+  record(fact: TimesTableFact, correct: boolean): void {
+    const key = getFactKey(fact);
+    const count = (this.misses.get(key)?.count ?? 0) + (correct ? -1 : 1);
+    if (count <= 0) {
+      this.misses.delete(key);
+    } else {
+      this.misses.set(key, { fact, count: Math.min(count, TIMES_TABLE_CONFIG.MAX_MISSES) });
+    }
+  }
+
+  /** Outstanding misses for a fact (0 once it's learned) */
+  getMissCount(fact: TimesTableFact): number {
+    return this.misses.get(getFactKey(fact))?.count ?? 0;
+  }
+
+  /** Missed facts from the given tables, most missed first */
+  getMissed(tables: number[]): TimesTableFact[] {
+    return Array.from(this.misses.values())
+      .filter(({ fact }) => fact.some((factor) => tables.includes(factor)))
+      .sort((a, b) => b.count - a.count)
+      .map(({ fact }) => fact);
+  }
+
+  /** Forget all misses */
+  clear(): void {
+    this.misses.clear();
+  }
+}
+
+/**
+ * Picks a fact from the chosen tables, bringing back a missed one some of the time
+ * (weighted towards the facts missed most). The table's factor goes on either side.
+ */
+export function pickTimesTableFact(
+  tables: number[],
+  rng: RandomSource,
+  facts?: TimesTableFacts
+): TimesTableFact {
+  const missed = facts?.getMissed(tables) ?? [];
+  if (missed.length > 0 && rng.next() < TIMES_TABLE_CONFIG.RESURFACE_SHARE) {
+    const weighted = missed.flatMap((fact) =>
+      Array.from({ length: facts?.getMissCount(fact) ?? 1 }, () => fact)
+    );
+    const [a, b] = rng.pick(weighted);
+    return rng.next() < 0.5 ? [a, b] : [b, a];
+  }
+
+  const table = rng.pick(tables);
+  const factor = rng.int(1, TIMES_TABLE_CONFIG.MAX_FACTOR);
+  return rng.next() < 0.5 ? [table, factor] : [factor, table];
+}
@@ -0,0 +1,69 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { matchSpokenChoice, VoiceInput, type VoiceRecognizer } from './VoiceInput';
+import type { MathChoice } from './MathGenerator';
+
+const choices: MathChoice[] = [
+  { value: 8, misconception: null },
+  { value: 2, misconception: 'wrong-operation' },
+  { value: 9, misconception: 'off-by-one' },
+];
+
+describe('matchSpokenChoice', () => {
+  it('matches a spoken number to its choice', () => {
+    expect(matchSpokenChoice(['eight'], choices)).toEqual({ choice: choices[0], heard: 8 });
+  });
+
+  it('tries each guess until one matches a choice', () => {
+    expect(matchSpokenChoice(['hey', 'eighteen', 'ate'], choices)).toEqual({
+      choice: choices[0],
+      heard: 8,
+    });
+  });
+
+  it('reports the first number heard when none match', () => {
+    expect(matchSpokenChoice(['twelve', 'twenty'], choices)).toEqual({ choice: null, heard: 12 });
+  });
+
+  it('reports nothing heard when there is no number', () => {
+    expect(matchSpokenChoice(['hello'], choices)).toEqual({ choice: null, heard: null });
+  });
+});
+
+describe('VoiceInput', () => {
+  beforeEach(() => {
+    VoiceInput.resetInstance();
+  });
+
+  it('is unavailable without speech recognition', () => {
+    // jsdom has no SpeechRecognition
+    expect(VoiceInput.getInstance().isAvailable()).toBe(false);
+  });
+
+  it('ends straight away when unavailable', () => {
+    const onHeard = jest.fn();
+    const onEnd = jest.fn();
+
+    VoiceInput.getInstance().listen(onHeard, onEnd);
+
+    expect(onHeard).not.toHaveBeenCalled();
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes what the recognizer heard through', () => {
+    const recognizer: VoiceRecognizer = {
+      listen: (onHeard, onEnd) => {
+        onHeard(['seven']);
+        onEnd();
+      },
+      stop: jest.fn(),
+    };
+    const voiceInput = VoiceInput.getInstance();
+    voiceInput.setRecognizer(recognizer);
+    const onHeard = jest.fn();
+
+    voiceInput.listen(onHeard, jest.fn());
+
+    expect(voiceInput.isAvailable()).toBe(true);
+    expect(onHeard).toHaveBeenCalledWith(['seven']);
+  });
+});
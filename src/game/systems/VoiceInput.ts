@@ -0,0 +1,150 @@
+import type { MathChoice } from './MathGenerator';
+import { parseNumberWords } from './NumberWords';
+
+/**
+ * Something that listens for one spoken answer. The browser's speech
+ * recognition is used by default; tests swap in a fake with VoiceInput.setRecognizer.
+ */
+export interface VoiceRecognizer {
+  /**
+   * Listen for one phrase. onHeard gets the recogniser's guesses, most likely
+   * first; onEnd is called once listening stops, whether or not anything was heard.
+   */
+  listen(onHeard: (alternatives: string[]) => void, onEnd: () => void): void;
+  /** Stop listening early */
+  stop(): void;
+}
+
+// The parts of the Web Speech API's SpeechRecognition used here (not in lib.dom yet)
+interface BrowserSpeechRecognition {
+  lang: string;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onresult: ((event: { results: SpeechRecognitionResultList }) => void) | null;
+  onend: (() => void) | null;
+  onerror: (() => void) | null;
+  start(): void;
+  abort(): void;
+}
+
+type BrowserSpeechRecognitionConstructor = new () => BrowserSpeechRecognition;
+
+// Guesses asked for per phrase, so "ate" can still be read as eight
+const MAX_ALTERNATIVES = 5;
+
+/**
+ * Voice recognizer backed by the browser's SpeechRecognition (prefixed in
+ * Chrome and Safari), or null where the browser has none
+ */
+export function createBrowserVoiceRecognizer(): VoiceRecognizer | null {
+  if (typeof window === 'undefined') return null;
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: BrowserSpeechRecognitionConstructor;
+    webkitSpeechRecognition?: BrowserSpeechRecognitionConstructor;
+  };
+  const Recognition = speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+  if (!Recognition) return null;
+
+  let active: BrowserSpeechRecognition | null = null;
+  return {
+    listen(onHeard, onEnd) {
+      active?.abort();
+      const recognition = new Recognition();
+      recognition.lang = 'en-US';
+      recognition.interimResults = false;
+      recognition.maxAlternatives = MAX_ALTERNATIVES;
+      recognition.onresult = (event) => {
+        const result = event.results[event.results.length - 1];
+        onHeard(Array.from({ length: result.length }, (_, index) => result[index].transcript));
+      };
+      // Errors (no microphone, permission denied) end listening like silence does
+      recognition.onerror = () => recognition.abort();
+      recognition.onend = () => {
+        if (active === recognition) active = null;
+        onEnd();
+      };
+      active = recognition;
+      try {
+        recognition.start();
+      } catch {
+        // Already listening or blocked by the browser
+        active = null;
+        onEnd();
+      }
+    },
+    stop() {
+      active?.abort();
+    },
+  };
+}
+
+/**
+ * Matches what was heard against the choices. Each of the recogniser's
+ * guesses is tried in turn, so a less likely guess can still pick a choice.
+ */
+export function matchSpokenChoice(
+  alternatives: string[],
+  choices: MathChoice[]
+): { choice: MathChoice | null; heard: number | null } {
+  let heard: number | null = null;
+  for (const alternative of alternatives) {
+    const value = parseNumberWords(alternative);
+    if (value === null) continue;
+    const choice = choices.find((option) => option.value === value);
+    if (choice) return { choice, heard: value };
+    heard ??= value;
+  }
+  return { choice: null, heard };
+}
+
+/**
+ * Singleton VoiceInput for answering questions out loud.
+ */
+export class VoiceInput {
+  private static instance: VoiceInput | null = null;
+  private recognizer: VoiceRecognizer | null;
+
+  private constructor() {
+    this.recognizer = createBrowserVoiceRecognizer();
+  }
+
+  /** Get the singleton instance of VoiceInput */
+  static getInstance(): VoiceInput {
+    if (!VoiceInput.instance) {
+      VoiceInput.instance = new VoiceInput();
+    }
+    return VoiceInput.instance;
+  }
+
+  /** Reset the singleton (useful for testing) */
+  static resetInstance(): void {
+    VoiceInput.instance = null;
+  }
+
+  /** Replace the recognizer (null turns voice input off) */
+  setRecognizer(recognizer: VoiceRecognizer | null): void {
+    this.recognizer?.stop();
+    this.recognizer = recognizer;
+  }
+
+  /** Whether this device can listen for answers */
+  isAvailable(): boolean {
+    return this.recognizer !== null;
+  }
+
+  /** Listen for one phrase; ends straight away when voice input is unavailable */
+  listen(onHeard: (alternatives: string[]) => void, onEnd: () => void): void {
+    if (!this.recognizer) {
+      onEnd();
+      return;
+    }
+    this.recognizer.listen(onHeard, onEnd);
+  }
+
+  /** Stop listening */
+  stop(): void {
+    this.recognizer?.stop();
+  }
+}
+
+export default VoiceInput;